@@ -0,0 +1,52 @@
+import type { OCRTextLocation } from '../../src/utils/image/imageOcr';
+
+const line = (
+  text: string,
+  cx: number,
+  cy: number,
+  width: number,
+  height: number,
+  angle = 0
+): OCRTextLocation => ({ text, rotate_rect: [cx, cy, width, height, angle] });
+
+/**
+ * A two-column Japanese menu: dish names on the left, prices on the right
+ */
+export const MENU_IMAGE = { imageWidth: 800, imageHeight: 600 };
+export const MENU_OCR: OCRTextLocation[] = [
+  line('本日のおすすめ', 200, 60, 280, 40),
+  line('醤油ラーメン', 160, 140, 200, 32),
+  line('味噌ラーメン', 160, 190, 200, 32),
+  line('餃子', 100, 240, 70, 32),
+  line('850円', 560, 140, 90, 32),
+  line('900円', 560, 190, 90, 32),
+  line('400円', 560, 240, 90, 32),
+];
+
+/**
+ * A sign with a sentence wrapped over three lines
+ */
+export const SIGN_IMAGE = { imageWidth: 800, imageHeight: 600 };
+export const SIGN_OCR: OCRTextLocation[] = [
+  line('Please do not feed the animals', 400, 200, 460, 36),
+  line('or knock on the glass, as it', 395, 245, 450, 36),
+  line('frightens them.', 320, 290, 300, 36),
+];
+
+/**
+ * A vertical (tategaki) book page with two columns read right to left
+ * The OCR service reports the second column with the angle measured from the other side
+ */
+export const TATEGAKI_IMAGE = { imageWidth: 600, imageHeight: 800 };
+export const TATEGAKI_OCR: OCRTextLocation[] = [
+  line('吾輩は猫である。名前は', 400, 300, 40, 440),
+  line('まだ無い。どこで生れたか', 350, 300, 440, 40, 90),
+];
+
+/**
+ * A small label in the bottom right corner of a photo, whose translation is much longer than the original
+ */
+export const CORNER_IMAGE = { imageWidth: 400, imageHeight: 300 };
+export const CORNER_OCR: OCRTextLocation[] = [
+  line('出口', 375, 285, 40, 24),
+];
@@ -0,0 +1,20 @@
+import { test, expect } from '@playwright/test';
+import { detectScriptLanguage } from '../src/utils/language/detect';
+
+test.describe('Chinese script detection', () => {
+  test('should detect Simplified text as Simplified Chinese', () => {
+    expect(detectScriptLanguage('我们这里的点心很好吃')).toBe('zh');
+    expect(detectScriptLanguage('说话')).toBe('zh');
+  });
+
+  test('should detect Traditional text as Traditional Chinese', () => {
+    expect(detectScriptLanguage('我們這裡的點心很好吃')).toBe('zh-Hant');
+    expect(detectScriptLanguage('說話')).toBe('zh-Hant');
+  });
+
+  test('should not take Traditional text with shared variant characters for Simplified', () => {
+    expect(detectScriptLanguage('這个體育館')).toBe('zh-Hant');
+    expect(detectScriptLanguage('你聽到甚么了嗎')).toBe('zh-Hant');
+    expect(detectScriptLanguage('我與你一起听音樂')).toBe('zh-Hant');
+  });
+});
@@ -0,0 +1,226 @@
+import { test, expect } from '@playwright/test';
+import { breakLines, type TextMeasurer } from '../src/utils/image/overlay/lineBreak';
+import { hasPlacement, layoutOverlay, type TextPlacement } from '../src/utils/image/overlay/layout';
+import { groupTextLines } from '../src/utils/image/textLayout';
+import {
+  CORNER_IMAGE,
+  CORNER_OCR,
+  MENU_IMAGE,
+  MENU_OCR,
+  SIGN_IMAGE,
+  SIGN_OCR,
+  TATEGAKI_IMAGE,
+  TATEGAKI_OCR,
+} from './fixtures/ocrResults';
+
+// Monospaced stand-in for canvas measureText: full-width characters are 1em, everything else 0.55em
+const measure: TextMeasurer = (text, fontSize) =>
+  Array.from(text).reduce((width, char) => width + (/[\u3000-\u9fff\uff00-\uffef]/.test(char) ? 1 : 0.55) * fontSize, 0);
+
+const colors = { background: 'rgb(250, 250, 250)', text: 'rgb(20, 20, 20)' };
+
+// Axis-aligned bounds of a placement
+const bounds = ({ cx, cy, width, height, angle }: TextPlacement) => {
+  const radians = (angle * Math.PI) / 180;
+  const boundsWidth = Math.abs(width * Math.cos(radians)) + Math.abs(height * Math.sin(radians));
+  const boundsHeight = Math.abs(width * Math.sin(radians)) + Math.abs(height * Math.cos(radians));
+  return { left: cx - boundsWidth / 2, right: cx + boundsWidth / 2, top: cy - boundsHeight / 2, bottom: cy + boundsHeight / 2 };
+};
+
+// Rounding slack for positions computed from the rotated bounds
+const EPSILON = 1e-6;
+
+const expectInsideImage = (placement: TextPlacement, { imageWidth, imageHeight }: { imageWidth: number; imageHeight: number }) => {
+  const { left, right, top, bottom } = bounds(placement);
+  expect(left).toBeGreaterThanOrEqual(-EPSILON);
+  expect(right).toBeLessThanOrEqual(imageWidth + EPSILON);
+  expect(top).toBeGreaterThanOrEqual(-EPSILON);
+  expect(bottom).toBeLessThanOrEqual(imageHeight + EPSILON);
+};
+
+test.describe('Overlay Line Breaking', () => {
+  test('should break Latin text between words only', () => {
+    const text = 'Please do not feed the animals or knock on the glass';
+    const lines = breakLines(text, 120, 16, measure);
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join(' ')).toBe(text);
+    for (const line of lines) {
+      expect(measure(line, 16)).toBeLessThanOrEqual(120);
+    }
+  });
+
+  test('should break CJK text between characters and keep punctuation off the line start', () => {
+    const lines = breakLines('吾輩は猫である。名前はまだ無い。', 7 * 16, 16, measure);
+
+    expect(lines.join('')).toBe('吾輩は猫である。名前はまだ無い。');
+    // The full stop does not fit on the first line, so it takes the character before it along
+    expect(lines[0]).toBe('吾輩は猫であ');
+    expect(lines[1]).toBe('る。名前はまだ');
+    for (const line of lines) {
+      expect(line).not.toMatch(/^[、。]/);
+    }
+  });
+
+  test('should keep opening brackets with the text after them', () => {
+    const lines = breakLines('看板に「立入禁止」と書いてある', 4 * 16, 16, measure);
+
+    for (const line of lines) {
+      expect(line).not.toMatch(/「$/);
+    }
+  });
+
+  test('should split words wider than a line', () => {
+    const lines = breakLines('Donaudampfschifffahrtsgesellschaft', 100, 16, measure);
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join('')).toBe('Donaudampfschifffahrtsgesellschaft');
+  });
+});
+
+test.describe('Overlay Layout', () => {
+  test('should translate wrapped sentences as one block', () => {
+    const blocks = groupTextLines(SIGN_OCR, 'en');
+
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].text).toBe('Please do not feed the animals or knock on the glass, as it frightens them.');
+  });
+
+  test('should keep menu columns apart and place every translation inside the image', () => {
+    const blocks = groupTextLines(MENU_OCR, 'ja');
+    const translations = ['Today\'s specials', 'Soy sauce ramen\nMiso ramen\nDumplings', '850 yen\n900 yen\n400 yen'];
+
+    expect(blocks.map(block => block.text)).toEqual(['本日のおすすめ', '醤油ラーメン\n味噌ラーメン\n餃子', '850円\n900円\n400円']);
+
+    const placements = layoutOverlay({
+      blocks,
+      translations,
+      colors: blocks.map(() => colors),
+      targetLang: 'en',
+      measure,
+      ...MENU_IMAGE,
+    });
+    expect(placements).toHaveLength(3);
+
+    for (const placement of placements) {
+      expectInsideImage(placement, MENU_IMAGE);
+      for (const { text } of placement.texts) {
+        expect(measure(text, placement.fontSize)).toBeLessThanOrEqual(placement.width);
+      }
+    }
+
+    // Translations do not cover each other
+    placements.forEach((a, i) => placements.slice(i + 1).forEach(b => {
+      const boxA = bounds(a);
+      const boxB = bounds(b);
+      const overlaps = boxA.left < boxB.right && boxB.left < boxA.right && boxA.top < boxB.bottom && boxB.top < boxA.bottom;
+      expect(overlaps).toBe(false);
+    }));
+  });
+
+  test('should skip blocks whose translation failed, so their text is not erased', () => {
+    const blocks = groupTextLines(MENU_OCR, 'ja');
+    const translations = ['Today\'s specials', '', '850 yen\n900 yen\n400 yen'];
+
+    expect(blocks.map((block, index) => hasPlacement(block, translations[index]))).toEqual([true, false, true]);
+
+    const placements = layoutOverlay({
+      blocks,
+      translations,
+      colors: blocks.map(() => colors),
+      targetLang: 'en',
+      measure,
+      ...MENU_IMAGE,
+    });
+    expect(placements.map(placement => placement.block)).toEqual([0, 2]);
+  });
+
+  test('should draw vertical columns right to left for CJK targets', () => {
+    const blocks = groupTextLines(TATEGAKI_OCR, 'ja');
+
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].orientation).toBe('vertical');
+
+    const [placement] = layoutOverlay({
+      blocks,
+      translations: ['我是猫。名字还没有。不知道在哪里出生的'],
+      colors: [colors],
+      targetLang: 'zh',
+      measure,
+      ...TATEGAKI_IMAGE,
+    });
+
+    expect(placement.direction).toBe('vertical');
+    expect(placement.angle).toBe(0);
+    const xs = placement.texts.map(text => text.x);
+    expect(xs[0]).toBeGreaterThan(xs[xs.length - 1]);
+  });
+
+  test('should turn horizontal text along vertical columns for other targets', () => {
+    const blocks = groupTextLines(TATEGAKI_OCR, 'ja');
+    const [placement] = layoutOverlay({
+      blocks,
+      translations: ['I am a cat. As yet I have no name. I have no idea where I was born.'],
+      colors: [colors],
+      targetLang: 'en',
+      measure,
+      ...TATEGAKI_IMAGE,
+    });
+
+    expect(placement.direction).toBe('horizontal');
+    expect(placement.angle).toBe(90);
+    expect(placement.width).toBeGreaterThan(placement.height);
+  });
+
+  test('should only draw a background where the original text was not erased', () => {
+    const blocks = groupTextLines(SIGN_OCR, 'en');
+
+    const input = { blocks, translations: ['Bitte nicht füttern'], targetLang: 'de' as const, measure, ...SIGN_IMAGE };
+
+    const [erased] = layoutOverlay({ ...input, colors: [colors] });
+    expect(erased.background).toBeNull();
+    expect(erased.color).toBe(colors.text);
+
+    const [notErased] = layoutOverlay({ ...input, colors: [null] });
+    expect(notErased.background).not.toBeNull();
+  });
+
+  test('should keep translations near the edge inside the image', () => {
+    const blocks = groupTextLines(CORNER_OCR, 'ja');
+    const [placement] = layoutOverlay({
+      blocks,
+      translations: ['Emergency exit (staff only)'],
+      colors: [colors],
+      targetLang: 'en',
+      measure,
+      ...CORNER_IMAGE,
+    });
+
+    // The translation wraps over several lines, and the taller box would reach past the bottom edge at the
+    // original spot
+    expect(placement.texts.length).toBeGreaterThan(1);
+    expect(placement.cy).toBeLessThan(285);
+    expectInsideImage(placement, CORNER_IMAGE);
+    // Moved text covers what is under it
+    expect(placement.background).toBe(colors.background);
+  });
+
+  test('should shrink translations larger than the image', () => {
+    const blocks = groupTextLines(CORNER_OCR, 'ja');
+    const [placement] = layoutOverlay({
+      blocks,
+      translations: ['Emergency exit for staff and delivery drivers only. Visitors, please use the main entrance on the other side of the building instead. Thank you for your understanding.'],
+      colors: [colors],
+      targetLang: 'en',
+      measure,
+      ...CORNER_IMAGE,
+    });
+
+    // The translation wraps into a column taller than the image at the minimum font size
+    expect(placement.fontSize).toBeLessThan(12);
+    expectInsideImage(placement, CORNER_IMAGE);
+    for (const { text } of placement.texts) {
+      expect(measure(text, placement.fontSize)).toBeLessThanOrEqual(placement.width + EPSILON);
+    }
+  });
+});
@@ -0,0 +1,73 @@
+import { test, expect } from '@playwright/test';
+import { APICallError, RetryError } from 'ai';
+import { explainWord, quickQA } from '../src/utils/translation/explanation';
+import { AuthError, RateLimitError, normalizeProviderError } from '../src/utils/ai/errors';
+import { DEFAULT_SETTINGS, type AISettings } from '../src/utils/config/settings';
+
+const settings: AISettings = {
+  ...DEFAULT_SETTINGS,
+  generalAI: { apiKey: 'sk-invalid', endpoint: 'https://api.example.com/v1', modelName: 'test-model' },
+};
+
+// Answer every request the way a provider rejects an invalid API key
+const rejectApiKey = () => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async () => new Response(
+    JSON.stringify({ error: { message: 'Incorrect API key provided', type: 'invalid_request_error', code: 'invalid_api_key' } }),
+    { status: 401, headers: { 'Content-Type': 'application/json' } }
+  );
+  return () => {
+    globalThis.fetch = originalFetch;
+  };
+};
+
+const drain = async (stream: AsyncGenerator<string, void, unknown>) => {
+  let text = '';
+  for await (const chunk of stream) {
+    text += chunk;
+  }
+  return text;
+};
+
+test.describe('Streamed Provider Errors', () => {
+  let restoreFetch: () => void;
+
+  test.beforeEach(() => {
+    restoreFetch = rejectApiKey();
+  });
+
+  test.afterEach(() => {
+    restoreFetch();
+  });
+
+  test('should throw an AuthError when an explanation is rejected with 401', async () => {
+    await expect(drain(explainWord('猫', 'ja', 'en', settings))).rejects.toBeInstanceOf(AuthError);
+  });
+
+  test('should throw an AuthError when a Q&A answer is rejected with 401', async () => {
+    await expect(drain(quickQA('How do I ask for the bill?', 'ja', 'en', settings))).rejects.toBeInstanceOf(AuthError);
+  });
+});
+
+test.describe('Retried Provider Errors', () => {
+  const retried = (statusCode: number, responseBody: string) => new RetryError({
+    message: `Failed after 3 attempts. Last error: ${responseBody}`,
+    reason: 'maxRetriesExceeded',
+    errors: [0, 1, 2].map(() => new APICallError({
+      message: responseBody,
+      url: 'https://api.example.com/v1/chat/completions',
+      requestBodyValues: {},
+      statusCode,
+      responseBody,
+    })),
+  });
+
+  test('should type the last error of a request the AI SDK retried', () => {
+    const rateLimited = normalizeProviderError(retried(429, 'Rate limit reached for requests'));
+    expect(rateLimited).toBeInstanceOf(RateLimitError);
+    expect((rateLimited as RateLimitError).isQuotaExceeded).toBe(false);
+
+    expect(normalizeProviderError(retried(429, 'You exceeded your current quota'))).toMatchObject({ isQuotaExceeded: true });
+    expect(normalizeProviderError(retried(401, 'Incorrect API key provided'))).toBeInstanceOf(AuthError);
+  });
+});
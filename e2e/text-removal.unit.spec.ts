@@ -0,0 +1,113 @@
+import { test, expect } from '@playwright/test';
+import { getRegionPolygon, removeText, type Polygon } from '../src/utils/image/overlay/textRemoval';
+
+type RGB = [number, number, number];
+
+const WIDTH = 200;
+const HEIGHT = 120;
+
+// RGBA pixels painted by a function of the position
+const paint = (color: (x: number, y: number) => RGB): Uint8ClampedArray => {
+  const pixels = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      pixels.set([...color(x, y), 255], (y * WIDTH + x) * 4);
+    }
+  }
+  return pixels;
+};
+
+const pixelAt = (pixels: Uint8ClampedArray, x: number, y: number): RGB => {
+  const offset = (y * WIDTH + x) * 4;
+  return [pixels[offset], pixels[offset + 1], pixels[offset + 2]];
+};
+
+const rect = (left: number, top: number, right: number, bottom: number): Polygon =>
+  [left, top, right, top, right, bottom, left, bottom];
+
+// Glyph strokes: every other column of the box
+const isGlyph = (x: number, y: number, [left, top, right, bottom]: number[]) =>
+  x >= left && x < right && y >= top && y < bottom && x % 2 === 0;
+
+// Pixels within a box
+const pixelsIn = (pixels: Uint8ClampedArray, [left, top, right, bottom]: number[]): RGB[] => {
+  const result: RGB[] = [];
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      result.push(pixelAt(pixels, x, y));
+    }
+  }
+  return result;
+};
+
+test.describe('Text Removal', () => {
+  test('should fill text on a flat background with the background color', () => {
+    const box = [60, 40, 140, 70];
+    const pixels = paint((x, y) => isGlyph(x, y, box) ? [10, 10, 10] : [230, 230, 230]);
+
+    const [colors] = removeText(pixels, WIDTH, HEIGHT, [rect(60, 40, 140, 70)]);
+
+    expect(colors).toEqual({ background: 'rgb(230, 230, 230)', text: 'rgb(10, 10, 10)' });
+    expect(pixelsIn(pixels, box).filter(([r, g, b]) => r !== 230 || g !== 230 || b !== 230)).toEqual([]);
+  });
+
+  test('should carry a gradient background into the erased area', () => {
+    const box = [60, 40, 140, 70];
+    const gradient = (x: number): RGB => [x, 100, 255 - x];
+    const pixels = paint((x, y) => isGlyph(x, y, box) ? [0, 0, 0] : gradient(x));
+
+    removeText(pixels, WIDTH, HEIGHT, [rect(60, 40, 140, 70)]);
+
+    // Interpolated from the sides, so close to the gradient rather than one flat color
+    let maxDeviation = 0;
+    for (let y = 40; y < 70; y++) {
+      for (let x = 60; x < 140; x++) {
+        const color = pixelAt(pixels, x, y);
+        maxDeviation = Math.max(maxDeviation, ...color.map((value, i) => Math.abs(value - gradient(x)[i])));
+      }
+    }
+    expect(maxDeviation).toBeLessThan(40);
+  });
+
+  test('should estimate the glyph color from the pixels that stand out', () => {
+    const box = [60, 40, 140, 70];
+    const pixels = paint((x, y) => isGlyph(x, y, box) ? [200, 30, 40] : [250, 245, 235]);
+
+    const [colors] = removeText(pixels, WIDTH, HEIGHT, [rect(60, 40, 140, 70)]);
+
+    expect(colors?.text).toBe('rgb(200, 30, 40)');
+    expect(colors?.background).toBe('rgb(250, 245, 235)');
+  });
+
+  test('should not take colors from the text of a neighboring region', () => {
+    // Two words so close that the border sampled around each one runs through the other
+    const left = [40, 40, 96, 60];
+    const right = [98, 40, 160, 60];
+    const gradient = (x: number): RGB => [x, 150, 150];
+    const pixels = paint((x, y) => isGlyph(x, y, left) || isGlyph(x, y, right) ? [0, 0, 0] : gradient(x));
+
+    const colors = removeText(pixels, WIDTH, HEIGHT, [rect(40, 40, 96, 60), rect(98, 40, 160, 60)]);
+
+    expect(colors.map(color => color?.text)).toEqual(['rgb(0, 0, 0)', 'rgb(0, 0, 0)']);
+    // No glyph pixels were averaged into either fill
+    const darkened = pixelsIn(pixels, [40, 40, 160, 60]).filter(([, g, b]) => g < 140 || b < 140);
+    expect(darkened).toEqual([]);
+  });
+
+  test('should build the polygon from the rotated rectangle when there is no location', () => {
+    expect(getRegionPolygon({ text: 'a', location: [1, 2, 3, 4, 5, 6, 7, 8] })).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+
+    const level = getRegionPolygon({ text: 'a', rotate_rect: [100, 50, 40, 20, 0] });
+    expect(level).toEqual([80, 40, 120, 40, 120, 60, 80, 60]);
+
+    // A quarter turn swaps the extent along each axis
+    const turned = getRegionPolygon({ text: 'a', rotate_rect: [100, 50, 40, 20, 90] }) ?? [];
+    const xs = turned.filter((_, i) => i % 2 === 0);
+    const ys = turned.filter((_, i) => i % 2 === 1);
+    expect(Math.max(...xs) - Math.min(...xs)).toBeCloseTo(20);
+    expect(Math.max(...ys) - Math.min(...ys)).toBeCloseTo(40);
+
+    expect(getRegionPolygon({ text: 'a', rotate_rect: [100, 50, 0, 20, 0] })).toBeNull();
+    expect(getRegionPolygon({ text: 'a' })).toBeNull();
+  });
+});
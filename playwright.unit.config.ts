@@ -0,0 +1,13 @@
+import { defineConfig } from '@playwright/test';
+
+/**
+ * Unit tests of pure functions (*.unit.spec.ts), which need neither a browser nor the preview server
+ * See playwright.config.ts for the end-to-end tests
+ */
+export default defineConfig({
+  testDir: './e2e',
+  testMatch: /\.unit\.spec\.ts$/,
+  fullyParallel: true,
+  forbidOnly: !!process.env.CI,
+  reporter: process.env.CI ? 'line' : 'list',
+});
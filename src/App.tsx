@@ -2,7 +2,7 @@ import { useState, useEffect, lazy, Suspense } from 'react';
 import { TranslationTool } from './components/TranslationTool';
 import { UpdateNotification } from './components/UpdateNotification';
 import { Toaster } from './components/ui/toaster';
-import { loadSettings, saveSettings, AISettings, DEFAULT_SETTINGS } from './utils/config/settings';
+import { loadSettings, saveSettings, AISettings, DEFAULT_SETTINGS, type SettingsTab } from './utils/config/settings';
 import { usePWAUpdate } from './hooks/usePWAUpdate';
 
 // Lazy load SettingsPanel - only loaded when user opens settings
@@ -12,7 +12,7 @@ const WelcomeWizard = lazy(() => import('./components/WelcomeWizard').then(modul
 
 export function App() {
   const [showSettings, setShowSettings] = useState(false);
-  const [settingsInitialTab, setSettingsInitialTab] = useState<'general' | 'translation' | 'speech' | 'image'>('general');
+  const [settingsInitialTab, setSettingsInitialTab] = useState<SettingsTab>('general');
   const [currentSettings, setCurrentSettings] = useState<AISettings | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [showWelcomeWizard, setShowWelcomeWizard] = useState(false);
@@ -44,6 +44,12 @@ export function App() {
     setShowSettings(false);
   };
 
+  // Settings changed from the main screen (e.g. switching provider profile)
+  const handleSettingsChange = (settings: AISettings) => {
+    saveSettings(settings);
+    setCurrentSettings(settings);
+  };
+
   const handleWelcomeComplete = (settings: AISettings) => {
     saveSettings(settings);
     setCurrentSettings(settings);
@@ -62,7 +68,7 @@ export function App() {
     setShowSettings(false);
   };
 
-  const handleOpenSettings = (initialTab?: 'general' | 'translation' | 'speech' | 'image') => {
+  const handleOpenSettings = (initialTab?: SettingsTab) => {
     setSettingsInitialTab(initialTab || 'general');
     setShowSettings(true);
   };
@@ -90,6 +96,7 @@ export function App() {
         <TranslationTool
           settings={currentSettings}
           onOpenSettings={handleOpenSettings}
+          onSettingsChange={handleSettingsChange}
         />
       )}
 
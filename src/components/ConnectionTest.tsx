@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Loader2, Plug, Search, X } from 'lucide-react';
+import type { ProfileFeature } from '../utils/config/settings';
+import type { ProviderConfig } from '../utils/config/profiles';
+import { testConnection, type ConnectionTestResult } from '../utils/ai/connection';
+import { AbortError, describeError, normalizeProviderError, type ErrorDescription } from '../utils/ai/errors';
+
+interface ConnectionTestProps {
+  provider: ProviderConfig;
+  feature: ProfileFeature; // Used for error messages
+  onSelectModel?: (modelName: string) => void; // Shows the model picker when set
+}
+
+const inputClassName = 'w-full px-3 py-2 text-sm rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-800 dark:text-white focus:border-indigo-500 focus:outline-none transition-colors';
+
+const CapabilityBadge: React.FC<{ label: string; supported: boolean }> = ({ label, supported }) => (
+  <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 text-[10px] font-semibold rounded ${supported ? 'text-green-700 dark:text-green-300 bg-green-100 dark:bg-green-900/40' : 'text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-700'}`}>
+    {supported ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+    {label}
+  </span>
+);
+
+/**
+ * "Test connection" button for a provider, with latency, capabilities and a searchable model picker
+ */
+export const ConnectionTest: React.FC<ConnectionTestProps> = ({ provider, feature, onSelectModel }) => {
+  const [isTesting, setIsTesting] = useState(false);
+  const [result, setResult] = useState<ConnectionTestResult | null>(null);
+  const [error, setError] = useState<ErrorDescription | null>(null);
+  const [modelQuery, setModelQuery] = useState('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Cancel a running test when the form closes
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const handleTest = async () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsTesting(true);
+    setResult(null);
+    setError(null);
+    try {
+      setResult(await testConnection(provider, controller.signal));
+    } catch (err) {
+      if (!(normalizeProviderError(err) instanceof AbortError)) {
+        console.error('[Connection Test] Failed:', err);
+        setError(describeError(err, feature));
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsTesting(false);
+      }
+    }
+  };
+
+  const query = modelQuery.trim().toLowerCase();
+  const filteredModels = (result?.models || []).filter(model => model.toLowerCase().includes(query));
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={handleTest}
+        disabled={isTesting || !provider.apiKey || !provider.endpoint}
+        className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-semibold text-indigo-600 dark:text-indigo-400 bg-white dark:bg-gray-700 border-2 border-indigo-200 dark:border-indigo-800 rounded-xl hover:bg-indigo-50 dark:hover:bg-indigo-900/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 btn-pop"
+      >
+        {isTesting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plug className="w-4 h-4" />}
+        {isTesting ? 'Testing...' : 'Test connection'}
+      </button>
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/30 rounded-xl border border-red-200 dark:border-red-800">
+          <p className="text-sm font-semibold text-red-800 dark:text-red-200">{error.title}</p>
+          <p className="text-xs text-red-700 dark:text-red-300 mt-0.5">{error.description}</p>
+        </div>
+      )}
+
+      {result && (
+        <div className="p-3 bg-green-50 dark:bg-green-900/30 rounded-xl border border-green-200 dark:border-green-800 space-y-1.5">
+          <p className="text-sm text-green-800 dark:text-green-200">
+            <strong>Connected</strong> · {result.latencyMs} ms
+            {result.models.length > 0 && ` · ${result.models.length} models`}
+          </p>
+          {result.supportsJson !== undefined && result.supportsVision !== undefined && (
+            <div className="flex flex-wrap gap-1.5">
+              <CapabilityBadge label="JSON mode" supported={result.supportsJson} />
+              <CapabilityBadge label="Vision" supported={result.supportsVision} />
+            </div>
+          )}
+          {result.modelFound === false && (
+            <p className="text-xs text-amber-700 dark:text-amber-300">
+              "{provider.modelName}" is not in the provider's model list, but it answered the test request.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Model Picker */}
+      {onSelectModel && result && result.models.length > 0 && (
+        <div className="space-y-1.5">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              value={modelQuery}
+              onChange={(e) => setModelQuery(e.target.value)}
+              placeholder="Search models..."
+              className={`${inputClassName} pl-9`}
+            />
+          </div>
+          <ul className="max-h-40 overflow-y-auto rounded-xl border-2 border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+            {filteredModels.map(model => (
+              <li key={model}>
+                <button
+                  onClick={() => onSelectModel(model)}
+                  className={`w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left text-xs transition-colors ${model === provider.modelName ? 'text-indigo-600 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/30 font-semibold' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
+                >
+                  <span className="truncate">{model}</span>
+                  {model === provider.modelName && <Check className="w-3.5 h-3.5 flex-shrink-0" />}
+                </button>
+              </li>
+            ))}
+            {filteredModels.length === 0 && (
+              <li className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">No matching models</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,443 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Mic, Volume2, VolumeX, Trash2, FlipVertical, Users, Loader2 } from 'lucide-react';
+import { SUPPORTED_LANGUAGES, type LanguageCode } from '../utils/translation/translation';
+import { translateTextCached } from '../utils/translation/cache';
+import { speakText, stopSpeaking, getSpeechLocale } from '../utils/audio/speech';
+import { RealtimeTranscriptionService } from '../utils/audio/realtimeTranscription';
+import { createId } from '../utils/storage/db';
+import { AISettings } from '../utils/config/settings';
+import { toast } from './ui/use-toast';
+import { useErrorToast } from '../hooks/useErrorToast';
+import { useBudgetWarning } from '../hooks/useBudgetWarning';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+// The person holding the device, and the person across the table
+type Speaker = 'self' | 'partner';
+
+interface ConversationMessage {
+  id: string;
+  speaker: Speaker;
+  text: string;
+  translation: string;
+  status: 'translating' | 'done' | 'error';
+}
+
+interface ConversationPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AISettings;
+  initialSelfLang: LanguageCode;
+  initialPartnerLang: LanguageCode;
+}
+
+type SpeechRecognitionInstance = InstanceType<NonNullable<Window['SpeechRecognition']>>;
+
+const languageOptions = Object.entries(SUPPORTED_LANGUAGES).map(([code, name]) => ({
+  value: code,
+  label: name
+}));
+
+const isPermissionError = (error: unknown): boolean => {
+  return error instanceof Error &&
+    (error.name === 'NotAllowedError' ||
+     error.name === 'PermissionDeniedError' ||
+     error.message.includes('Permission denied') ||
+     error.message.includes('permission'));
+};
+
+const showPermissionToast = () => {
+  toast({
+    variant: "destructive",
+    title: "Microphone Permission Denied",
+    description: "Please allow microphone access in your browser settings to use voice input.",
+  });
+};
+
+interface ConversationHalfProps {
+  speaker: Speaker;
+  lang: LanguageCode;
+  onLangChange: (lang: LanguageCode) => void;
+  messages: ConversationMessage[];
+  isListening: boolean;
+  interim: { speaker: Speaker; text: string } | null; // Speech still being recognized, from either side
+  onToggleListening: () => void;
+  flipped?: boolean;
+}
+
+/**
+ * One person's half of the screen: the transcript in their language and their microphone
+ */
+const ConversationHalf: React.FC<ConversationHalfProps> = ({
+  speaker,
+  lang,
+  onLangChange,
+  messages,
+  isListening,
+  interim,
+  onToggleListening,
+  flipped,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [messages, interim?.text]);
+
+  return (
+    <div className={`flex-1 min-h-0 flex flex-col ${flipped ? 'rotate-180' : ''}`}>
+      <div ref={scrollRef} className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+        {messages.length === 0 && !interim ? (
+          <p className="h-full flex items-center justify-center text-sm text-gray-400 dark:text-gray-500 text-center">
+            Tap the microphone and speak {SUPPORTED_LANGUAGES[lang]}
+          </p>
+        ) : (
+          messages.map(message => {
+            const isOwn = message.speaker === speaker;
+            // Each side reads the conversation in its own language
+            const primary = isOwn ? message.text : message.translation;
+            const secondary = isOwn ? message.translation : message.text;
+
+            return (
+              <div key={message.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                <div
+                  className={`max-w-[80%] px-3 py-2 rounded-2xl ${
+                    isOwn
+                      ? 'bg-indigo-500 text-white rounded-br-md'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100 rounded-bl-md'
+                  }`}
+                >
+                  {message.status === 'translating' && !isOwn ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : message.status === 'error' && !isOwn ? (
+                    <p className="text-sm text-red-500">Translation failed</p>
+                  ) : (
+                    <p className="text-sm whitespace-pre-wrap">{primary}</p>
+                  )}
+                  {secondary && message.status === 'done' && (
+                    <p className={`mt-1 text-xs whitespace-pre-wrap ${isOwn ? 'text-white/70' : 'text-gray-500 dark:text-gray-400'}`}>
+                      {secondary}
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+        {interim && (
+          // On the same side as the message it turns into
+          <div className={`flex ${interim.speaker === speaker ? 'justify-end' : 'justify-start'}`}>
+            <p
+              className={`max-w-[80%] px-3 py-2 rounded-2xl text-sm italic ${
+                interim.speaker === speaker
+                  ? 'rounded-br-md bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-200'
+                  : 'rounded-bl-md bg-gray-50 dark:bg-gray-700/60 text-gray-500 dark:text-gray-400'
+              }`}
+            >
+              {interim.text}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3 px-4 py-3 border-t border-gray-100 dark:border-gray-700">
+        <Select value={lang} onValueChange={(value) => onLangChange(value as LanguageCode)}>
+          <SelectTrigger className="flex-1 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {languageOptions.map(option => (
+              <SelectItem key={`${speaker}-${option.value}`} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <button
+          onClick={onToggleListening}
+          className={`p-3 rounded-full shadow-md btn-pop flex items-center justify-center w-12 h-12 ${
+            isListening ? 'bg-red-500 text-white' : 'bg-indigo-500 text-white'
+          }`}
+          title={isListening ? 'Stop' : 'Speak'}
+        >
+          {isListening ? <div className="w-4 h-4 bg-white rounded-sm"></div> : <Mic className="w-5 h-5" />}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Face-to-face conversation: two speakers, each with their own language and microphone
+ */
+export const ConversationPanel: React.FC<ConversationPanelProps> = ({
+  isOpen,
+  onClose,
+  settings,
+  initialSelfLang,
+  initialPartnerLang,
+}) => {
+  const [selfLang, setSelfLang] = useState<LanguageCode>(initialSelfLang);
+  const [partnerLang, setPartnerLang] = useState<LanguageCode>(initialPartnerLang);
+  const [messages, setMessages] = useState<ConversationMessage[]>([]);
+  const [listening, setListening] = useState<Speaker | null>(null);
+  const [interimText, setInterimText] = useState('');
+  const [autoSpeak, setAutoSpeak] = useState(false);
+  const [flipPartner, setFlipPartner] = useState(false);
+  const showErrorToast = useErrorToast(settings);
+  const warnIfOverBudget = useBudgetWarning(settings);
+
+  const recognitionRef = useRef<SpeechRecognitionInstance | null>(null);
+  const transcriptionRef = useRef<RealtimeTranscriptionService | null>(null);
+  // Read inside speech callbacks, which outlive the render that created them
+  const autoSpeakRef = useRef(autoSpeak);
+
+  useEffect(() => {
+    autoSpeakRef.current = autoSpeak;
+  }, [autoSpeak]);
+
+  const stopListening = () => {
+    if (transcriptionRef.current) {
+      transcriptionRef.current.stop();
+      transcriptionRef.current = null;
+    }
+    if (recognitionRef.current) {
+      try {
+        recognitionRef.current.stop();
+      } catch (err) {
+        console.error('[Conversation] Failed to stop recognition:', err);
+      }
+      recognitionRef.current = null;
+    }
+    setListening(null);
+    setInterimText('');
+  };
+
+  // Release the microphone if the panel unmounts while listening
+  useEffect(() => {
+    return () => {
+      transcriptionRef.current?.stop();
+      recognitionRef.current?.stop();
+      stopSpeaking();
+    };
+  }, []);
+
+  const addMessage = async (speaker: Speaker, text: string, from: LanguageCode, to: LanguageCode) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+
+    const id = createId();
+    setMessages(prev => [...prev, { id, speaker, text: trimmed, translation: '', status: 'translating' }]);
+
+    try {
+      const translation = await translateTextCached(trimmed, from, to, settings);
+      setMessages(prev => prev.map(message =>
+        message.id === id ? { ...message, translation, status: 'done' } : message
+      ));
+      if (autoSpeakRef.current) {
+        speakText(translation, to);
+      }
+    } catch (error) {
+      console.error('[Conversation] Translation error:', error);
+      setMessages(prev => prev.map(message =>
+        message.id === id ? { ...message, status: 'error' } : message
+      ));
+      showErrorToast(error, 'translation');
+    }
+  };
+
+  const startListening = async (speaker: Speaker) => {
+    stopListening();
+    stopSpeaking();
+
+    const from = speaker === 'self' ? selfLang : partnerLang;
+    const to = speaker === 'self' ? partnerLang : selfLang;
+
+    if (from === to) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Language Selection",
+        description: "Both speakers have the same language. Please select different languages.",
+      });
+      return;
+    }
+    warnIfOverBudget();
+
+    setListening(speaker);
+
+    // AI service and local Whisper transcribe each spoken segment as it ends
+    if (settings.speechRecognition.provider !== 'web-speech') {
+      const service = new RealtimeTranscriptionService(settings, {
+        onTranscript: (text: string, isFinal: boolean) => {
+          if (isFinal) {
+            setInterimText('');
+            addMessage(speaker, text, from, to);
+          } else {
+            setInterimText(text);
+          }
+        },
+        onError: (error: Error) => {
+          console.error('[Conversation] Transcription error:', error);
+          showErrorToast(error, 'speech');
+        },
+      });
+      transcriptionRef.current = service;
+
+      try {
+        await service.start();
+      } catch (err) {
+        if (isPermissionError(err)) {
+          showPermissionToast();
+        }
+        transcriptionRef.current = null;
+        setListening(null);
+      }
+      return;
+    }
+
+    // Web Speech API: one utterance per tap
+    const SpeechRecognitionAPI = window.SpeechRecognition || window.webkitSpeechRecognition;
+    if (!SpeechRecognitionAPI) {
+      toast({
+        variant: "destructive",
+        title: "Speech Recognition Not Supported",
+        description: "Your browser does not support speech recognition. Choose another provider in Settings.",
+      });
+      setListening(null);
+      return;
+    }
+
+    const recognition = new SpeechRecognitionAPI();
+    recognition.lang = getSpeechLocale(from);
+    recognition.continuous = false;
+    recognition.interimResults = true;
+    recognition.maxAlternatives = 1;
+
+    recognition.onresult = (event) => {
+      const results = Array.from(event.results);
+      const transcript = results.map(result => result[0].transcript).join('');
+      if (results.every(result => result.isFinal)) {
+        setInterimText('');
+        addMessage(speaker, transcript, from, to);
+      } else {
+        setInterimText(transcript);
+      }
+    };
+
+    recognition.onerror = (event) => {
+      console.error('[Conversation] Speech recognition error:', event.error);
+      if (event.error === 'not-allowed' || event.error === 'audio-capture') {
+        showPermissionToast();
+      }
+    };
+
+    recognition.onend = () => {
+      if (recognitionRef.current === recognition) {
+        recognitionRef.current = null;
+        setListening(null);
+        setInterimText('');
+      }
+    };
+
+    recognitionRef.current = recognition;
+    try {
+      recognition.start();
+    } catch (err) {
+      console.error('[Conversation] Failed to start recognition:', err);
+      recognitionRef.current = null;
+      setListening(null);
+    }
+  };
+
+  const handleClose = () => {
+    stopListening();
+    stopSpeaking();
+    onClose();
+  };
+
+  const toggleListening = (speaker: Speaker) => {
+    if (listening === speaker) {
+      stopListening();
+    } else {
+      startListening(speaker);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const interim = listening && interimText ? { speaker: listening, text: interimText } : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-white dark:bg-gray-800">
+      {/* Partner's half, optionally upside down so they can read it across the table */}
+      <ConversationHalf
+        speaker="partner"
+        lang={partnerLang}
+        onLangChange={setPartnerLang}
+        messages={messages}
+        isListening={listening === 'partner'}
+        interim={interim}
+        onToggleListening={() => toggleListening('partner')}
+        flipped={flipPartner}
+      />
+
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-4 py-2 bg-gradient-to-r from-indigo-500 to-purple-500">
+        <div className="flex items-center gap-2 text-white">
+          <Users className="w-5 h-5" />
+          <span className="text-sm font-bold">Conversation</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setAutoSpeak(!autoSpeak)}
+            className={`p-2 rounded-lg transition-all duration-200 btn-pop ${autoSpeak ? 'text-white bg-indigo-600' : 'text-white/80 hover:text-white hover:bg-indigo-600'}`}
+            title={autoSpeak ? 'Read translations aloud: on' : 'Read translations aloud: off'}
+          >
+            {autoSpeak ? <Volume2 className="w-5 h-5" /> : <VolumeX className="w-5 h-5" />}
+          </button>
+          <button
+            onClick={() => setFlipPartner(!flipPartner)}
+            className={`p-2 rounded-lg transition-all duration-200 btn-pop ${flipPartner ? 'text-white bg-indigo-600' : 'text-white/80 hover:text-white hover:bg-indigo-600'}`}
+            title="Flip the other person's side"
+          >
+            <FlipVertical className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setMessages([])}
+            disabled={messages.length === 0}
+            className="p-2 text-white/80 hover:text-white hover:bg-indigo-600 rounded-lg transition-all duration-200 btn-pop disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Clear conversation"
+          >
+            <Trash2 className="w-5 h-5" />
+          </button>
+          <button
+            onClick={handleClose}
+            className="p-2 text-white/80 hover:text-white hover:bg-indigo-600 rounded-lg transition-all duration-200 btn-pop"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Own half */}
+      <ConversationHalf
+        speaker="self"
+        lang={selfLang}
+        onLangChange={setSelfLang}
+        messages={messages}
+        isListening={listening === 'self'}
+        interim={interim}
+        onToggleListening={() => toggleListening('self')}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,408 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { X, FileText, Upload, Download, ArrowRight, Check, AlertCircle, Loader2 } from 'lucide-react';
+import { SUPPORTED_LANGUAGES, type LanguageCode } from '../utils/translation/translation';
+import {
+  getDocumentFormat,
+  getCsvColumns,
+  splitDocument,
+  joinDocument,
+  translateDocument,
+  downloadDocument,
+  type DocumentFormat,
+  type SegmentStatus,
+} from '../utils/document/document';
+import { AISettings } from '../utils/config/settings';
+import { Switch } from './ui/switch';
+import { toast } from './ui/use-toast';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { useBudgetWarning } from '../hooks/useBudgetWarning';
+
+interface DocumentPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AISettings;
+  initialSourceLang: LanguageCode;
+  initialTargetLang: LanguageCode;
+}
+
+interface LoadedFile {
+  name: string;
+  format: DocumentFormat;
+  text: string;
+}
+
+const FORMAT_LABELS: Record<DocumentFormat, string> = {
+  txt: 'Plain text',
+  md: 'Markdown',
+  srt: 'SubRip subtitles',
+  csv: 'Spreadsheet',
+};
+
+const languageOptions = Object.entries(SUPPORTED_LANGUAGES).map(([code, name]) => ({
+  value: code,
+  label: name
+}));
+
+/**
+ * Translate a whole .txt, .md, .srt or .csv file segment by segment and download it in the same format
+ */
+export const DocumentPanel: React.FC<DocumentPanelProps> = ({
+  isOpen,
+  onClose,
+  settings,
+  initialSourceLang,
+  initialTargetLang,
+}) => {
+  const [sourceLang, setSourceLang] = useState<LanguageCode>(initialSourceLang);
+  const [targetLang, setTargetLang] = useState<LanguageCode>(initialTargetLang);
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [columns, setColumns] = useState<number[]>([]);
+  const [statuses, setStatuses] = useState<SegmentStatus[]>([]);
+  const [translations, setTranslations] = useState<Array<string | undefined>>([]);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const warnIfOverBudget = useBudgetWarning(settings);
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const csvColumns = useMemo(
+    () => (file?.format === 'csv' ? getCsvColumns(file.text, hasHeader) : []),
+    [file, hasHeader]
+  );
+
+  const doc = useMemo(
+    () => (file ? splitDocument(file.text, file.format, { columns, hasHeader }) : null),
+    [file, columns, hasHeader]
+  );
+
+  // Progress belongs to the current split and languages, start over when they change
+  useEffect(() => {
+    setStatuses(doc ? doc.segments.map(() => 'pending') : []);
+    setTranslations([]);
+  }, [doc, sourceLang, targetLang]);
+
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: async acceptedFiles => {
+      if (acceptedFiles.length === 0) return;
+      const dropped = acceptedFiles[0];
+
+      const format = getDocumentFormat(dropped.name);
+      if (!format) {
+        toast({
+          variant: "destructive",
+          title: "Unsupported File",
+          description: "Please choose a .txt, .md, .srt or .csv file.",
+        });
+        return;
+      }
+
+      try {
+        const text = await dropped.text();
+        setFile({ name: dropped.name, format, text });
+        // Translate the second column by default, the first is usually a key or name
+        setColumns(format === 'csv' ? [getCsvColumns(text, true).length > 1 ? 1 : 0] : []);
+        setHasHeader(true);
+      } catch (error) {
+        console.error('[Document] Failed to read file:', error);
+        toast({
+          variant: "destructive",
+          title: "Read Failed",
+          description: "Failed to read the file. Please try again.",
+        });
+      }
+    },
+    accept: {
+      'text/plain': ['.txt', '.text', '.srt'],
+      'text/markdown': ['.md', '.markdown'],
+      'text/csv': ['.csv'],
+      'text/tab-separated-values': ['.tsv'],
+      'application/x-subrip': ['.srt'],
+    },
+    maxFiles: 1,
+    disabled: isTranslating,
+  });
+
+  const handleTranslate = async () => {
+    if (!doc || !file) return;
+
+    if (sourceLang === targetLang) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Language Selection",
+        description: "Source and target languages cannot be the same. Please select different languages.",
+      });
+      return;
+    }
+
+    warnIfOverBudget();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsTranslating(true);
+
+    try {
+      // Segments translated before a cancel or failure are not sent again
+      const result = await translateDocument(doc, sourceLang, targetLang, settings, {
+        abortSignal: abortController.signal,
+        completed: translations,
+        onProgress: (index, status, translation) => {
+          setStatuses(prev => prev.map((value, i) => (i === index ? status : value)));
+          if (translation !== undefined) {
+            setTranslations(prev => {
+              const next = [...prev];
+              next[index] = translation;
+              return next;
+            });
+          }
+        },
+      });
+
+      const failed = result.filter(translation => translation === undefined).length;
+      if (failed > 0) {
+        toast({
+          variant: "destructive",
+          title: "Some Segments Failed",
+          description: `${failed} ${failed === 1 ? 'segment was' : 'segments were'} left untranslated. Translate again to retry them.`,
+        });
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        console.log('[Document] Translation was cancelled');
+        setStatuses(prev => prev.map(status => (status === 'translating' ? 'pending' : status)));
+        return;
+      }
+      console.error('[Document] Translation error:', error);
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+        setIsTranslating(false);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsTranslating(false);
+  };
+
+  const handleDownload = () => {
+    if (!doc || !file) return;
+    downloadDocument(joinDocument(doc, translations), file.name, file.format, targetLang);
+  };
+
+  const handleClose = () => {
+    handleCancel();
+    onClose();
+  };
+
+  const toggleColumn = (index: number) => {
+    setColumns(prev => (prev.includes(index) ? prev.filter(column => column !== index) : [...prev, index].sort((a, b) => a - b)));
+  };
+
+  if (!isOpen) return null;
+
+  const total = statuses.length;
+  const done = statuses.filter(status => status === 'done').length;
+  const hasTranslations = translations.some(translation => translation !== undefined);
+
+  const chipClassName = (active: boolean) =>
+    `px-3 py-1 text-xs font-medium rounded-full whitespace-nowrap transition-all duration-200 btn-pop ${
+      active
+        ? 'bg-indigo-500 text-white'
+        : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30'
+    }`;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200"
+      onClick={handleClose}
+    >
+      <div
+        className="relative w-full max-w-md bg-white dark:bg-gray-800 rounded-3xl shadow-2xl animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-500 rounded-xl cute-shadow">
+              <FileText className="w-5 h-5 text-white" />
+            </div>
+            <h2 className="text-base sm:text-xl font-bold text-gray-800 dark:text-white">
+              Translate Document
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded-lg transition-all duration-200 btn-pop"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto custom-scrollbar">
+          {/* Languages */}
+          <div className="flex items-center gap-2">
+            <Select value={sourceLang} onValueChange={(value) => setSourceLang(value as LanguageCode)} disabled={isTranslating}>
+              <SelectTrigger className="h-9 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {languageOptions.map(lang => (
+                  <SelectItem key={`source-${lang.value}`} value={lang.value}>{lang.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ArrowRight className="w-4 h-4 flex-shrink-0 text-gray-400" />
+            <Select value={targetLang} onValueChange={(value) => setTargetLang(value as LanguageCode)} disabled={isTranslating}>
+              <SelectTrigger className="h-9 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {languageOptions.map(lang => (
+                  <SelectItem key={`target-${lang.value}`} value={lang.value}>{lang.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* File */}
+          <div
+            {...getRootProps()}
+            className={`p-4 rounded-2xl border-2 border-dashed text-center cursor-pointer transition-colors ${
+              isDragActive
+                ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30'
+                : 'border-gray-200 dark:border-gray-700 hover:border-indigo-300 dark:hover:border-indigo-700'
+            } ${isTranslating ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            <input {...getInputProps()} />
+            {file ? (
+              <div>
+                <p className="text-sm font-semibold text-gray-800 dark:text-white break-all">{file.name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                  {FORMAT_LABELS[file.format]} · {total} {total === 1 ? 'segment' : 'segments'} · Drop another file to replace
+                </p>
+              </div>
+            ) : (
+              <div className="flex flex-col items-center py-2">
+                <Upload className="w-6 h-6 text-indigo-500 mb-2" />
+                <p className="text-sm text-gray-600 dark:text-gray-300">Drop a .txt, .md, .srt or .csv file</p>
+                <p className="text-xs text-gray-400 dark:text-gray-500 mt-0.5">or click to choose one</p>
+              </div>
+            )}
+          </div>
+
+          {/* Spreadsheet columns */}
+          {file?.format === 'csv' && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label htmlFor="documentHasHeader" className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  First row is a header
+                </label>
+                <Switch id="documentHasHeader" checked={hasHeader} onCheckedChange={setHasHeader} disabled={isTranslating} />
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Columns to translate</p>
+              <div className="flex flex-wrap gap-2">
+                {csvColumns.map((name, index) => (
+                  <button
+                    key={index}
+                    onClick={() => toggleColumn(index)}
+                    disabled={isTranslating}
+                    className={chipClassName(columns.includes(index))}
+                  >
+                    {name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Progress */}
+          {doc && total > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+                <span>Progress</span>
+                <span>{done} / {total}</span>
+              </div>
+              <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-indigo-500 transition-all duration-300"
+                  style={{ width: `${(done / total) * 100}%` }}
+                />
+              </div>
+              <ul className="max-h-56 overflow-y-auto custom-scrollbar space-y-1.5 pr-1">
+                {doc.segments.map((segment, index) => (
+                  <li key={index} className="flex items-start gap-2 p-2 rounded-xl bg-gray-50 dark:bg-gray-700/50">
+                    <span className="mt-0.5 flex-shrink-0">
+                      {statuses[index] === 'done' ? (
+                        <Check className="w-3.5 h-3.5 text-green-500" />
+                      ) : statuses[index] === 'translating' ? (
+                        <Loader2 className="w-3.5 h-3.5 text-indigo-500 animate-spin" />
+                      ) : statuses[index] === 'error' ? (
+                        <AlertCircle className="w-3.5 h-3.5 text-red-500" />
+                      ) : (
+                        <span className="block w-3.5 h-3.5 rounded-full border-2 border-gray-300 dark:border-gray-500" />
+                      )}
+                    </span>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{segment}</p>
+                      {translations[index] && (
+                        <p className="text-xs text-gray-800 dark:text-gray-200 truncate">{translations[index]}</p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {doc && total === 0 && (
+            <p className="text-sm text-gray-400 dark:text-gray-500 text-center">
+              {file?.format === 'csv' ? 'Select at least one column to translate' : 'Nothing to translate in this file'}
+            </p>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-2 p-6 pt-0">
+          {isTranslating ? (
+            <button
+              onClick={handleCancel}
+              className="flex-1 px-4 py-2.5 text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border-2 border-gray-200 dark:border-gray-600 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-600/50 transition-all duration-200 btn-pop"
+            >
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={handleTranslate}
+              disabled={!doc || total === 0 || done === total}
+              className="flex-1 px-4 py-2.5 text-sm font-semibold text-white bg-indigo-500 rounded-xl cute-shadow hover:bg-indigo-400 transition-all duration-200 btn-pop disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {done > 0 && done < total ? 'Continue' : 'Translate'}
+            </button>
+          )}
+          <button
+            onClick={handleDownload}
+            disabled={!hasTranslations || isTranslating}
+            className="flex items-center justify-center gap-1.5 px-4 py-2.5 text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border-2 border-gray-200 dark:border-gray-600 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-600/50 transition-all duration-200 btn-pop disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" />
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,300 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, BookA, Plus, Upload, Download, ArrowRight } from 'lucide-react';
+import {
+  listGlossary,
+  addGlossaryEntry,
+  deleteGlossaryEntry,
+  importGlossary,
+  exportGlossaryToFile,
+  type GlossaryEntry,
+  type GlossaryFormat,
+} from '../utils/glossary/glossary';
+import { clearTranslationCache } from '../utils/translation/cache';
+import { SUPPORTED_LANGUAGES, type LanguageCode } from '../utils/translation/translation';
+import { toast } from './ui/use-toast';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+interface GlossaryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 text-sm rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-800 dark:text-white focus:border-indigo-500 focus:outline-none transition-colors';
+const secondaryButtonClassName = 'flex-1 flex items-center justify-center gap-1.5 px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border-2 border-gray-200 dark:border-gray-600 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-600/50 transition-all duration-200 btn-pop';
+
+/**
+ * Cached translations were made without the changed glossary, so drop them
+ */
+const invalidateCache = () => {
+  clearTranslationCache().catch((error) => {
+    console.error('[Glossary] Failed to clear translation cache:', error);
+  });
+};
+
+export const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ isOpen, onClose }) => {
+  const [sourceLang, setSourceLang] = useState<LanguageCode>('zh');
+  const [targetLang, setTargetLang] = useState<LanguageCode>('ja');
+  const [entries, setEntries] = useState<GlossaryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [sourceTerm, setSourceTerm] = useState('');
+  const [targetTerm, setTargetTerm] = useState('');
+  const [note, setNote] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Reload entries when the panel opens or the language pair changes
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    listGlossary(sourceLang, targetLang)
+      .then((loaded) => {
+        if (!cancelled) setEntries(loaded);
+      })
+      .catch((error) => {
+        console.error('[Glossary] Failed to load glossary:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, sourceLang, targetLang]);
+
+  const handleAdd = async () => {
+    try {
+      const entry = await addGlossaryEntry({ sourceLang, targetLang, sourceTerm, targetTerm, note });
+      setEntries(prev => [...prev.filter(item => item.id !== entry.id), entry]
+        .sort((a, b) => a.sourceTerm.localeCompare(b.sourceTerm)));
+      setSourceTerm('');
+      setTargetTerm('');
+      setNote('');
+      invalidateCache();
+    } catch (error) {
+      console.error('[Glossary] Failed to add entry:', error);
+      toast({
+        title: 'Add Failed',
+        description: error instanceof Error ? error.message : 'Failed to add term. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteGlossaryEntry(id);
+      setEntries(prev => prev.filter(entry => entry.id !== id));
+      invalidateCache();
+    } catch (error) {
+      console.error('[Glossary] Failed to delete entry:', error);
+      toast({
+        title: 'Delete Failed',
+        description: 'Failed to delete term. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { imported, skipped } = await importGlossary(await file.text());
+      setEntries(await listGlossary(sourceLang, targetLang));
+      if (imported > 0) {
+        invalidateCache();
+      }
+      toast({
+        title: 'Glossary Imported',
+        description: `Imported ${imported} ${imported === 1 ? 'term' : 'terms'}${skipped > 0 ? `, skipped ${skipped} invalid ${skipped === 1 ? 'row' : 'rows'}` : ''}.`,
+      });
+    } catch (error) {
+      console.error('[Glossary] Failed to import glossary:', error);
+      toast({
+        title: 'Import Failed',
+        description: 'Failed to read the glossary file. Please check that it is a valid CSV or TSV file.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleExport = async (format: GlossaryFormat) => {
+    try {
+      await exportGlossaryToFile(format);
+    } catch (error) {
+      console.error('[Glossary] Failed to export glossary:', error);
+      toast({
+        title: 'Export Failed',
+        description: 'Failed to export the glossary. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200"
+      onClick={onClose}
+    >
+      <div
+        className="relative w-full max-w-md bg-white dark:bg-gray-800 rounded-3xl shadow-2xl animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-500 rounded-xl cute-shadow">
+              <BookA className="w-5 h-5 text-white" />
+            </div>
+            <h2 className="text-base sm:text-xl font-bold text-gray-800 dark:text-white">
+              Glossary
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded-lg transition-all duration-200 btn-pop"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Language pair and new term */}
+        <div className="px-6 pt-4 space-y-2">
+          <div className="flex items-center gap-2">
+            <Select value={sourceLang} onValueChange={(value: LanguageCode) => setSourceLang(value)}>
+              <SelectTrigger className="h-9 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SUPPORTED_LANGUAGES).map(([code, name]) => (
+                  <SelectItem key={code} value={code}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ArrowRight className="w-4 h-4 flex-shrink-0 text-gray-400" />
+            <Select value={targetLang} onValueChange={(value: LanguageCode) => setTargetLang(value)}>
+              <SelectTrigger className="h-9 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SUPPORTED_LANGUAGES).map(([code, name]) => (
+                  <SelectItem key={code} value={code}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={sourceTerm}
+              onChange={(e) => setSourceTerm(e.target.value)}
+              placeholder={`${SUPPORTED_LANGUAGES[sourceLang]} term`}
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              value={targetTerm}
+              onChange={(e) => setTargetTerm(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && sourceTerm.trim() && targetTerm.trim()) handleAdd();
+              }}
+              placeholder={`${SUPPORTED_LANGUAGES[targetLang]} term`}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note (optional)"
+              className={inputClassName}
+            />
+            <button
+              onClick={handleAdd}
+              disabled={!sourceTerm.trim() || !targetTerm.trim() || sourceLang === targetLang}
+              className="px-3 py-2 bg-gray-100 dark:bg-gray-700 rounded-xl text-gray-600 dark:text-gray-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors btn-pop disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Add term"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 max-h-[45vh] overflow-y-auto custom-scrollbar">
+          {isLoading && entries.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin h-6 w-6 border-2 border-indigo-500 border-t-transparent rounded-full"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-400 dark:text-gray-500 text-center py-8">
+              Add terms that should always be translated the same way
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {entries.map((entry) => (
+                <li
+                  key={entry.id}
+                  className="flex items-start justify-between gap-2 p-3 rounded-xl border-2 border-gray-200 dark:border-gray-700"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-800 dark:text-white break-words">
+                      {entry.sourceTerm} <span className="text-gray-400">→</span> <span className="font-medium">{entry.targetTerm}</span>
+                    </p>
+                    {entry.note && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5 break-words">{entry.note}</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleDelete(entry.id)}
+                    className="p-1.5 text-gray-400 hover:text-red-500 rounded-lg transition-colors btn-pop"
+                    title="Delete"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Import / Export */}
+        <div className="flex gap-2 p-6 pt-0">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <button onClick={() => fileInputRef.current?.click()} className={secondaryButtonClassName}>
+            <Upload className="w-4 h-4" />
+            Import
+          </button>
+          <button onClick={() => handleExport('csv')} className={secondaryButtonClassName}>
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+          <button onClick={() => handleExport('tsv')} className={secondaryButtonClassName}>
+            <Download className="w-4 h-4" />
+            TSV
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
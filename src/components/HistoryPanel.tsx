@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from 'react';
+import { X, History, Search, Trash2, Languages, BookOpen, MessageCircle, Image as ImageIcon } from 'lucide-react';
+import { listHistory, deleteHistoryEntry, clearHistory, type HistoryEntry, type HistoryMode } from '../utils/history/history';
+import { SUPPORTED_LANGUAGES } from '../utils/translation/translation';
+import { ConfirmDialog } from './ConfirmDialog';
+import { toast } from './ui/use-toast';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (entry: HistoryEntry) => void;
+}
+
+const MODE_LABELS: Record<HistoryMode, string> = {
+  translation: 'Translation',
+  explanation: 'Explanation',
+  qa: 'Q&A',
+  'image-ocr': 'Image (OCR)',
+  'image-vlm': 'Image (VLM)',
+};
+
+const MODE_ICONS: Record<HistoryMode, React.ComponentType<{ className?: string }>> = {
+  translation: Languages,
+  explanation: BookOpen,
+  qa: MessageCircle,
+  'image-ocr': ImageIcon,
+  'image-vlm': ImageIcon,
+};
+
+/**
+ * Format a timestamp relative to now (e.g. "5 min ago"), falling back to a date
+ */
+const formatTimestamp = (timestamp: number): string => {
+  const elapsed = Date.now() - timestamp;
+  const minutes = Math.floor(elapsed / 60000);
+
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+
+  return new Date(timestamp).toLocaleDateString();
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, onSelect }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [showClearConfirm, setShowClearConfirm] = useState(false);
+
+  // Reload entries when the panel opens or the search query changes
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    listHistory(query)
+      .then((loaded) => {
+        if (!cancelled) setEntries(loaded);
+      })
+      .catch((error) => {
+        console.error('[History] Failed to load history:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, query]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+      setEntries(prev => prev.filter(entry => entry.id !== id));
+    } catch (error) {
+      console.error('[History] Failed to delete entry:', error);
+      toast({
+        title: 'Delete Failed',
+        description: 'Failed to delete history entry. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearHistory();
+      setEntries([]);
+    } catch (error) {
+      console.error('[History] Failed to clear history:', error);
+      toast({
+        title: 'Clear Failed',
+        description: 'Failed to clear history. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200"
+        onClick={onClose}
+      >
+        <div
+          className="relative w-full max-w-md bg-white dark:bg-gray-800 rounded-3xl shadow-2xl animate-in zoom-in-95 duration-200"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-indigo-500 rounded-xl cute-shadow">
+                <History className="w-5 h-5 text-white" />
+              </div>
+              <h2 className="text-base sm:text-xl font-bold text-gray-800 dark:text-white">
+                History
+              </h2>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setShowClearConfirm(true)}
+                disabled={entries.length === 0}
+                className="p-2 text-gray-400 hover:text-red-500 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded-lg transition-all duration-200 btn-pop disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Clear History"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+              <button
+                onClick={onClose}
+                className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded-lg transition-all duration-200 btn-pop"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+
+          {/* Search */}
+          <div className="px-6 pt-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search history..."
+                className="w-full pl-9 pr-3 py-2 text-sm rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-800 dark:text-white focus:border-indigo-500 focus:outline-none transition-colors"
+              />
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 max-h-[60vh] overflow-y-auto custom-scrollbar">
+            {isLoading && entries.length === 0 ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin h-6 w-6 border-2 border-indigo-500 border-t-transparent rounded-full"></div>
+              </div>
+            ) : entries.length === 0 ? (
+              <p className="text-sm text-gray-400 dark:text-gray-500 text-center py-8">
+                {query ? 'No matching entries' : 'Your translations will appear here'}
+              </p>
+            ) : (
+              <ul className="space-y-3">
+                {entries.map((entry) => {
+                  const ModeIcon = MODE_ICONS[entry.mode];
+                  return (
+                    <li key={entry.id}>
+                      <div
+                        role="button"
+                        tabIndex={0}
+                        onClick={() => onSelect(entry)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') onSelect(entry);
+                        }}
+                        className="flex gap-3 p-3 rounded-xl border-2 border-gray-200 dark:border-gray-700 hover:border-indigo-200 dark:hover:border-indigo-800 hover:bg-gray-50 dark:hover:bg-gray-700/50 cursor-pointer transition-all duration-200"
+                      >
+                        {entry.thumbnail && (
+                          <img
+                            src={entry.thumbnail}
+                            alt=""
+                            className="w-14 h-14 object-cover rounded-lg flex-shrink-0"
+                          />
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+                            <span className="flex items-center gap-1 font-medium text-indigo-600 dark:text-indigo-400">
+                              <ModeIcon className="w-3 h-3" />
+                              {MODE_LABELS[entry.mode]}
+                            </span>
+                            <span>{formatTimestamp(entry.createdAt)}</span>
+                          </div>
+                          <div className="text-xs text-gray-400 dark:text-gray-500 mt-0.5">
+                            {SUPPORTED_LANGUAGES[entry.sourceLang]} → {SUPPORTED_LANGUAGES[entry.targetLang]}
+                          </div>
+                          {entry.sourceText && (
+                            <p className="text-sm text-gray-600 dark:text-gray-300 mt-1 line-clamp-2 break-words">
+                              {entry.sourceText}
+                            </p>
+                          )}
+                          <p className="text-sm font-medium text-gray-800 dark:text-white mt-1 line-clamp-2 break-words">
+                            {entry.resultText}
+                          </p>
+                        </div>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDelete(entry.id);
+                          }}
+                          className="self-start p-1.5 text-gray-400 hover:text-red-500 rounded-lg transition-colors btn-pop"
+                          title="Delete"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Clear Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={showClearConfirm}
+        onClose={() => setShowClearConfirm(false)}
+        onConfirm={handleClear}
+        title="Clear History"
+        description="This will permanently delete all saved translations from this device. Do you want to continue?"
+        confirmText="Clear"
+        cancelText="Cancel"
+        variant="warning"
+      />
+    </>
+  );
+};
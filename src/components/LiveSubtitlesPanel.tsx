@@ -0,0 +1,337 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Mic, Captions, Minus, Plus, Download, Trash2, Loader2, ArrowRight } from 'lucide-react';
+import { SUPPORTED_LANGUAGES, type LanguageCode } from '../utils/translation/translation';
+import { translateTextCached } from '../utils/translation/cache';
+import { RealtimeTranscriptionService } from '../utils/audio/realtimeTranscription';
+import type { VoiceSegment } from '../utils/audio/vad';
+import { downloadSubtitles, type SubtitleLine, type SubtitleFormat, type SubtitleContent } from '../utils/subtitles/subtitles';
+import { createId } from '../utils/storage/db';
+import { AISettings, type SettingsTab } from '../utils/config/settings';
+import { toast } from './ui/use-toast';
+import { useErrorToast } from '../hooks/useErrorToast';
+import { useBudgetWarning } from '../hooks/useBudgetWarning';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+interface LiveSubtitlesPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenSettings: (initialTab?: SettingsTab) => void;
+  settings: AISettings;
+  initialSourceLang: LanguageCode;
+  initialTargetLang: LanguageCode;
+}
+
+// Subtitle line state while its translation is in flight
+interface LiveSubtitleLine extends SubtitleLine {
+  status: 'translating' | 'done' | 'error';
+}
+
+// Lines kept on screen; the full session is still exported
+const VISIBLE_LINES = 5;
+
+const FONT_SIZES = ['text-lg', 'text-xl', 'text-2xl', 'text-3xl', 'text-4xl', 'text-5xl'];
+const DEFAULT_FONT_SIZE = 2;
+
+const languageOptions = Object.entries(SUPPORTED_LANGUAGES).map(([code, name]) => ({
+  value: code,
+  label: name
+}));
+
+/**
+ * Full-screen live subtitles: each spoken segment is transcribed, translated and appended as a line
+ */
+export const LiveSubtitlesPanel: React.FC<LiveSubtitlesPanelProps> = ({
+  isOpen,
+  onClose,
+  onOpenSettings,
+  settings,
+  initialSourceLang,
+  initialTargetLang,
+}) => {
+  const [sourceLang, setSourceLang] = useState<LanguageCode>(initialSourceLang);
+  const [targetLang, setTargetLang] = useState<LanguageCode>(initialTargetLang);
+  const [lines, setLines] = useState<LiveSubtitleLine[]>([]);
+  const [isListening, setIsListening] = useState(false);
+  const [fontSize, setFontSize] = useState(DEFAULT_FONT_SIZE);
+  const [exportContent, setExportContent] = useState<SubtitleContent>('translation');
+  const showErrorToast = useErrorToast(settings, onOpenSettings);
+  const warnIfOverBudget = useBudgetWarning(settings, onOpenSettings);
+
+  const transcriptionRef = useRef<RealtimeTranscriptionService | null>(null);
+  // Timestamps are relative to when the session first started listening
+  const sessionStartRef = useRef<number | null>(null);
+
+  // Live subtitles need segment-based transcription, which Web Speech API does not provide
+  const isProviderSupported = settings.speechRecognition.provider !== 'web-speech';
+
+  useEffect(() => {
+    return () => {
+      transcriptionRef.current?.stop();
+    };
+  }, []);
+
+  const addLine = async (text: string, segment: VoiceSegment, from: LanguageCode, to: LanguageCode) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+
+    const sessionStart = sessionStartRef.current ?? segment.startTime;
+    const id = createId();
+    setLines(prev => [...prev, {
+      id,
+      start: segment.startTime - sessionStart,
+      end: segment.endTime - sessionStart,
+      text: trimmed,
+      translation: '',
+      status: 'translating',
+    }]);
+
+    try {
+      const translation = await translateTextCached(trimmed, from, to, settings);
+      setLines(prev => prev.map(line => line.id === id ? { ...line, translation, status: 'done' } : line));
+    } catch (error) {
+      console.error('[Subtitles] Translation error:', error);
+      setLines(prev => prev.map(line => line.id === id ? { ...line, status: 'error' } : line));
+    }
+  };
+
+  const stopListening = () => {
+    if (transcriptionRef.current) {
+      transcriptionRef.current.stop();
+      transcriptionRef.current = null;
+    }
+    setIsListening(false);
+  };
+
+  const startListening = async () => {
+    if (sourceLang === targetLang) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Language Selection",
+        description: "Source and target languages cannot be the same. Please select different languages.",
+      });
+      return;
+    }
+
+    warnIfOverBudget();
+
+    const from = sourceLang;
+    const to = targetLang;
+
+    const service = new RealtimeTranscriptionService(settings, {
+      onTranscript: (text: string, isFinal: boolean, segment?: VoiceSegment) => {
+        if (isFinal && segment) {
+          addLine(text, segment, from, to);
+        }
+      },
+      onError: (error: Error) => {
+        console.error('[Subtitles] Transcription error:', error);
+        showErrorToast(error, 'speech');
+      },
+    });
+    transcriptionRef.current = service;
+    setIsListening(true);
+
+    // Resuming after a stop keeps the original session start, so exported timings stay continuous
+    const isNewSession = sessionStartRef.current === null;
+    if (isNewSession) {
+      sessionStartRef.current = Date.now();
+    }
+
+    try {
+      await service.start();
+    } catch (err) {
+      if (isNewSession) {
+        sessionStartRef.current = null;
+      }
+      if (err instanceof Error &&
+          (err.name === 'NotAllowedError' ||
+           err.name === 'PermissionDeniedError' ||
+           err.message.includes('Permission denied') ||
+           err.message.includes('permission'))) {
+        toast({
+          variant: "destructive",
+          title: "Microphone Permission Denied",
+          description: "Please allow microphone access in your browser settings to use voice input.",
+        });
+      }
+      transcriptionRef.current = null;
+      setIsListening(false);
+    }
+  };
+
+  const handleClear = () => {
+    stopListening();
+    setLines([]);
+    sessionStartRef.current = null;
+  };
+
+  const handleExport = (format: SubtitleFormat) => {
+    const exportable = lines.filter(line => line.status !== 'translating');
+    downloadSubtitles(exportable, format, exportContent);
+  };
+
+  const handleClose = () => {
+    stopListening();
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const visibleLines = lines.slice(-VISIBLE_LINES);
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-gray-950 text-white">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 px-4 py-3 bg-gradient-to-r from-indigo-500 to-purple-500">
+        <div className="flex items-center gap-2 mr-auto">
+          <Captions className="w-5 h-5" />
+          <span className="text-sm font-bold">Live Subtitles</span>
+        </div>
+        <button
+          onClick={() => setFontSize(Math.max(0, fontSize - 1))}
+          disabled={fontSize === 0}
+          className="p-2 text-white/80 hover:text-white hover:bg-indigo-600 rounded-lg transition-all duration-200 btn-pop disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Smaller text"
+        >
+          <Minus className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => setFontSize(Math.min(FONT_SIZES.length - 1, fontSize + 1))}
+          disabled={fontSize === FONT_SIZES.length - 1}
+          className="p-2 text-white/80 hover:text-white hover:bg-indigo-600 rounded-lg transition-all duration-200 btn-pop disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Larger text"
+        >
+          <Plus className="w-5 h-5" />
+        </button>
+        <button
+          onClick={handleClear}
+          disabled={lines.length === 0}
+          className="p-2 text-white/80 hover:text-white hover:bg-indigo-600 rounded-lg transition-all duration-200 btn-pop disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Clear session"
+        >
+          <Trash2 className="w-5 h-5" />
+        </button>
+        <button
+          onClick={handleClose}
+          className="p-2 text-white/80 hover:text-white hover:bg-indigo-600 rounded-lg transition-all duration-200 btn-pop"
+          title="Close"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Languages */}
+      <div className="flex items-center gap-2 px-4 py-2 bg-gray-900">
+        <Select value={sourceLang} onValueChange={(value) => setSourceLang(value as LanguageCode)} disabled={isListening}>
+          <SelectTrigger className="flex-1 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {languageOptions.map(option => (
+              <SelectItem key={`source-${option.value}`} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ArrowRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+        <Select value={targetLang} onValueChange={(value) => setTargetLang(value as LanguageCode)} disabled={isListening}>
+          <SelectTrigger className="flex-1 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {languageOptions.map(option => (
+              <SelectItem key={`target-${option.value}`} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Subtitles */}
+      <div className="flex-1 min-h-0 flex flex-col justify-end gap-4 px-6 py-6 overflow-hidden">
+        {!isProviderSupported ? (
+          <div className="m-auto max-w-sm text-center space-y-3">
+            <p className="text-gray-300">
+              Live subtitles need the AI Service or Local Whisper speech recognition provider.
+            </p>
+            <button
+              onClick={() => {
+                handleClose();
+                onOpenSettings('speech');
+              }}
+              className="px-4 py-2.5 bg-gradient-to-r from-indigo-500 to-purple-500 text-white font-semibold rounded-xl btn-pop"
+            >
+              Open Speech Settings
+            </button>
+          </div>
+        ) : visibleLines.length === 0 ? (
+          <p className="m-auto text-gray-500 text-center">
+            {isListening ? 'Listening...' : 'Press start and subtitles will appear here'}
+          </p>
+        ) : (
+          visibleLines.map((line, index) => (
+            <div
+              key={line.id}
+              className={`transition-opacity duration-300 ${index < visibleLines.length - 1 ? 'opacity-60' : ''}`}
+            >
+              {line.status === 'translating' ? (
+                <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+              ) : (
+                <p className={`${FONT_SIZES[fontSize]} font-bold leading-snug`}>
+                  {line.status === 'error' ? line.text : line.translation}
+                </p>
+              )}
+              <p className="mt-1 text-sm text-gray-400">{line.text}</p>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Controls */}
+      <div className="flex items-center gap-2 px-4 py-3 bg-gray-900">
+        <Select value={exportContent} onValueChange={(value) => setExportContent(value as SubtitleContent)}>
+          <SelectTrigger className="w-36 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="translation">Translation</SelectItem>
+            <SelectItem value="original">Original</SelectItem>
+            <SelectItem value="both">Both</SelectItem>
+          </SelectContent>
+        </Select>
+        <button
+          onClick={() => handleExport('srt')}
+          disabled={lines.length === 0}
+          className="flex items-center gap-1 px-3 py-2 text-sm font-semibold text-gray-200 bg-gray-800 rounded-xl hover:bg-gray-700 transition-all duration-200 btn-pop disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Export as SRT"
+        >
+          <Download className="w-4 h-4" />
+          SRT
+        </button>
+        <button
+          onClick={() => handleExport('vtt')}
+          disabled={lines.length === 0}
+          className="flex items-center gap-1 px-3 py-2 text-sm font-semibold text-gray-200 bg-gray-800 rounded-xl hover:bg-gray-700 transition-all duration-200 btn-pop disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Export as WebVTT"
+        >
+          <Download className="w-4 h-4" />
+          VTT
+        </button>
+        <button
+          onClick={isListening ? stopListening : startListening}
+          disabled={!isProviderSupported}
+          className={`ml-auto flex items-center gap-2 px-5 py-2.5 text-white font-semibold rounded-xl shadow-md btn-pop disabled:opacity-50 disabled:cursor-not-allowed ${
+            isListening ? 'bg-red-500' : 'bg-gradient-to-r from-indigo-500 to-purple-500'
+          }`}
+        >
+          {isListening ? <div className="w-3 h-3 bg-white rounded-sm"></div> : <Mic className="w-4 h-4" />}
+          {isListening ? 'Stop' : 'Start'}
+        </button>
+      </div>
+    </div>
+  );
+};
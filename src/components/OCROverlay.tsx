@@ -0,0 +1,420 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Copy, Check, Volume2, Languages, BookOpen, Maximize2, ZoomOut, X } from 'lucide-react';
+import { canWriteVertically, type TextBlock } from '../utils/image/textLayout';
+import type { RegionColors } from '../utils/image/overlay/renderer';
+import { THINKING_START_MARKER, THINKING_END_MARKER, type LanguageCode } from '../utils/translation/translation';
+import { explainWord } from '../utils/translation/explanation';
+import { speakText } from '../utils/audio/speech';
+import { resolveTextFeatureProvider, isProviderConfigured } from '../utils/config/profiles';
+import type { AISettings, SettingsTab } from '../utils/config/settings';
+import { useErrorToast } from '../hooks/useErrorToast';
+import { useToast } from './ui/use-toast';
+
+interface OCROverlayProps {
+  image: string;
+  blocks: TextBlock[];
+  translations: string[];
+  colors?: (RegionColors | null)[]; // Background and text color of each block, to blend translations into the image
+  sourceLang: LanguageCode;
+  targetLang: LanguageCode;
+  settings: AISettings;
+  onOpenSettings: (initialTab?: SettingsTab) => void;
+  onOpenImage?: () => void;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 5;
+// Pointer movement (in px) after which a touch counts as a pan instead of a tap
+const TAP_SLOP = 8;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Interactive OCR result: each block of text is a layer over the image that can be tapped to copy, hear or
+ * explain it, and switched between the original and the translation; pinch (or double-tap) to zoom
+ */
+export const OCROverlay: React.FC<OCROverlayProps> = ({
+  image,
+  blocks,
+  translations,
+  colors,
+  sourceLang,
+  targetLang,
+  settings,
+  onOpenSettings,
+  onOpenImage,
+}) => {
+  const { toast } = useToast();
+  const showErrorToast = useErrorToast(settings, onOpenSettings);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [displayWidth, setDisplayWidth] = useState(0);
+  const [showOriginal, setShowOriginal] = useState(false);
+  // Regions switched away from the global original/translation choice
+  const [flippedRegions, setFlippedRegions] = useState<Set<number>>(new Set());
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [explanation, setExplanation] = useState<{ index: number; html: string; isLoading: boolean } | null>(null);
+  const [zoom, setZoom] = useState({ scale: 1, x: 0, y: 0 });
+  const containerRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const explanationAbortControllerRef = useRef<AbortController | null>(null);
+  // Active pointers and the gesture they started, for pinch-zoom and panning
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const gestureRef = useRef<{ distance: number; scale: number; midX: number; midY: number; x: number; y: number } | null>(null);
+  const movedRef = useRef(false);
+  const lastTapRef = useRef(0);
+
+  // Start over when a new image is translated
+  useEffect(() => {
+    setShowOriginal(false);
+    setFlippedRegions(new Set());
+    setSelectedIndex(null);
+    setExplanation(null);
+    setZoom({ scale: 1, x: 0, y: 0 });
+    explanationAbortControllerRef.current?.abort();
+  }, [image, blocks]);
+
+  // Font sizes follow the displayed size of the image
+  useEffect(() => {
+    const img = imageRef.current;
+    if (!img) return;
+    const observer = new ResizeObserver(() => setDisplayWidth(img.clientWidth));
+    observer.observe(img);
+    return () => observer.disconnect();
+  }, []);
+
+  // Cancel a running explanation on unmount
+  useEffect(() => () => explanationAbortControllerRef.current?.abort(), []);
+
+  const isShowingOriginal = (index: number) => showOriginal !== flippedRegions.has(index);
+  const getRegionText = (index: number) => isShowingOriginal(index) ? blocks[index].text : translations[index] ?? '';
+  const getRegionLang = (index: number) => isShowingOriginal(index) ? sourceLang : targetLang;
+
+  const toggleRegion = (index: number) => {
+    setFlippedRegions(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setShowOriginal(prev => !prev);
+    setFlippedRegions(new Set());
+  };
+
+  const handleCopy = (index: number) => {
+    navigator.clipboard.writeText(getRegionText(index)).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  // Explain the original text of a block in the target language
+  const handleExplain = async (index: number) => {
+    if (!isProviderConfigured(resolveTextFeatureProvider(settings, 'explanation'))) {
+      toast({
+        variant: "destructive",
+        title: "General AI Service Required",
+        description: "Please configure the General AI service in Settings to use the Explanation feature.",
+        action: (
+          <button
+            onClick={() => onOpenSettings('general')}
+            className="px-3 py-1.5 bg-white text-indigo-600 text-xs rounded-lg hover:bg-indigo-50"
+          >
+            Open Settings
+          </button>
+        ),
+      });
+      return;
+    }
+
+    explanationAbortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    explanationAbortControllerRef.current = abortController;
+    setExplanation({ index, html: '', isLoading: true });
+
+    try {
+      const { marked } = await import('marked');
+      let streamedText = '';
+      for await (const chunk of explainWord(blocks[index].text, sourceLang, targetLang, settings, abortController.signal)) {
+        if (abortController.signal.aborted) {
+          break;
+        }
+        if (chunk === THINKING_START_MARKER || chunk === THINKING_END_MARKER) {
+          continue;
+        }
+        streamedText += chunk;
+        setExplanation({ index, html: marked.parse(streamedText) as string, isLoading: true });
+      }
+      if (!abortController.signal.aborted) {
+        setExplanation({ index, html: marked.parse(streamedText) as string, isLoading: false });
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        console.log('[OCR Overlay] Explanation was cancelled');
+        return;
+      }
+      console.error('[OCR Overlay] Explanation error:', error);
+      showErrorToast(error, 'explanation');
+      setExplanation(null);
+    } finally {
+      if (explanationAbortControllerRef.current === abortController) {
+        explanationAbortControllerRef.current = null;
+      }
+    }
+  };
+
+  const selectRegion = (index: number) => {
+    if (movedRef.current) return;
+    setSelectedIndex(prev => prev === index ? null : index);
+    if (explanation && explanation.index !== index) {
+      explanationAbortControllerRef.current?.abort();
+      setExplanation(null);
+    }
+  };
+
+  // Keep the zoomed image covering the viewport
+  const clampPan = (scale: number, x: number, y: number) => {
+    const container = containerRef.current;
+    if (!container) return { scale, x, y };
+    const maxX = (container.clientWidth * (scale - 1)) / 2;
+    const maxY = (container.clientHeight * (scale - 1)) / 2;
+    return { scale, x: clamp(x, -maxX, maxX), y: clamp(y, -maxY, maxY) };
+  };
+
+  const startGesture = () => {
+    const points = Array.from(pointersRef.current.values());
+    const [a, b] = points;
+    gestureRef.current = {
+      distance: b ? Math.hypot(b.x - a.x, b.y - a.y) : 0,
+      scale: zoom.scale,
+      midX: b ? (a.x + b.x) / 2 : a.x,
+      midY: b ? (a.y + b.y) / 2 : a.y,
+      x: zoom.x,
+      y: zoom.y,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+    pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    if (pointersRef.current.size === 1) {
+      movedRef.current = false;
+    }
+    startGesture();
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!pointersRef.current.has(event.pointerId)) return;
+    pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    const gesture = gestureRef.current;
+    if (!gesture) return;
+
+    const [a, b] = Array.from(pointersRef.current.values());
+    const midX = b ? (a.x + b.x) / 2 : a.x;
+    const midY = b ? (a.y + b.y) / 2 : a.y;
+    if (Math.hypot(midX - gesture.midX, midY - gesture.midY) > TAP_SLOP || b) {
+      movedRef.current = true;
+    }
+
+    if (b && gesture.distance > 0) {
+      const scale = clamp(gesture.scale * (Math.hypot(b.x - a.x, b.y - a.y) / gesture.distance), MIN_ZOOM, MAX_ZOOM);
+      setZoom(clampPan(scale, gesture.x + midX - gesture.midX, gesture.y + midY - gesture.midY));
+    } else if (gesture.scale > 1) {
+      setZoom(clampPan(gesture.scale, gesture.x + midX - gesture.midX, gesture.y + midY - gesture.midY));
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (!pointersRef.current.delete(event.pointerId)) return;
+    if (pointersRef.current.size > 0) {
+      startGesture();
+      return;
+    }
+    gestureRef.current = null;
+
+    // Double-tap zooms in, or back out when already zoomed
+    if (!movedRef.current && event.type === 'pointerup') {
+      const now = Date.now();
+      if (now - lastTapRef.current < 300) {
+        setZoom(zoom.scale > 1 ? { scale: 1, x: 0, y: 0 } : { scale: 2, x: 0, y: 0 });
+        lastTapRef.current = 0;
+      } else {
+        lastTapRef.current = now;
+      }
+    }
+  };
+
+  const selectedText = selectedIndex !== null ? getRegionText(selectedIndex) : '';
+  const displayScale = naturalSize && displayWidth ? displayWidth / naturalSize.width : 0;
+
+  return (
+    <div className="w-full">
+      {/* Toolbar */}
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <button
+          onClick={toggleAll}
+          className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-lg bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors btn-pop"
+          title={showOriginal ? 'Show all translations' : 'Show all original text'}
+        >
+          <Languages className="h-3.5 w-3.5" />
+          {showOriginal ? 'Original' : 'Translation'}
+        </button>
+        <div className="flex items-center gap-1">
+          {zoom.scale > 1 && (
+            <button
+              onClick={() => setZoom({ scale: 1, x: 0, y: 0 })}
+              className="p-1.5 rounded-lg bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors btn-pop"
+              title="Reset zoom"
+            >
+              <ZoomOut className="h-3.5 w-3.5" />
+            </button>
+          )}
+          {onOpenImage && (
+            <button
+              onClick={onOpenImage}
+              className="p-1.5 rounded-lg bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors btn-pop"
+              title="Open translated image"
+            >
+              <Maximize2 className="h-3.5 w-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Image with text layers */}
+      <div
+        ref={containerRef}
+        className="relative overflow-hidden rounded select-none"
+        style={{ touchAction: zoom.scale > 1 ? 'none' : 'pan-y' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <div
+          className="relative"
+          style={{ transform: `translate(${zoom.x}px, ${zoom.y}px) scale(${zoom.scale})` }}
+        >
+          <img
+            ref={imageRef}
+            src={image}
+            alt="Translated"
+            draggable={false}
+            className="w-full block"
+            onLoad={(e) => {
+              setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight });
+              setDisplayWidth(e.currentTarget.clientWidth);
+            }}
+          />
+          {naturalSize && blocks.map(({ box, lineHeight, orientation }, index) => {
+            if (!box) return null;
+            const isOriginal = isShowingOriginal(index);
+            const isSelected = selectedIndex === index;
+            const regionColors = !isOriginal && !isSelected ? colors?.[index] : null;
+            // Columns show vertical text in languages written that way, and text turned a quarter otherwise
+            const isVertical = orientation === 'vertical' && canWriteVertically(getRegionLang(index));
+            const isTurned = orientation === 'vertical' && !isVertical;
+            const width = `${((isTurned ? box.height : box.width) / naturalSize.width) * 100}%`;
+            const height = `${((isTurned ? box.width : box.height) / naturalSize.height) * 100}%`;
+            return (
+              <div
+                key={index}
+                onClick={() => selectRegion(index)}
+                className={`absolute flex items-center justify-center text-center leading-tight cursor-pointer rounded-sm px-0.5 break-words transition-colors ${
+                  isSelected
+                    ? 'bg-indigo-50/95 text-indigo-900 ring-2 ring-indigo-500'
+                    : isOriginal
+                      ? 'bg-transparent text-transparent ring-1 ring-indigo-400/70 hover:bg-indigo-500/10'
+                      : 'bg-white/90 text-gray-900'
+                }`}
+                style={{
+                  left: `${(box.cx / naturalSize.width) * 100}%`,
+                  top: `${(box.cy / naturalSize.height) * 100}%`,
+                  ...(isVertical
+                    ? { minWidth: width, height, writingMode: 'vertical-rl' as const }
+                    : { width, minHeight: height }),
+                  transform: `translate(-50%, -50%) rotate(${box.angle + (isTurned ? 90 : 0)}deg)`,
+                  fontSize: `${clamp(lineHeight * 0.6 * displayScale, 8, 32)}px`,
+                  ...(regionColors && { backgroundColor: regionColors.background, color: regionColors.text }),
+                }}
+              >
+                {getRegionText(index)}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Actions for the selected block */}
+      {selectedIndex !== null && (
+        <div className="mt-2 p-3 rounded-xl bg-white dark:bg-gray-800">
+          <div className="flex items-start justify-between gap-2">
+            <p className="text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-words select-text">
+              {selectedText}
+            </p>
+            <button
+              onClick={() => setSelectedIndex(null)}
+              className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors flex-shrink-0"
+              title="Close"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+          <div className="mt-2 flex items-center gap-1">
+            <button
+              onClick={() => toggleRegion(selectedIndex)}
+              className="flex items-center gap-1 px-2 py-1 text-xs rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors btn-pop"
+              title={isShowingOriginal(selectedIndex) ? 'Show translation' : 'Show original'}
+            >
+              <Languages className="h-3.5 w-3.5" />
+              {isShowingOriginal(selectedIndex) ? 'Translation' : 'Original'}
+            </button>
+            <button
+              onClick={() => handleCopy(selectedIndex)}
+              className="p-1.5 bg-gray-100 dark:bg-gray-700 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors btn-pop"
+              title="Copy to clipboard"
+            >
+              {copied ? <Check className="h-3.5 w-3.5 text-green-500" /> : <Copy className="h-3.5 w-3.5" />}
+            </button>
+            <button
+              onClick={() => speakText(selectedText, getRegionLang(selectedIndex))}
+              className="p-1.5 bg-gray-100 dark:bg-gray-700 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors btn-pop"
+              title="Play audio"
+            >
+              <Volume2 className="h-3.5 w-3.5" />
+            </button>
+            <button
+              onClick={() => handleExplain(selectedIndex)}
+              disabled={explanation?.index === selectedIndex && explanation.isLoading}
+              className="flex items-center gap-1 px-2 py-1 text-xs rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors btn-pop disabled:opacity-50"
+              title="Explain the original text"
+            >
+              <BookOpen className="h-3.5 w-3.5" />
+              Explain
+            </button>
+          </div>
+          {explanation?.index === selectedIndex && (
+            explanation.html ? (
+              <div
+                className="mt-3 text-gray-800 dark:text-gray-200 leading-relaxed prose dark:prose-invert prose-sm max-w-none"
+                dangerouslySetInnerHTML={{ __html: explanation.html }}
+              />
+            ) : (
+              <div className="mt-3 flex space-x-1">
+                <div className="w-1.5 h-1.5 bg-indigo-500 dark:bg-indigo-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
+                <div className="w-1.5 h-1.5 bg-indigo-500 dark:bg-indigo-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
+                <div className="w-1.5 h-1.5 bg-indigo-500 dark:bg-indigo-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
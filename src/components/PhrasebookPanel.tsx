@@ -0,0 +1,388 @@
+import React, { useEffect, useState } from 'react';
+import { X, BookMarked, Volume2, Copy, Check, Trash2, FolderPlus, Pencil } from 'lucide-react';
+import {
+  listFolders,
+  listEntries,
+  createFolder,
+  renameFolder,
+  deleteFolder,
+  updateEntry,
+  deleteEntry,
+  UNFILED_FOLDER_ID,
+  type PhrasebookFolder,
+  type PhrasebookEntry,
+} from '../utils/phrasebook/phrasebook';
+import { SUPPORTED_LANGUAGES } from '../utils/translation/translation';
+import { speakText } from '../utils/audio/speech';
+import { ConfirmDialog } from './ConfirmDialog';
+import { toast } from './ui/use-toast';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+interface PhrasebookPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChange?: () => void; // Called after an entry is removed so callers can refresh their starred state
+}
+
+// Folder filter values; Radix Select does not accept empty item values, so unfiled gets its own value
+const ALL_FOLDERS = 'all';
+const UNFILED_VALUE = 'unfiled';
+
+const toFolderId = (value: string): string => (value === UNFILED_VALUE ? UNFILED_FOLDER_ID : value);
+const toFolderValue = (folderId: string): string => (folderId === UNFILED_FOLDER_ID ? UNFILED_VALUE : folderId);
+
+export const PhrasebookPanel: React.FC<PhrasebookPanelProps> = ({ isOpen, onClose, onChange }) => {
+  const [folders, setFolders] = useState<PhrasebookFolder[]>([]);
+  const [entries, setEntries] = useState<PhrasebookEntry[]>([]);
+  const [activeFolder, setActiveFolder] = useState(ALL_FOLDERS);
+  const [isLoading, setIsLoading] = useState(false);
+  const [newFolderName, setNewFolderName] = useState('');
+  const [editingNotesId, setEditingNotesId] = useState<string | null>(null);
+  const [notesDraft, setNotesDraft] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [showDeleteFolderConfirm, setShowDeleteFolderConfirm] = useState(false);
+
+  // Reload folders and entries when the panel opens or the folder filter changes
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    Promise.all([
+      listFolders(),
+      listEntries(activeFolder === ALL_FOLDERS ? undefined : toFolderId(activeFolder)),
+    ])
+      .then(([loadedFolders, loadedEntries]) => {
+        if (cancelled) return;
+        setFolders(loadedFolders);
+        setEntries(loadedEntries);
+      })
+      .catch((error) => {
+        console.error('[Phrasebook] Failed to load phrasebook:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, activeFolder]);
+
+  const activeFolderRecord = folders.find(folder => folder.id === activeFolder);
+
+  const handleCreateFolder = async () => {
+    try {
+      const folder = await createFolder(newFolderName);
+      setFolders(prev => [...prev, folder]);
+      setNewFolderName('');
+      setActiveFolder(folder.id);
+    } catch (error) {
+      console.error('[Phrasebook] Failed to create folder:', error);
+    }
+  };
+
+  const handleRenameFolder = async () => {
+    if (!activeFolderRecord) return;
+
+    const name = window.prompt('Folder name', activeFolderRecord.name);
+    if (!name || !name.trim()) return;
+
+    try {
+      await renameFolder(activeFolderRecord.id, name);
+      setFolders(prev => prev.map(folder => folder.id === activeFolderRecord.id ? { ...folder, name: name.trim() } : folder));
+    } catch (error) {
+      console.error('[Phrasebook] Failed to rename folder:', error);
+    }
+  };
+
+  const handleDeleteFolder = async () => {
+    if (!activeFolderRecord) return;
+
+    try {
+      await deleteFolder(activeFolderRecord.id);
+      setFolders(prev => prev.filter(folder => folder.id !== activeFolderRecord.id));
+      setActiveFolder(ALL_FOLDERS);
+    } catch (error) {
+      console.error('[Phrasebook] Failed to delete folder:', error);
+      toast({
+        title: 'Delete Failed',
+        description: 'Failed to delete folder. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleMoveEntry = async (entry: PhrasebookEntry, folderValue: string) => {
+    try {
+      const updated = await updateEntry(entry.id, { folderId: toFolderId(folderValue) });
+      if (!updated) return;
+
+      setEntries(prev => activeFolder === ALL_FOLDERS
+        ? prev.map(item => item.id === updated.id ? updated : item)
+        : prev.filter(item => item.id !== updated.id));
+    } catch (error) {
+      console.error('[Phrasebook] Failed to move entry:', error);
+    }
+  };
+
+  const handleSaveNotes = async (entry: PhrasebookEntry) => {
+    setEditingNotesId(null);
+    if (notesDraft.trim() === entry.notes) return;
+
+    try {
+      const updated = await updateEntry(entry.id, { notes: notesDraft.trim() });
+      if (updated) {
+        setEntries(prev => prev.map(item => item.id === updated.id ? updated : item));
+      }
+    } catch (error) {
+      console.error('[Phrasebook] Failed to save notes:', error);
+    }
+  };
+
+  const handleDeleteEntry = async (id: string) => {
+    try {
+      await deleteEntry(id);
+      setEntries(prev => prev.filter(entry => entry.id !== id));
+      onChange?.();
+    } catch (error) {
+      console.error('[Phrasebook] Failed to delete entry:', error);
+      toast({
+        title: 'Delete Failed',
+        description: 'Failed to delete phrase. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleCopy = (entry: PhrasebookEntry) => {
+    navigator.clipboard.writeText(entry.translatedText).then(() => {
+      setCopiedId(entry.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    });
+  };
+
+  if (!isOpen) return null;
+
+  const chipClassName = (active: boolean) =>
+    `px-3 py-1 text-xs font-medium rounded-full whitespace-nowrap transition-all duration-200 btn-pop ${
+      active
+        ? 'bg-indigo-500 text-white'
+        : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30'
+    }`;
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200"
+        onClick={onClose}
+      >
+        <div
+          className="relative w-full max-w-md bg-white dark:bg-gray-800 rounded-3xl shadow-2xl animate-in zoom-in-95 duration-200"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-indigo-500 rounded-xl cute-shadow">
+                <BookMarked className="w-5 h-5 text-white" />
+              </div>
+              <h2 className="text-base sm:text-xl font-bold text-gray-800 dark:text-white">
+                Phrasebook
+              </h2>
+            </div>
+            <div className="flex items-center gap-2">
+              {activeFolderRecord && (
+                <>
+                  <button
+                    onClick={handleRenameFolder}
+                    className="p-2 text-gray-400 hover:text-indigo-500 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded-lg transition-all duration-200 btn-pop"
+                    title="Rename Folder"
+                  >
+                    <Pencil className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => setShowDeleteFolderConfirm(true)}
+                    className="p-2 text-gray-400 hover:text-red-500 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded-lg transition-all duration-200 btn-pop"
+                    title="Delete Folder"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </>
+              )}
+              <button
+                onClick={onClose}
+                className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded-lg transition-all duration-200 btn-pop"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+
+          {/* Folders */}
+          <div className="px-6 pt-4 space-y-2">
+            <div className="flex gap-2 overflow-x-auto pb-1 custom-scrollbar">
+              <button onClick={() => setActiveFolder(ALL_FOLDERS)} className={chipClassName(activeFolder === ALL_FOLDERS)}>
+                All
+              </button>
+              <button onClick={() => setActiveFolder(UNFILED_VALUE)} className={chipClassName(activeFolder === UNFILED_VALUE)}>
+                Unfiled
+              </button>
+              {folders.map(folder => (
+                <button
+                  key={folder.id}
+                  onClick={() => setActiveFolder(folder.id)}
+                  className={chipClassName(activeFolder === folder.id)}
+                >
+                  {folder.name}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newFolderName}
+                onChange={(e) => setNewFolderName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && newFolderName.trim()) handleCreateFolder();
+                }}
+                placeholder="New folder, e.g. Hotel"
+                className="w-full px-3 py-2 text-sm rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-800 dark:text-white focus:border-indigo-500 focus:outline-none transition-colors"
+              />
+              <button
+                onClick={handleCreateFolder}
+                disabled={!newFolderName.trim()}
+                className="px-3 py-2 bg-gray-100 dark:bg-gray-700 rounded-xl text-gray-600 dark:text-gray-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors btn-pop disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Create folder"
+              >
+                <FolderPlus className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 max-h-[60vh] overflow-y-auto custom-scrollbar">
+            {isLoading && entries.length === 0 ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin h-6 w-6 border-2 border-indigo-500 border-t-transparent rounded-full"></div>
+              </div>
+            ) : entries.length === 0 ? (
+              <p className="text-sm text-gray-400 dark:text-gray-500 text-center py-8">
+                Star a translation to save it here
+              </p>
+            ) : (
+              <ul className="space-y-3">
+                {entries.map((entry) => (
+                  <li
+                    key={entry.id}
+                    className="p-3 rounded-xl border-2 border-gray-200 dark:border-gray-700"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs text-gray-400 dark:text-gray-500">
+                        {SUPPORTED_LANGUAGES[entry.sourceLang]} → {SUPPORTED_LANGUAGES[entry.targetLang]}
+                      </span>
+                      <div className="flex space-x-1">
+                        <button
+                          onClick={() => speakText(entry.translatedText, entry.targetLang)}
+                          className="p-1.5 bg-gray-100 dark:bg-gray-700 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors btn-pop"
+                          title="Play audio"
+                        >
+                          <Volume2 className="h-3.5 w-3.5" />
+                        </button>
+                        <button
+                          onClick={() => handleCopy(entry)}
+                          className="p-1.5 bg-gray-100 dark:bg-gray-700 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors btn-pop"
+                          title="Copy to clipboard"
+                        >
+                          {copiedId === entry.id ? <Check className="h-3.5 w-3.5 text-green-500" /> : <Copy className="h-3.5 w-3.5" />}
+                        </button>
+                        <button
+                          onClick={() => handleDeleteEntry(entry.id)}
+                          className="p-1.5 text-gray-400 hover:text-red-500 rounded-lg transition-colors btn-pop"
+                          title="Delete"
+                        >
+                          <X className="h-3.5 w-3.5" />
+                        </button>
+                      </div>
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-300 mt-1 break-words">
+                      {entry.sourceText}
+                    </p>
+                    {entry.furiganaHtml ? (
+                      <div
+                        className="text-base font-medium text-gray-800 dark:text-white mt-1 leading-relaxed whitespace-pre-wrap"
+                        dangerouslySetInnerHTML={{ __html: entry.furiganaHtml }}
+                      />
+                    ) : (
+                      <p className="text-base font-medium text-gray-800 dark:text-white mt-1 whitespace-pre-wrap break-words">
+                        {entry.translatedText}
+                      </p>
+                    )}
+
+                    {/* Notes */}
+                    {editingNotesId === entry.id ? (
+                      <textarea
+                        value={notesDraft}
+                        onChange={(e) => setNotesDraft(e.target.value)}
+                        onBlur={() => handleSaveNotes(entry)}
+                        autoFocus
+                        rows={2}
+                        className="mt-2 w-full px-3 py-2 text-sm rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-800 dark:text-white focus:border-indigo-500 focus:outline-none transition-colors resize-none"
+                      />
+                    ) : (
+                      <button
+                        onClick={() => {
+                          setEditingNotesId(entry.id);
+                          setNotesDraft(entry.notes);
+                        }}
+                        className="mt-2 w-full text-left text-xs text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
+                      >
+                        {entry.notes || 'Add notes...'}
+                      </button>
+                    )}
+
+                    {/* Folder */}
+                    <div className="mt-2">
+                      <Select value={toFolderValue(entry.folderId)} onValueChange={(value) => handleMoveEntry(entry, value)}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNFILED_VALUE}>Unfiled</SelectItem>
+                          {folders.map(folder => (
+                            <SelectItem key={folder.id} value={folder.id}>
+                              {folder.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Delete Folder Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={showDeleteFolderConfirm}
+        onClose={() => setShowDeleteFolderConfirm(false)}
+        onConfirm={handleDeleteFolder}
+        title="Delete Folder"
+        description={`Delete "${activeFolderRecord?.name ?? ''}"? Phrases in this folder will be moved to Unfiled.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        variant="warning"
+      />
+    </>
+  );
+};
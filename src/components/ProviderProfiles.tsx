@@ -0,0 +1,309 @@
+import React, { useState } from 'react';
+import { Plus, Pencil, Trash2, X, ChevronUp } from 'lucide-react';
+import { AISettings, ProviderProfile, ProfileFeature } from '../utils/config/settings';
+import { PROFILE_FEATURES } from '../utils/config/profiles';
+import { DEFAULT_TIMEOUT_SECONDS } from '../utils/ai/provider';
+import { createId } from '../utils/storage/db';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+interface ProviderProfilesProps {
+  settings: AISettings;
+  onChange: (settings: AISettings) => void;
+}
+
+// Radix Select does not accept empty item values
+const DEFAULT_PROVIDER_VALUE = 'default';
+const FOLLOW_ACTIVE_VALUE = 'follow';
+
+const inputClassName = 'w-full px-3 py-2 text-sm rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-800 dark:text-white focus:border-indigo-500 focus:outline-none transition-colors';
+
+/**
+ * Named provider profiles, the active profile and per-feature assignments
+ */
+export const ProviderProfiles: React.FC<ProviderProfilesProps> = ({ settings, onChange }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const profiles = settings.profiles || [];
+
+  const updateProfile = (id: string, changes: Partial<ProviderProfile>) => {
+    onChange({
+      ...settings,
+      profiles: profiles.map(profile => profile.id === id ? { ...profile, ...changes } : profile),
+    });
+  };
+
+  const handleAddProfile = () => {
+    const profile: ProviderProfile = {
+      id: createId(),
+      name: `Profile ${profiles.length + 1}`,
+      endpoint: '',
+      apiKey: '',
+      modelName: '',
+      headers: [],
+    };
+    onChange({ ...settings, profiles: [...profiles, profile] });
+    setEditingId(profile.id);
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    // Features pinned to this profile go back to following the active one
+    const featureProfiles = Object.fromEntries(
+      Object.entries(settings.featureProfiles || {}).filter(([, profileId]) => profileId !== id)
+    );
+
+    onChange({
+      ...settings,
+      profiles: profiles.filter(profile => profile.id !== id),
+      activeProfileId: settings.activeProfileId === id ? '' : settings.activeProfileId,
+      featureProfiles,
+    });
+    if (editingId === id) {
+      setEditingId(null);
+    }
+  };
+
+  const handleFeatureProfileChange = (feature: ProfileFeature, value: string) => {
+    const featureProfiles = { ...(settings.featureProfiles || {}) };
+    if (value === FOLLOW_ACTIVE_VALUE) {
+      delete featureProfiles[feature];
+    } else {
+      featureProfiles[feature] = value;
+    }
+    onChange({ ...settings, featureProfiles });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Provider Profiles</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+          Save several providers and switch between them from the main screen. The active profile replaces the General AI Service.
+        </p>
+      </div>
+
+      {/* Profile List */}
+      {profiles.length > 0 && (
+        <ul className="space-y-2">
+          {profiles.map(profile => {
+            const isEditing = editingId === profile.id;
+            const isActive = settings.activeProfileId === profile.id;
+
+            return (
+              <li key={profile.id} className="p-3 rounded-xl border-2 border-gray-200 dark:border-gray-700">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-bold text-gray-800 dark:text-white truncate">{profile.name || 'Untitled'}</span>
+                      {isActive && (
+                        <span className="px-1.5 py-0.5 text-[10px] font-semibold text-indigo-600 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/40 rounded">
+                          Active
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {profile.modelName || 'No model'} · {profile.endpoint || 'No endpoint'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => setEditingId(isEditing ? null : profile.id)}
+                      className="p-1.5 text-gray-400 hover:text-indigo-500 rounded-lg transition-colors btn-pop"
+                      title={isEditing ? 'Collapse' : 'Edit'}
+                    >
+                      {isEditing ? <ChevronUp className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteProfile(profile.id)}
+                      className="p-1.5 text-gray-400 hover:text-red-500 rounded-lg transition-colors btn-pop"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {isEditing && (
+                  <div className="mt-3 space-y-3">
+                    <div className="space-y-1.5">
+                      <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400">Name</label>
+                      <input
+                        type="text"
+                        value={profile.name}
+                        onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+                        placeholder="DashScope"
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div className="space-y-1.5">
+                      <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400">API Endpoint</label>
+                      <input
+                        type="text"
+                        value={profile.endpoint}
+                        onChange={(e) => updateProfile(profile.id, { endpoint: e.target.value })}
+                        placeholder="https://api.openai.com/v1"
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div className="space-y-1.5">
+                      <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400">Model Name</label>
+                      <input
+                        type="text"
+                        value={profile.modelName}
+                        onChange={(e) => updateProfile(profile.id, { modelName: e.target.value })}
+                        placeholder="gpt-5"
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div className="space-y-1.5">
+                      <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400">API Key</label>
+                      <input
+                        type="password"
+                        value={profile.apiKey}
+                        onChange={(e) => updateProfile(profile.id, { apiKey: e.target.value })}
+                        placeholder="sk-..."
+                        className={inputClassName}
+                      />
+                    </div>
+
+                    {/* Custom Headers */}
+                    <div className="space-y-1.5">
+                      <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400">Custom Headers (optional)</label>
+                      {(profile.headers || []).map((header, index) => (
+                        <div key={index} className="flex gap-2">
+                          <input
+                            type="text"
+                            value={header.name}
+                            onChange={(e) => updateProfile(profile.id, {
+                              headers: (profile.headers || []).map((item, i) => i === index ? { ...item, name: e.target.value } : item),
+                            })}
+                            placeholder="Header"
+                            className={inputClassName}
+                          />
+                          <input
+                            type="text"
+                            value={header.value}
+                            onChange={(e) => updateProfile(profile.id, {
+                              headers: (profile.headers || []).map((item, i) => i === index ? { ...item, value: e.target.value } : item),
+                            })}
+                            placeholder="Value"
+                            className={inputClassName}
+                          />
+                          <button
+                            onClick={() => updateProfile(profile.id, {
+                              headers: (profile.headers || []).filter((_, i) => i !== index),
+                            })}
+                            className="p-1.5 text-gray-400 hover:text-red-500 rounded-lg transition-colors btn-pop"
+                            title="Remove header"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        onClick={() => updateProfile(profile.id, {
+                          headers: [...(profile.headers || []), { name: '', value: '' }],
+                        })}
+                        className="text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:text-indigo-500"
+                      >
+                        + Add header
+                      </button>
+                    </div>
+
+                    <div className="space-y-1.5">
+                      <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400">Request Timeout (seconds)</label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={profile.timeoutSeconds ?? ''}
+                        onChange={(e) => updateProfile(profile.id, {
+                          timeoutSeconds: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)),
+                        })}
+                        placeholder={`${DEFAULT_TIMEOUT_SECONDS}`}
+                        className={inputClassName}
+                      />
+                      <p className="text-xs text-gray-500 dark:text-gray-400">0 disables the timeout</p>
+                    </div>
+                    <div className="space-y-1.5">
+                      <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400">CORS Proxy (optional)</label>
+                      <input
+                        type="text"
+                        value={profile.corsProxy || ''}
+                        onChange={(e) => updateProfile(profile.id, { corsProxy: e.target.value })}
+                        placeholder="https://cors-proxy.example.com"
+                        className={inputClassName}
+                      />
+                      <p className="text-xs text-gray-500 dark:text-gray-400">Requests are sent to the proxy URL followed by the full endpoint URL</p>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <button
+        onClick={handleAddProfile}
+        className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border-2 border-dashed border-gray-200 dark:border-gray-600 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-600/50 transition-all duration-200 btn-pop"
+      >
+        <Plus className="w-4 h-4" />
+        Add Profile
+      </button>
+
+      {profiles.length > 0 && (
+        <>
+          {/* Active Profile */}
+          <div className="space-y-1.5">
+            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300">
+              Active Profile
+            </label>
+            <Select
+              value={settings.activeProfileId || DEFAULT_PROVIDER_VALUE}
+              onValueChange={(value) => onChange({ ...settings, activeProfileId: value === DEFAULT_PROVIDER_VALUE ? '' : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_PROVIDER_VALUE}>General AI Service</SelectItem>
+                {profiles.map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>{profile.name || 'Untitled'}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Feature Assignments */}
+          <div className="space-y-2">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300">
+                Feature Assignments
+              </label>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                Pin a feature to a profile. Unpinned features keep using their own settings and the active profile.
+              </p>
+            </div>
+            {PROFILE_FEATURES.map(({ feature, label }) => (
+              <div key={feature} className="flex items-center justify-between gap-3">
+                <span className="text-sm text-gray-700 dark:text-gray-300 flex-shrink-0">{label}</span>
+                <Select
+                  value={settings.featureProfiles?.[feature] || FOLLOW_ACTIVE_VALUE}
+                  onValueChange={(value) => handleFeatureProfileChange(feature, value)}
+                >
+                  <SelectTrigger className="h-9 w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={FOLLOW_ACTIVE_VALUE}>Not pinned</SelectItem>
+                    {profiles.map(profile => (
+                      <SelectItem key={profile.id} value={profile.id}>{profile.name || 'Untitled'}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
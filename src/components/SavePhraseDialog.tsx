@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { X, Star, FolderPlus } from 'lucide-react';
+import { listFolders, createFolder, addEntry, UNFILED_FOLDER_ID, type PhrasebookFolder, type PhrasebookEntry, type NewPhrasebookEntry } from '../utils/phrasebook/phrasebook';
+import { SUPPORTED_LANGUAGES } from '../utils/translation/translation';
+import { toast } from './ui/use-toast';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+// Radix Select does not accept empty item values, so unfiled gets its own value in the picker
+const UNFILED_VALUE = 'unfiled';
+
+interface SavePhraseDialogProps {
+  isOpen: boolean;
+  phrase: Omit<NewPhrasebookEntry, 'folderId' | 'notes'> | null;
+  onClose: () => void;
+  onSaved: (entry: PhrasebookEntry) => void;
+}
+
+export const SavePhraseDialog: React.FC<SavePhraseDialogProps> = ({ isOpen, phrase, onClose, onSaved }) => {
+  const [folders, setFolders] = useState<PhrasebookFolder[]>([]);
+  const [folderValue, setFolderValue] = useState(UNFILED_VALUE);
+  const [newFolderName, setNewFolderName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load folders and reset the form each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setNewFolderName('');
+    setNotes('');
+    listFolders()
+      .then(setFolders)
+      .catch((error) => {
+        console.error('[Phrasebook] Failed to load folders:', error);
+      });
+  }, [isOpen]);
+
+  const handleCreateFolder = async () => {
+    try {
+      const folder = await createFolder(newFolderName);
+      setFolders(prev => [...prev, folder]);
+      setFolderValue(folder.id);
+      setNewFolderName('');
+    } catch (error) {
+      console.error('[Phrasebook] Failed to create folder:', error);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!phrase) return;
+
+    setIsSaving(true);
+    try {
+      const entry = await addEntry({
+        ...phrase,
+        folderId: folderValue === UNFILED_VALUE ? UNFILED_FOLDER_ID : folderValue,
+        notes: notes.trim(),
+      });
+      onSaved(entry);
+      onClose();
+    } catch (error) {
+      console.error('[Phrasebook] Failed to save phrase:', error);
+      toast({
+        title: 'Save Failed',
+        description: 'Failed to save phrase. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen || !phrase) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200"
+      onClick={onClose}
+    >
+      <div
+        className="relative w-full max-w-md bg-white dark:bg-gray-800 rounded-3xl shadow-2xl animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-500 rounded-xl cute-shadow">
+              <Star className="w-5 h-5 text-white" />
+            </div>
+            <h2 className="text-base sm:text-xl font-bold text-gray-800 dark:text-white">
+              Save to Phrasebook
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded-lg transition-all duration-200 btn-pop"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 max-h-[60vh] overflow-y-auto custom-scrollbar space-y-4">
+          {/* Preview */}
+          <div className="p-3 rounded-xl bg-indigo-50 dark:bg-gray-700">
+            <div className="text-xs text-gray-400 dark:text-gray-500">
+              {SUPPORTED_LANGUAGES[phrase.sourceLang]} → {SUPPORTED_LANGUAGES[phrase.targetLang]}
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-300 mt-1 line-clamp-2 break-words">
+              {phrase.sourceText}
+            </p>
+            <p className="text-sm font-medium text-gray-800 dark:text-white mt-1 line-clamp-3 break-words">
+              {phrase.translatedText}
+            </p>
+          </div>
+
+          {/* Folder */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Folder
+            </label>
+            <Select value={folderValue} onValueChange={setFolderValue}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNFILED_VALUE}>Unfiled</SelectItem>
+                {folders.map(folder => (
+                  <SelectItem key={folder.id} value={folder.id}>
+                    {folder.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2 mt-2">
+              <input
+                type="text"
+                value={newFolderName}
+                onChange={(e) => setNewFolderName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && newFolderName.trim()) handleCreateFolder();
+                }}
+                placeholder="New folder, e.g. Restaurant"
+                className="w-full px-3 py-2 text-sm rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-800 dark:text-white focus:border-indigo-500 focus:outline-none transition-colors"
+              />
+              <button
+                onClick={handleCreateFolder}
+                disabled={!newFolderName.trim()}
+                className="px-3 py-2 bg-gray-100 dark:bg-gray-700 rounded-xl text-gray-600 dark:text-gray-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors btn-pop disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Create folder"
+              >
+                <FolderPlus className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {/* Notes */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Notes
+            </label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Optional, e.g. when to use this phrase"
+              rows={3}
+              className="w-full px-3 py-2 text-sm rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-800 dark:text-white focus:border-indigo-500 focus:outline-none transition-colors resize-none"
+            />
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex gap-3 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2.5 text-gray-700 dark:text-gray-300 font-semibold bg-white dark:bg-gray-700 border-2 border-gray-200 dark:border-gray-600 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-600/50 transition-all duration-200 btn-pop"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex-1 px-4 py-2.5 bg-gradient-to-r from-indigo-500 to-purple-500 text-white font-semibold rounded-xl cute-shadow hover:from-indigo-400 hover:to-purple-400 transition-all duration-200 btn-pop disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,15 +1,23 @@
 import React, { useState, lazy, Suspense } from 'react';
-import { X, Save, Settings as SettingsIcon, Sparkles, Mic, Image as ImageIcon, ArrowLeftRight, Languages, Download, CheckCircle } from 'lucide-react';
-import { AISettings, saveSettings, loadSettings, DEFAULT_SETTINGS, DASHSCOPE_ENDPOINT } from '../utils/config/settings';
+import { X, Save, Settings as SettingsIcon, Sparkles, Mic, Image as ImageIcon, ArrowLeftRight, Languages, Download, CheckCircle, BarChart3 } from 'lucide-react';
+import { AISettings, saveSettings, loadSettings, DEFAULT_SETTINGS, DASHSCOPE_ENDPOINT, DEFAULT_CACHE_TTL_HOURS, DEFAULT_CACHE_MAX_ENTRIES, DEFAULT_CANDIDATE_COUNT, type OfflineTranslationMode, type SettingsTab } from '../utils/config/settings';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from './ui/Tabs';
 import { Switch } from './ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { ConfirmDialog } from './ConfirmDialog';
+import { ProviderProfiles } from './ProviderProfiles';
+import { TranslationFallbacks } from './TranslationFallbacks';
+import { ConnectionTest } from './ConnectionTest';
+import { UsagePanel } from './UsagePanel';
 import { localWhisperService, WhisperModelSize } from '../utils/audio/localWhisper';
+import { DEFAULT_OCR_MODEL } from '../utils/ai/provider';
+import { clearTranslationCache, getTranslationCacheSize } from '../utils/translation/cache';
+import { offlineTranslationService } from '../utils/translation/offlineTranslation';
 import { toast } from './ui/use-toast';
 
 // Lazy load ImportExportDialog - only loaded when user opens it
 const ImportExportDialog = lazy(() => import('./ImportExportDialog').then(module => ({ default: module.ImportExportDialog })));
+const GlossaryPanel = lazy(() => import('./GlossaryPanel').then(module => ({ default: module.GlossaryPanel })));
 
 // Network Information API types (not fully standardized)
 interface NetworkInformation {
@@ -23,11 +31,26 @@ interface NavigatorWithConnection extends Navigator {
   webkitConnection?: NetworkInformation;
 }
 
+/**
+ * Describe the network when a large download should be confirmed first, or null when it can start right away
+ */
+const getDownloadNetworkType = (): string | null => {
+  const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
+  const nav = navigator as NavigatorWithConnection;
+  const connection = nav.connection || nav.mozConnection || nav.webkitConnection;
+  const isMetered = connection?.saveData || connection?.effectiveType === 'slow-2g' || connection?.effectiveType === '2g' || connection?.effectiveType === '3g';
+
+  if (isMetered) {
+    return 'metered/slow';
+  }
+  return isMobile ? 'mobile' : null;
+};
+
 interface SettingsPanelProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (settings: AISettings) => void;
-  initialTab?: 'general' | 'translation' | 'speech' | 'image';
+  initialTab?: SettingsTab;
 }
 
 export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave, initialTab = 'general' }) => {
@@ -47,15 +70,25 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
   });
   const [isSaving, setIsSaving] = useState(false);
   const [showImportExport, setShowImportExport] = useState(false);
+  const [showGlossary, setShowGlossary] = useState(false);
   const [activeTab, setActiveTab] = useState(initialTab);
 
   // Local Whisper model download state
   const [isDownloadingModel, setIsDownloadingModel] = useState(false);
   const [downloadProgress, setDownloadProgress] = useState(0);
   const [showDownloadConfirm, setShowDownloadConfirm] = useState(false);
-  const [downloadConfirmInfo, setDownloadConfirmInfo] = useState({ networkType: '', modelSize: '', size: '' });
+  const [downloadConfirmInfo, setDownloadConfirmInfo] = useState({ networkType: '', modelSize: '', size: '', target: 'whisper' as 'whisper' | 'translation' });
   const [currentModelDownloaded, setCurrentModelDownloaded] = useState(false);
 
+  // Offline translation model download state
+  const [isDownloadingOfflineModel, setIsDownloadingOfflineModel] = useState(false);
+  const [offlineDownloadProgress, setOfflineDownloadProgress] = useState(0);
+  const [offlineModelDownloaded, setOfflineModelDownloaded] = useState(false);
+
+  // Translation cache state
+  const [cacheSize, setCacheSize] = useState<number | null>(null);
+  const [showClearCacheConfirm, setShowClearCacheConfirm] = useState(false);
+
   // Initialize local whisper service on mount
   React.useEffect(() => {
     localWhisperService.initialize();
@@ -104,6 +137,34 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
     }, 300);
   };
 
+  // Count cached translations when the translation tab is shown
+  React.useEffect(() => {
+    if (!isOpen || activeTab !== 'translation') return;
+
+    getTranslationCacheSize()
+      .then(setCacheSize)
+      .catch(() => setCacheSize(null));
+    offlineTranslationService.isModelDownloadedAsync().then(setOfflineModelDownloaded);
+  }, [isOpen, activeTab]);
+
+  const handleClearCache = async () => {
+    try {
+      await clearTranslationCache();
+      setCacheSize(0);
+      toast({
+        title: 'Cache Cleared',
+        description: 'All cached translations have been removed.',
+      });
+    } catch (error) {
+      console.error('[Cache] Failed to clear translation cache:', error);
+      toast({
+        title: 'Clear Failed',
+        description: 'Failed to clear the translation cache. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleImport = (importedSettings: AISettings) => {
     setSettings(importedSettings);
     saveSettings(importedSettings);
@@ -115,19 +176,14 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
     const modelSize = settings.speechRecognition.whisperModel || 'base';
     const modelInfo = localWhisperService.getModelInfo(modelSize as WhisperModelSize);
 
-    // Detect if user is on mobile or metered connection
-    const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
-    const nav = navigator as NavigatorWithConnection;
-    const connection = nav.connection || nav.mozConnection || nav.webkitConnection;
-    const isMetered = connection?.saveData || connection?.effectiveType === 'slow-2g' || connection?.effectiveType === '2g' || connection?.effectiveType === '3g';
-
     // Show confirmation if on mobile or metered network
-    if (isMobile || isMetered) {
-      const networkType = isMetered ? 'metered/slow' : 'mobile';
+    const networkType = getDownloadNetworkType();
+    if (networkType) {
       setDownloadConfirmInfo({
         networkType,
         modelSize,
         size: modelInfo.size,
+        target: 'whisper',
       });
       setShowDownloadConfirm(true);
     } else {
@@ -173,6 +229,45 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
     }
   };
 
+  // Download the offline translation model
+  const handleDownloadOfflineModel = async () => {
+    const networkType = getDownloadNetworkType();
+    if (networkType) {
+      setDownloadConfirmInfo({
+        networkType,
+        modelSize: 'offline translation',
+        size: offlineTranslationService.getModelInfo().size,
+        target: 'translation',
+      });
+      setShowDownloadConfirm(true);
+    } else {
+      await executeOfflineDownload();
+    }
+  };
+
+  const executeOfflineDownload = async () => {
+    try {
+      setIsDownloadingOfflineModel(true);
+      setOfflineDownloadProgress(0);
+
+      await offlineTranslationService.downloadModel((progress) => {
+        setOfflineDownloadProgress(progress.percentage);
+      });
+
+      setOfflineModelDownloaded(true);
+      setOfflineDownloadProgress(100);
+    } catch (error) {
+      console.error('Failed to download offline translation model:', error);
+      toast({
+        title: 'Download Failed',
+        description: 'Failed to download the offline translation model. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDownloadingOfflineModel(false);
+    }
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -213,8 +308,8 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
 
         {/* Content */}
         <div className="p-6 max-h-[60vh] overflow-y-auto custom-scrollbar">
-          <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'general' | 'translation' | 'speech' | 'image')}>
-            <TabsList className="w-full grid grid-cols-4 mb-6">
+          <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as SettingsTab)}>
+            <TabsList className="w-full grid grid-cols-5 mb-6">
               <TabsTrigger value="general" className="flex flex-col items-center gap-1 px-2 py-2">
                 <SettingsIcon className="w-4 h-4" />
                 <span className="text-xs sm:text-sm">General</span>
@@ -231,6 +326,10 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
                 <ImageIcon className="w-4 h-4" />
                 <span className="text-xs sm:text-sm">Image</span>
               </TabsTrigger>
+              <TabsTrigger value="usage" className="flex flex-col items-center gap-1 px-2 py-2">
+                <BarChart3 className="w-4 h-4" />
+                <span className="text-xs sm:text-sm">Usage</span>
+              </TabsTrigger>
             </TabsList>
 
             {/* General AI Service Tab */}
@@ -287,6 +386,17 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
                   />
                 </div>
 
+                <ConnectionTest
+                  provider={settings.generalAI}
+                  feature="translation"
+                  onSelectModel={(modelName) => setSettings({ ...settings, generalAI: { ...settings.generalAI, modelName } })}
+                />
+
+                {/* Provider Profiles */}
+                <div className="pt-2 border-t border-gray-200 dark:border-gray-700">
+                  <ProviderProfiles settings={settings} onChange={setSettings} />
+                </div>
+
                 {/* Info Box */}
                 <div className="p-3 bg-indigo-50 dark:bg-indigo-900/30 rounded-xl border border-indigo-200 dark:border-indigo-800">
                   <p className="text-sm text-indigo-800 dark:text-indigo-200">
@@ -412,6 +522,196 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
                   );
                 })()}
 
+                {/* Streaming */}
+                <div className="flex items-center justify-between">
+                  <div className="flex-1">
+                    <label htmlFor="translationStreaming" className="block text-sm font-semibold text-gray-700 dark:text-gray-300">
+                      Stream Translations
+                    </label>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                      Show the translation as it is generated (plain output mode and Hunyuan-MT only)
+                    </p>
+                  </div>
+                  <Switch
+                    id="translationStreaming"
+                    checked={settings.translation.streaming ?? true}
+                    onCheckedChange={(checked: boolean) => setSettings({ ...settings, translation: { ...settings.translation, streaming: checked } })}
+                  />
+                </div>
+
+                {/* Translation Cache */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1">
+                      <label htmlFor="translationCache" className="block text-sm font-semibold text-gray-700 dark:text-gray-300">
+                        Cache Translations
+                      </label>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                        Reuse previous translations on this device instead of calling the API again
+                      </p>
+                    </div>
+                    <Switch
+                      id="translationCache"
+                      checked={settings.translation.cacheEnabled ?? true}
+                      onCheckedChange={(checked: boolean) => setSettings({ ...settings, translation: { ...settings.translation, cacheEnabled: checked } })}
+                    />
+                  </div>
+                  {(settings.translation.cacheEnabled ?? true) && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-1.5">
+                        <label htmlFor="cacheTTL" className="block text-xs font-semibold text-gray-600 dark:text-gray-400">
+                          Keep for (hours)
+                        </label>
+                        <input
+                          id="cacheTTL"
+                          type="number"
+                          min={1}
+                          value={settings.translation.cacheTTLHours ?? DEFAULT_CACHE_TTL_HOURS}
+                          onChange={(e) => {
+                            const value = parseInt(e.target.value, 10);
+                            if (value > 0) {
+                              setSettings({ ...settings, translation: { ...settings.translation, cacheTTLHours: value } });
+                            }
+                          }}
+                          className="w-full px-3 py-2 text-sm rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-800 dark:text-white focus:border-indigo-500 focus:outline-none transition-colors"
+                        />
+                      </div>
+                      <div className="space-y-1.5">
+                        <label htmlFor="cacheMaxEntries" className="block text-xs font-semibold text-gray-600 dark:text-gray-400">
+                          Max entries
+                        </label>
+                        <input
+                          id="cacheMaxEntries"
+                          type="number"
+                          min={1}
+                          value={settings.translation.cacheMaxEntries ?? DEFAULT_CACHE_MAX_ENTRIES}
+                          onChange={(e) => {
+                            const value = parseInt(e.target.value, 10);
+                            if (value > 0) {
+                              setSettings({ ...settings, translation: { ...settings.translation, cacheMaxEntries: value } });
+                            }
+                          }}
+                          className="w-full px-3 py-2 text-sm rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-800 dark:text-white focus:border-indigo-500 focus:outline-none transition-colors"
+                        />
+                      </div>
+                    </div>
+                  )}
+                  <button
+                    onClick={() => setShowClearCacheConfirm(true)}
+                    disabled={cacheSize === 0}
+                    className="w-full px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border-2 border-gray-200 dark:border-gray-600 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-600/50 transition-all duration-200 btn-pop disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Clear Cache{cacheSize !== null ? ` (${cacheSize} ${cacheSize === 1 ? 'entry' : 'entries'})` : ''}
+                  </button>
+                </div>
+
+                {/* Alternative Translations */}
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex-1">
+                    <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300">
+                      Alternative Translations
+                    </label>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                      How many alternatives, each with a back-translation, to show when checking a translation
+                    </p>
+                  </div>
+                  <Select
+                    value={String(settings.translation.candidateCount ?? DEFAULT_CANDIDATE_COUNT)}
+                    onValueChange={(value) => setSettings({ ...settings, translation: { ...settings.translation, candidateCount: parseInt(value, 10) } })}
+                  >
+                    <SelectTrigger className="w-20 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[2, 3, 4, 5].map(count => (
+                        <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Glossary */}
+                <div className="space-y-3">
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300">
+                      Glossary
+                    </label>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                      Terms that should always be translated the same way, such as names and brands
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setShowGlossary(true)}
+                    className="w-full px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border-2 border-gray-200 dark:border-gray-600 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-600/50 transition-all duration-200 btn-pop"
+                  >
+                    Manage Glossary
+                  </button>
+                </div>
+
+                {/* Fallback Providers */}
+                <TranslationFallbacks settings={settings} onChange={setSettings} />
+
+                {/* Offline Translation */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex-1">
+                      <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300">
+                        Offline Translation
+                      </label>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                        Translate on this device with a downloaded model. Auto uses it while offline or when no provider can be reached
+                      </p>
+                    </div>
+                    <Select
+                      value={settings.translation.offlineMode ?? 'auto'}
+                      onValueChange={(value) => setSettings({ ...settings, translation: { ...settings.translation, offlineMode: value as OfflineTranslationMode } })}
+                    >
+                      <SelectTrigger className="w-24 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="off">Off</SelectItem>
+                        <SelectItem value="auto">Auto</SelectItem>
+                        <SelectItem value="always">Always</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {(settings.translation.offlineMode ?? 'auto') !== 'off' && (
+                    offlineModelDownloaded ? (
+                      <div className="flex items-center gap-2 p-3 bg-green-50 dark:bg-green-900/30 rounded-xl border border-green-200 dark:border-green-800">
+                        <CheckCircle className="w-5 h-5 text-green-600 dark:text-green-400" />
+                        <div className="flex-1">
+                          <div className="text-sm font-semibold text-green-800 dark:text-green-200">Model Downloaded</div>
+                          <div className="text-xs text-green-600 dark:text-green-400">Ready for offline translation</div>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="space-y-1.5">
+                        <button
+                          onClick={handleDownloadOfflineModel}
+                          disabled={isDownloadingOfflineModel}
+                          className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-indigo-500 text-white font-semibold rounded-xl cute-shadow hover:bg-indigo-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 btn-pop"
+                        >
+                          {isDownloadingOfflineModel ? (
+                            <>
+                              <div className="animate-spin h-4 w-4 border-2 border-white border-t-transparent rounded-full"></div>
+                              <span>Downloading... {Math.round(offlineDownloadProgress)}%</span>
+                            </>
+                          ) : (
+                            <>
+                              <Download className="w-4 h-4" />
+                              <span>Download Offline Model ({offlineTranslationService.getModelInfo().size})</span>
+                            </>
+                          )}
+                        </button>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {offlineTranslationService.getModelInfo().description}
+                        </p>
+                      </div>
+                    )
+                  )}
+                </div>
+
                 {/* Info Box */}
                 <div className="p-3 bg-indigo-50 dark:bg-indigo-900/30 rounded-xl border border-indigo-200 dark:border-indigo-800">
                   <p className="text-sm text-indigo-800 dark:text-indigo-200">
@@ -772,6 +1072,18 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
                   />
                 </div>
 
+                <ConnectionTest
+                  provider={{
+                    apiKey: settings.imageOCR.apiKey,
+                    endpoint: settings.imageOCR.endpoint,
+                    modelName: settings.imageOCR.provider === 'qwen' ? DEFAULT_OCR_MODEL : (settings.imageOCR.modelName || ''),
+                  }}
+                  feature="ocr"
+                  onSelectModel={settings.imageOCR.provider === 'custom'
+                    ? (modelName) => setSettings({ ...settings, imageOCR: { ...settings.imageOCR, modelName } })
+                    : undefined}
+                />
+
                 {/* VLM Section */}
                 <div className="space-y-3 pt-3 border-t-2 border-gray-200 dark:border-gray-700">
                   <h3 className="text-sm font-bold text-gray-800 dark:text-white flex items-center gap-2">
@@ -848,6 +1160,16 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
                           className="w-full px-3 py-2 text-sm rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-800 dark:text-white focus:border-indigo-500 focus:outline-none transition-colors"
                         />
                       </div>
+
+                      <ConnectionTest
+                        provider={{
+                          apiKey: settings.vlm.apiKey || '',
+                          endpoint: settings.vlm.endpoint || '',
+                          modelName: settings.vlm.modelName || '',
+                        }}
+                        feature="vlm"
+                        onSelectModel={(modelName) => setSettings({ ...settings, vlm: { ...settings.vlm, modelName } })}
+                      />
                     </>
                   )}
 
@@ -883,6 +1205,11 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
                 </div>
               </div>
             </TabsContent>
+
+            {/* Usage Tab */}
+            <TabsContent value="usage">
+              <UsagePanel settings={settings} onChange={setSettings} />
+            </TabsContent>
           </Tabs>
         </div>
 
@@ -909,11 +1236,18 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
         />
       </Suspense>
 
+      {/* Glossary Panel - Lazy Loaded */}
+      {showGlossary && (
+        <Suspense fallback={null}>
+          <GlossaryPanel isOpen={showGlossary} onClose={() => setShowGlossary(false)} />
+        </Suspense>
+      )}
+
       {/* Download Confirmation Dialog */}
       <ConfirmDialog
         isOpen={showDownloadConfirm}
         onClose={() => setShowDownloadConfirm(false)}
-        onConfirm={executeDownload}
+        onConfirm={downloadConfirmInfo.target === 'translation' ? executeOfflineDownload : executeDownload}
         title="Download Model"
         description={`You are on a ${downloadConfirmInfo.networkType} network. Downloading the "${downloadConfirmInfo.modelSize}" model will use approximately ${downloadConfirmInfo.size} of data. Do you want to continue?`}
         confirmText="Download"
@@ -921,6 +1255,18 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
         variant="warning"
         icon="download"
       />
+
+      {/* Clear Cache Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={showClearCacheConfirm}
+        onClose={() => setShowClearCacheConfirm(false)}
+        onConfirm={handleClearCache}
+        title="Clear Translation Cache"
+        description="This will remove all cached translations from this device. Future requests will call the API again. Do you want to continue?"
+        confirmText="Clear"
+        cancelText="Cancel"
+        variant="warning"
+      />
     </div>
   );
 };
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Check, Undo2 } from 'lucide-react';
+import type { TranslationCandidate } from '../utils/translation/translation';
+
+interface TranslationCandidatesProps {
+  candidates: TranslationCandidate[];
+  selectedText: string;
+  onSelect: (candidate: TranslationCandidate) => void;
+}
+
+/**
+ * Alternative translations with their back-translations, so a mistranslation can be caught before use
+ */
+export const TranslationCandidates: React.FC<TranslationCandidatesProps> = ({ candidates, selectedText, onSelect }) => {
+  return (
+    <ul className="mt-3 space-y-2">
+      {candidates.map((candidate, index) => {
+        const isSelected = candidate.text === selectedText;
+        return (
+          <li key={`${index}-${candidate.text}`}>
+            <button
+              onClick={() => onSelect(candidate)}
+              className={`w-full text-left p-3 rounded-xl border-2 transition-colors ${
+                isSelected
+                  ? 'border-indigo-500 bg-white dark:bg-gray-800'
+                  : 'border-gray-200 dark:border-gray-600 hover:border-indigo-300 dark:hover:border-indigo-700'
+              }`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <p className="text-sm font-medium text-gray-800 dark:text-white whitespace-pre-wrap break-words">
+                  {candidate.text}
+                </p>
+                {isSelected && <Check className="h-4 w-4 flex-shrink-0 text-indigo-500" />}
+              </div>
+              <p className="mt-1 flex items-start gap-1 text-xs text-gray-500 dark:text-gray-400 break-words">
+                <Undo2 className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                <span>{candidate.backTranslation}</span>
+              </p>
+              {candidate.note && (
+                <p className="mt-1 text-xs italic text-gray-400 dark:text-gray-500 break-words">
+                  {candidate.note}
+                </p>
+              )}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -0,0 +1,129 @@
+import React from 'react';
+import { Plus, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
+import { AISettings, TranslationFallback } from '../utils/config/settings';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+interface TranslationFallbacksProps {
+  settings: AISettings;
+  onChange: (settings: AISettings) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 text-sm rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-800 dark:text-white focus:border-indigo-500 focus:outline-none transition-colors';
+
+/**
+ * Ordered list of provider profiles tried when the translation provider fails
+ */
+export const TranslationFallbacks: React.FC<TranslationFallbacksProps> = ({ settings, onChange }) => {
+  const profiles = settings.profiles || [];
+  const fallbacks = settings.translation.fallbacks || [];
+
+  const setFallbacks = (next: TranslationFallback[]) => {
+    onChange({ ...settings, translation: { ...settings.translation, fallbacks: next } });
+  };
+
+  const updateFallback = (index: number, changes: Partial<TranslationFallback>) => {
+    setFallbacks(fallbacks.map((fallback, i) => i === index ? { ...fallback, ...changes } : fallback));
+  };
+
+  const moveFallback = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= fallbacks.length) {
+      return;
+    }
+    const next = [...fallbacks];
+    [next[index], next[target]] = [next[target], next[index]];
+    setFallbacks(next);
+  };
+
+  const handleAddFallback = () => {
+    setFallbacks([...fallbacks, { profileId: profiles[0].id }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300">
+          Fallback Providers
+        </label>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+          When translation hits a rate limit, quota or network error, retry and then try these profiles in order
+        </p>
+      </div>
+
+      {fallbacks.length > 0 && (
+        <ol className="space-y-2">
+          {fallbacks.map((fallback, index) => {
+            const profile = profiles.find(item => item.id === fallback.profileId);
+
+            return (
+              <li key={index} className="p-3 rounded-xl border-2 border-gray-200 dark:border-gray-700 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="w-5 text-xs font-bold text-gray-400 flex-shrink-0">{index + 1}.</span>
+                  <Select
+                    value={profile ? fallback.profileId : undefined}
+                    onValueChange={(value) => updateFallback(index, { profileId: value })}
+                  >
+                    <SelectTrigger className="h-9 flex-1">
+                      <SelectValue placeholder="Missing profile" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {profiles.map(item => (
+                        <SelectItem key={item.id} value={item.id}>{item.name || 'Untitled'}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex items-center flex-shrink-0">
+                    <button
+                      onClick={() => moveFallback(index, -1)}
+                      disabled={index === 0}
+                      className="p-1.5 text-gray-400 hover:text-indigo-500 rounded-lg transition-colors btn-pop disabled:opacity-30 disabled:cursor-not-allowed"
+                      title="Move up"
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveFallback(index, 1)}
+                      disabled={index === fallbacks.length - 1}
+                      className="p-1.5 text-gray-400 hover:text-indigo-500 rounded-lg transition-colors btn-pop disabled:opacity-30 disabled:cursor-not-allowed"
+                      title="Move down"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setFallbacks(fallbacks.filter((_, i) => i !== index))}
+                      className="p-1.5 text-gray-400 hover:text-red-500 rounded-lg transition-colors btn-pop"
+                      title="Remove"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <input
+                  type="text"
+                  value={fallback.modelName || ''}
+                  onChange={(e) => updateFallback(index, { modelName: e.target.value || undefined })}
+                  placeholder={profile?.modelName ? `Model (default: ${profile.modelName})` : 'Model'}
+                  className={inputClassName}
+                />
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <button
+        onClick={handleAddFallback}
+        disabled={profiles.length === 0}
+        className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border-2 border-dashed border-gray-200 dark:border-gray-600 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-600/50 transition-all duration-200 btn-pop disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Plus className="w-4 h-4" />
+        Add Fallback
+      </button>
+      {profiles.length === 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Create a provider profile in the General tab to use it as a fallback.
+        </p>
+      )}
+    </div>
+  );
+};
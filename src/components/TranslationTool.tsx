@@ -1,17 +1,58 @@
 import React, { useEffect, useState, useRef, lazy, Suspense } from 'react';
-import { translateText, SUPPORTED_LANGUAGES, type LanguageCode } from '../utils/translation/translation';
+import {
+  translateTextWithFailover,
+  translateTextCandidates,
+  streamTranslateText,
+  canStreamTranslation,
+  canTranslateCandidates,
+  THINKING_START_MARKER,
+  THINKING_END_MARKER,
+  SUPPORTED_LANGUAGES,
+  type LanguageCode,
+  type TranslationOutcome,
+  type TranslationCandidate,
+} from '../utils/translation/translation';
 import { speakText, getSpeechLocale } from '../utils/audio/speech';
 import { useSiliconFlowSpeech, transcribeAudioSiliconFlow } from '../utils/audio/audioTranscription';
 import { RealtimeTranscriptionService } from '../utils/audio/realtimeTranscription';
 import { performOCR, imageToBase64, streamTranslateImageWithVLM } from '../utils/image/imageOcr';
 import { explainWord, quickQA } from '../utils/translation/explanation';
-import { Mic, Image as ImageIcon, ArrowUpDown, X, Copy, Check, Volume2, Camera, Keyboard, Settings, MessageCircle } from 'lucide-react';
+import { getCachedTranslation, cacheTranslation, translateTextCached } from '../utils/translation/cache';
+import { findGlossaryMatches, findGlossaryMisses, type GlossaryEntry } from '../utils/glossary/glossary';
+import { getAvailableTones, getToneLabel, getTranslationTone, setTranslationTone } from '../utils/translation/tone';
+import { detectSourceLanguage } from '../utils/language/detect';
+import { Mic, Image as ImageIcon, ArrowUpDown, X, Copy, Check, Volume2, Camera, Keyboard, Settings, MessageCircle, History, Star, BookMarked, Users, Captions, AlertTriangle, ListChecks, FileText, Clock } from 'lucide-react';
 import { useDropzone } from 'react-dropzone';
-import { AISettings } from '../utils/config/settings';
+import { AISettings, type TranslationTone, type SettingsTab } from '../utils/config/settings';
+import { resolveGeneralAI, resolveTextFeatureProvider, isProviderConfigured } from '../utils/config/profiles';
+import { resolveOCRProvider, resolveVLMProvider } from '../utils/ai/provider';
+import { describeError } from '../utils/ai/errors';
+import { useErrorToast } from '../hooks/useErrorToast';
+import { useBudgetWarning } from '../hooks/useBudgetWarning';
+import { useOfflineQueue } from '../hooks/useOfflineQueue';
+import { isOfflineError } from '../utils/queue/offlineQueue';
+import { addHistoryEntry, updateHistoryEntry, type HistoryEntry, type NewHistoryEntry } from '../utils/history/history';
+import { compressBase64Image } from '../utils/image/imageCompression';
+import { groupTextLines, type TextBlock } from '../utils/image/textLayout';
+import { renderTranslatedImage, type RegionColors } from '../utils/image/overlay/renderer';
+import { findEntry, deleteEntry, type PhrasebookEntry } from '../utils/phrasebook/phrasebook';
 import { ImageLightbox } from './ImageLightbox';
+import { OCROverlay } from './OCROverlay';
+import { TranslationCandidates } from './TranslationCandidates';
 
 // Lazy load CameraPanel - only loaded when user opens camera
 const CameraPanel = lazy(() => import('./CameraPanel').then(module => ({ default: module.CameraPanel })));
+// Lazy load HistoryPanel - only loaded when user opens history
+const HistoryPanel = lazy(() => import('./HistoryPanel').then(module => ({ default: module.HistoryPanel })));
+// Lazy load PhrasebookPanel and SavePhraseDialog - only loaded when user opens the phrasebook or stars a result
+const PhrasebookPanel = lazy(() => import('./PhrasebookPanel').then(module => ({ default: module.PhrasebookPanel })));
+const SavePhraseDialog = lazy(() => import('./SavePhraseDialog').then(module => ({ default: module.SavePhraseDialog })));
+// Lazy load ConversationPanel - only loaded when user starts a conversation
+const ConversationPanel = lazy(() => import('./ConversationPanel').then(module => ({ default: module.ConversationPanel })));
+// Lazy load LiveSubtitlesPanel - only loaded when user starts live subtitles
+const LiveSubtitlesPanel = lazy(() => import('./LiveSubtitlesPanel').then(module => ({ default: module.LiveSubtitlesPanel })));
+// Lazy load DocumentPanel - only loaded when user translates a document
+const DocumentPanel = lazy(() => import('./DocumentPanel').then(module => ({ default: module.DocumentPanel })));
 import { useToast } from './ui/use-toast';
 import {
   Select,
@@ -55,30 +96,42 @@ const languageOptions = Object.entries(SUPPORTED_LANGUAGES).map(([code, name]) =
   label: name
 }));
 
+// Source language option for automatic detection (text input only)
+const AUTO_DETECT_VALUE = 'auto';
+
 type InputMethod = 'text' | 'image' | 'qa';
 type TextMode = 'translation' | 'explanation';
 
 interface TranslationToolProps {
   settings: AISettings;
-  onOpenSettings: (initialTab?: 'general' | 'translation' | 'speech' | 'image') => void;
+  onOpenSettings: (initialTab?: SettingsTab) => void;
+  onSettingsChange: (settings: AISettings) => void;
 }
 
-interface CachedTranslation {
-  result: string;
-  timestamp: number;
-}
+// Results for inputs that extend the previous one within this window update the same history entry
+const HISTORY_MERGE_WINDOW = 2 * 60 * 1000;
 
-// Cache duration: 10 minutes
-const CACHE_DURATION = 10 * 60 * 1000;
+// Select value for the General AI service in the profile switcher (Radix Select does not accept empty values)
+const DEFAULT_PROFILE_VALUE = 'default';
 
-export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOpenSettings }) => {
+export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOpenSettings, onSettingsChange }) => {
   // Language state
   const [sourceLang, setSourceLang] = useState<LanguageCode>('zh');
   const [targetLang, setTargetLang] = useState<LanguageCode>('ja');
+  // Automatic source language detection; sourceLang follows the detected language
+  const [autoDetect, setAutoDetect] = useState(false);
+  const [detectedLang, setDetectedLang] = useState<LanguageCode | null>(null);
   // Text state
   const [sourceText, setSourceText] = useState('');
   const [targetText, setTargetText] = useState('');
   const [furiganaHtml, setFuriganaHtml] = useState<string | null>(null);
+  // Provider that answered the last text translation (unset for cached results)
+  const [answeredBy, setAnsweredBy] = useState<Omit<TranslationOutcome, 'text' | 'glossaryMisses'> | null>(null);
+  // Glossary terms the last text translation did not honour
+  const [glossaryMisses, setGlossaryMisses] = useState<GlossaryEntry[]>([]);
+  // Alternative translations of the current text, with back-translations
+  const [candidates, setCandidates] = useState<TranslationCandidate[] | null>(null);
+  const [isLoadingCandidates, setIsLoadingCandidates] = useState(false);
   // UI state
   const [inputMethod, setInputMethod] = useState<InputMethod>('text');
   const [textMode, setTextMode] = useState<TextMode>('translation');
@@ -86,6 +139,8 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
   const [isThinking, setIsThinking] = useState(false);
   const [copied, setCopied] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // The last request failed while offline and is queued to run when the connection is back
+  const [isQueued, setIsQueued] = useState(false);
   // Recording state
   const [isRecording, setIsRecording] = useState(false);
   const recognitionRef = useRef<SpeechRecognition | null>(null);
@@ -98,6 +153,15 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
   const [image, setImage] = useState<string | null>(null);
   const [isProcessingImage, setIsProcessingImage] = useState(false);
   const [translatedImage, setTranslatedImage] = useState<string | null>(null);
+  // OCR text blocks and their translations, shown as an interactive overlay on the image
+  const [ocrResult, setOcrResult] = useState<{
+    image: string;
+    blocks: TextBlock[];
+    translations: string[];
+    colors: (RegionColors | null)[];
+    sourceLang: LanguageCode;
+    targetLang: LanguageCode;
+  } | null>(null);
   const [isCameraOpen, setIsCameraOpen] = useState(false);
   const [isLightboxOpen, setIsLightboxOpen] = useState(false);
   const [useVLMMode, setUseVLMMode] = useState(false);
@@ -112,46 +176,39 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
   const explanationAbortControllerRef = useRef<AbortController | null>(null);
   const qaAbortControllerRef = useRef<AbortController | null>(null);
   const imageAbortControllerRef = useRef<AbortController | null>(null);
-  // Translation cache
-  const translationCacheRef = useRef<Map<string, CachedTranslation>>(new Map());
+  const candidatesAbortControllerRef = useRef<AbortController | null>(null);
+  // History state
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const lastHistoryEntryRef = useRef<HistoryEntry | null>(null);
+  // Phrasebook state
+  const [isPhrasebookOpen, setIsPhrasebookOpen] = useState(false);
+  const [isConversationOpen, setIsConversationOpen] = useState(false);
+  const [isSubtitlesOpen, setIsSubtitlesOpen] = useState(false);
+  const [isDocumentOpen, setIsDocumentOpen] = useState(false);
+  const [isSavePhraseOpen, setIsSavePhraseOpen] = useState(false);
+  const [savedPhrase, setSavedPhrase] = useState<PhrasebookEntry | null>(null);
+  const [phrasebookVersion, setPhrasebookVersion] = useState(0);
   // Check if using SiliconFlow speech recognition
   const useSiliconFlowForSpeech = useSiliconFlowSpeech(settings);
   // Toast hook
   const { toast } = useToast();
+  const showErrorToast = useErrorToast(settings, onOpenSettings);
+  const warnIfOverBudget = useBudgetWarning(settings, onOpenSettings);
+  const { pendingCount, queueOfflineRequest } = useOfflineQueue(settings, () => {
+    lastHistoryEntryRef.current = null;
+    setIsHistoryOpen(true);
+  });
 
-  // Check if general AI service is configured
-  const isGeneralAIConfigured = () => {
-    return !!(settings.generalAI.apiKey && settings.generalAI.endpoint && settings.generalAI.modelName);
+  // Check if general AI service (or the profile pinned to the given feature) is configured
+  const isGeneralAIConfigured = (feature?: 'explanation' | 'qa') => {
+    return isProviderConfigured(feature ? resolveTextFeatureProvider(settings, feature) : resolveGeneralAI(settings));
   };
 
   // Check if VLM is configured
-  const isVLMConfigured = () => {
-    const vlmConfig = settings.vlm;
-
-    if (vlmConfig.useGeneralAI) {
-      // Using general AI settings
-      return isGeneralAIConfigured();
-    } else if (vlmConfig.useCustom) {
-      // Using custom VLM settings
-      return !!(vlmConfig.apiKey && vlmConfig.endpoint && vlmConfig.modelName);
-    } else {
-      // Using OCR settings - check if OCR is using General AI or its own settings
-      if (settings.imageOCR.useGeneralAI) {
-        return isGeneralAIConfigured();
-      } else {
-        return !!(settings.imageOCR.apiKey && settings.imageOCR.endpoint);
-      }
-    }
-  };
+  const isVLMConfigured = () => isProviderConfigured(resolveVLMProvider(settings));
 
   // Check if OCR is configured
-  const isOCRConfigured = () => {
-    if (settings.imageOCR.useGeneralAI) {
-      return isGeneralAIConfigured();
-    } else {
-      return !!(settings.imageOCR.apiKey && settings.imageOCR.endpoint);
-    }
-  };
+  const isOCRConfigured = () => isProviderConfigured(resolveOCRProvider(settings));
 
   // Handle input method change and clear inputs
   const handleInputMethodChange = (method: InputMethod) => {
@@ -164,7 +221,9 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
     setTargetText('');
     setImage(null);
     setTranslatedImage(null);
+    setOcrResult(null);
     setError(null);
+    setIsQueued(false);
     // Stop any ongoing recording
     if (isRecording) {
       stopRecording();
@@ -202,60 +261,144 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
     }
   }, [sourceText, inputMethod]);
 
-  // Generate cache key
-  const getCacheKey = (text: string, from: LanguageCode, to: LanguageCode): string => {
-    return `${from}:${to}:${text}`;
-  };
-
-  // Check if cached translation is still valid
-  const getCachedTranslation = (text: string, from: LanguageCode, to: LanguageCode): string | null => {
-    const key = getCacheKey(text, from, to);
-    const cached = translationCacheRef.current.get(key);
-
-    if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-      return cached.result;
+  // Save a result to history
+  const recordHistory = async (entry: NewHistoryEntry) => {
+    try {
+      const last = lastHistoryEntryRef.current;
+      // Auto-translate fires on every typing pause, so fold inputs that extend
+      // (or trim) the previous one into the same entry instead of adding fragments
+      const isContinuation = !!last &&
+        !entry.thumbnail &&
+        last.mode === entry.mode &&
+        last.sourceLang === entry.sourceLang &&
+        last.targetLang === entry.targetLang &&
+        Date.now() - last.createdAt < HISTORY_MERGE_WINDOW &&
+        (entry.sourceText.startsWith(last.sourceText) || last.sourceText.startsWith(entry.sourceText));
+
+      lastHistoryEntryRef.current = isContinuation && last
+        ? await updateHistoryEntry(last.id, entry)
+        : await addHistoryEntry(entry);
+    } catch (err) {
+      console.error('[History] Failed to save entry:', err);
     }
+  };
 
-    // Remove expired cache entry
-    if (cached) {
-      translationCacheRef.current.delete(key);
+  // Create a small thumbnail for image history entries
+  const createHistoryThumbnail = async (base64Image: string): Promise<string | undefined> => {
+    try {
+      return await compressBase64Image(base64Image, { maxWidth: 240, maxHeight: 240, quality: 70 });
+    } catch (err) {
+      console.error('[History] Failed to create thumbnail:', err);
+      return undefined;
     }
-
-    return null;
   };
 
-  // Save translation to cache
-  const cacheTranslation = (text: string, from: LanguageCode, to: LanguageCode, result: string): void => {
-    const key = getCacheKey(text, from, to);
-    translationCacheRef.current.set(key, {
-      result,
-      timestamp: Date.now(),
-    });
+  // Restore a history entry into the main view
+  const handleHistorySelect = (entry: HistoryEntry) => {
+    setIsHistoryOpen(false);
 
-    // Clean up old cache entries (keep cache size manageable)
-    if (translationCacheRef.current.size > 100) {
-      const entries = Array.from(translationCacheRef.current.entries());
-      entries.sort((a, b) => a[1].timestamp - b[1].timestamp);
-      // Remove oldest 20 entries
-      for (let i = 0; i < 20; i++) {
-        translationCacheRef.current.delete(entries[i][0]);
+    // Cancel any ongoing requests so they don't overwrite the restored entry
+    for (const controllerRef of [translationAbortControllerRef, explanationAbortControllerRef, qaAbortControllerRef, imageAbortControllerRef]) {
+      if (controllerRef.current) {
+        controllerRef.current.abort();
+        controllerRef.current = null;
       }
     }
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current);
+    }
+    setIsTranslating(false);
+    setIsThinking(false);
+    setIsProcessingImage(false);
+    setError(null);
+    setIsQueued(false);
+
+    // Start a fresh history entry for anything typed after restoring
+    lastHistoryEntryRef.current = null;
+
+    if (entry.mode === 'image-ocr' || entry.mode === 'image-vlm') {
+      setInputMethod('image');
+      setTextMode('translation');
+      setUseVLMMode(entry.mode === 'image-vlm');
+      setImage(entry.thumbnail || null);
+    } else if (entry.mode === 'qa') {
+      setInputMethod('qa');
+      setTextMode('translation');
+      setImage(null);
+    } else {
+      setInputMethod('text');
+      setTextMode(entry.mode === 'explanation' ? 'explanation' : 'translation');
+      setImage(null);
+    }
+
+    setTranslatedImage(null);
+    setOcrResult(null);
+    setSourceLang(entry.sourceLang);
+    setTargetLang(entry.targetLang);
+    setSourceText(entry.sourceText);
+    setTargetText(entry.resultText);
+    setAnsweredBy(null);
+    setGlossaryMisses([]);
+    setCandidates(null);
   };
 
   // Generate furigana HTML when target text changes and target is Japanese
+  // Skipped while the text is still streaming in, so partial results are not annotated
   useEffect(() => {
-    if (targetText && targetLang === 'ja') {
+    if (targetText && targetLang === 'ja' && !isTranslating) {
+      let cancelled = false;
       // Dynamically import Japanese utilities only when needed
       import('../utils/language/japanese').then(({ addFuriganaAnnotations }) => {
         addFuriganaAnnotations(targetText).then(html => {
-          setFuriganaHtml(html);
+          if (!cancelled) {
+            setFuriganaHtml(html);
+          }
         });
       });
+      return () => {
+        cancelled = true;
+      };
     } else {
       setFuriganaHtml(null);
     }
-  }, [targetText, targetLang]);
+  }, [targetText, targetLang, isTranslating]);
+
+  // Check whether the current translation is already saved in the phrasebook
+  const canSavePhrase = inputMethod === 'text' && textMode === 'translation' && !!sourceText.trim() && !!targetText && !isTranslating;
+  useEffect(() => {
+    if (!canSavePhrase) {
+      setSavedPhrase(null);
+      return;
+    }
+
+    let cancelled = false;
+    findEntry(sourceText, targetText, sourceLang, targetLang)
+      .then((entry) => {
+        if (!cancelled) setSavedPhrase(entry);
+      })
+      .catch((error) => {
+        console.error('[Phrasebook] Failed to look up phrase:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canSavePhrase, sourceText, targetText, sourceLang, targetLang, phrasebookVersion]);
+
+  // Star a translation, or remove it from the phrasebook if already saved
+  const handleToggleSavedPhrase = async () => {
+    if (!savedPhrase) {
+      setIsSavePhraseOpen(true);
+      return;
+    }
+
+    try {
+      await deleteEntry(savedPhrase.id);
+      setSavedPhrase(null);
+    } catch (error) {
+      console.error('[Phrasebook] Failed to remove phrase:', error);
+    }
+  };
 
   // Parse markdown when targetText changes for VLM/QA/Explanation modes
   useEffect(() => {
@@ -275,6 +418,12 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
     setTargetLang(sourceLang);
     setSourceText(targetText);
     setTargetText(sourceText);
+    setAnsweredBy(null);
+    setGlossaryMisses([]);
+    setCandidates(null);
+    // Swapping picks an explicit source language
+    setAutoDetect(false);
+    setDetectedLang(null);
     // Add a little animation to the swap button
     const swapButton = document.getElementById('swap-button');
     if (swapButton) {
@@ -284,12 +433,65 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
       }, 500);
     }
   };
+  // Auto-detection only applies to typed text; speech recognition and OCR need a known source language
+  const isAutoDetect = autoDetect && inputMethod === 'text' && textMode === 'translation';
+
+  // Handle source language selection, including the Auto option
+  const handleSourceLangChange = (value: string) => {
+    if (value === AUTO_DETECT_VALUE) {
+      setAutoDetect(true);
+      setDetectedLang(null);
+      return;
+    }
+    setAutoDetect(false);
+    setDetectedLang(null);
+    setSourceLang(value as LanguageCode);
+  };
+
   // Handle translation
-  const handleTranslate = async (text: string, from: LanguageCode, to: LanguageCode) => {
+  const handleTranslate = async (text: string, from: LanguageCode, to: LanguageCode, activeSettings: AISettings = settings) => {
     if (!text.trim()) {
       setTargetText('');
       return;
     }
+    warnIfOverBudget();
+
+    // Cancel any existing translation request
+    if (translationAbortControllerRef.current) {
+      translationAbortControllerRef.current.abort();
+    }
+    // Alternatives belong to the previous text
+    candidatesAbortControllerRef.current?.abort();
+    setCandidates(null);
+
+    // Create new AbortController for this request
+    const abortController = new AbortController();
+    translationAbortControllerRef.current = abortController;
+
+    // Detect the source language for text input
+    if (isAutoDetect) {
+      let detected: LanguageCode | null = null;
+      try {
+        detected = await detectSourceLanguage(text, activeSettings, abortController.signal);
+      } catch {
+        // Cancelled by a newer request
+        return;
+      }
+      if (abortController.signal.aborted) {
+        return;
+      }
+
+      if (detected) {
+        if (detected === to) {
+          // Translate into the previous source language instead, so typing in the target language just works
+          to = from !== detected ? from : (detected === 'en' ? 'zh' : 'en');
+          setTargetLang(to);
+        }
+        from = detected;
+        setSourceLang(detected);
+      }
+      setDetectedLang(detected);
+    }
 
     // Check if source and target languages are the same
     if (from === to) {
@@ -302,32 +504,72 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
     }
 
     // Check cache first
-    const cachedResult = getCachedTranslation(text, from, to);
-    if (cachedResult) {
-      setTargetText(cachedResult);
+    const cachedResult = await getCachedTranslation(text, from, to, activeSettings);
+    if (cachedResult !== null) {
+      const misses = findGlossaryMisses(cachedResult, await findGlossaryMatches(text, from, to));
+      if (!abortController.signal.aborted) {
+        setTargetText(cachedResult);
+        setAnsweredBy(null);
+        setGlossaryMisses(misses);
+        setError(null);
+        setIsQueued(false);
+        setIsTranslating(false);
+        translationAbortControllerRef.current = null;
+        recordHistory({ mode: 'translation', sourceLang: from, targetLang: to, sourceText: text, resultText: cachedResult });
+      }
       return;
     }
 
-    // Cancel any existing translation request
-    if (translationAbortControllerRef.current) {
-      translationAbortControllerRef.current.abort();
-    }
-
-    // Create new AbortController for this request
-    const abortController = new AbortController();
-    translationAbortControllerRef.current = abortController;
-
     setIsTranslating(true);
     setError(null);
+    setIsQueued(false);
 
     try {
-      const result = await translateText(text, from, to, settings, abortController.signal);
+      let outcome: TranslationOutcome;
+
+      if (canStreamTranslation(activeSettings)) {
+        // Stream plain text output into the result box as it arrives
+        setTargetText('');
+        setIsThinking(false);
+        setAnsweredBy(null);
+        setGlossaryMisses([]);
+
+        const stream = streamTranslateText(text, from, to, activeSettings, abortController.signal);
+        let streamedText = '';
+        let step = await stream.next();
+        while (!step.done) {
+          if (abortController.signal.aborted) {
+            return;
+          }
+
+          if (step.value === THINKING_START_MARKER) {
+            setIsThinking(true);
+          } else if (step.value === THINKING_END_MARKER) {
+            setIsThinking(false);
+          } else {
+            streamedText += step.value;
+            setTargetText(streamedText);
+          }
+          step = await stream.next();
+        }
+        outcome = step.value;
+      } else {
+        outcome = await translateTextWithFailover(text, from, to, activeSettings, abortController.signal);
+      }
+
+      const { text: result, glossaryMisses: misses, ...provider } = outcome;
 
       // Only update state if this request wasn't cancelled
       if (!abortController.signal.aborted) {
         setTargetText(result);
-        // Cache the result
-        cacheTranslation(text, from, to, result);
+        setAnsweredBy(provider);
+        setGlossaryMisses(misses);
+        // Cache the result, unless it comes from the offline model or a fallback provider: the key names the
+        // primary model, which should translate the text again once it is reachable
+        if (!provider.isOffline && !provider.isFallback) {
+          cacheTranslation(text, from, to, activeSettings, result);
+        }
+        recordHistory({ mode: 'translation', sourceLang: from, targetLang: to, sourceText: text, resultText: result });
       }
     } catch (error) {
       // Don't show error if request was cancelled
@@ -335,17 +577,72 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
         console.log('[Translation] Request was cancelled');
         return;
       }
+      if (isOfflineError(error)) {
+        queueOfflineRequest({ kind: 'translation', sourceLang: from, targetLang: to, input: text });
+        setTargetText('');
+        setIsQueued(true);
+        return;
+      }
       console.error('Translation error:', error);
-      setError(error instanceof Error ? error.message : 'Translation failed');
+      showErrorToast(error, 'translation');
       setTargetText('');
     } finally {
       // Only clear loading state if this is still the active request
       if (translationAbortControllerRef.current === abortController) {
         setIsTranslating(false);
+        setIsThinking(false);
         translationAbortControllerRef.current = null;
       }
     }
   };
+  // Handle tone selection; remembered per target language and applied to the current text right away
+  const handleToneChange = (tone: TranslationTone) => {
+    const nextSettings = setTranslationTone(settings, targetLang, tone);
+    onSettingsChange(nextSettings);
+    if (sourceText.trim()) {
+      handleTranslate(sourceText, sourceLang, targetLang, nextSettings);
+    }
+  };
+
+  // Toggle alternative translations of the current text
+  const handleToggleCandidates = async () => {
+    if (candidates || isLoadingCandidates) {
+      candidatesAbortControllerRef.current?.abort();
+      setCandidates(null);
+      return;
+    }
+
+    warnIfOverBudget();
+    const abortController = new AbortController();
+    candidatesAbortControllerRef.current = abortController;
+    setIsLoadingCandidates(true);
+
+    try {
+      const result = await translateTextCandidates(sourceText, sourceLang, targetLang, settings, undefined, abortController.signal);
+      if (!abortController.signal.aborted) {
+        setCandidates(result);
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        return;
+      }
+      console.error('[Candidates] Failed to get alternative translations:', error);
+      showErrorToast(error, 'translation');
+    } finally {
+      if (candidatesAbortControllerRef.current === abortController) {
+        setIsLoadingCandidates(false);
+        candidatesAbortControllerRef.current = null;
+      }
+    }
+  };
+
+  // Use an alternative as the translation; it replaces the cached result for this text
+  const handleSelectCandidate = async (candidate: TranslationCandidate) => {
+    setTargetText(candidate.text);
+    cacheTranslation(sourceText, sourceLang, targetLang, settings, candidate.text);
+    setGlossaryMisses(findGlossaryMisses(candidate.text, await findGlossaryMatches(sourceText, sourceLang, targetLang)));
+  };
+
   // Handle explanation (word/sentence/grammar)
   const handleWordExplanation = async (word: string, wordLang: LanguageCode, explanationLang: LanguageCode) => {
     if (!word.trim()) {
@@ -364,7 +661,7 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
     }
 
     // Check if general AI is configured
-    if (!isGeneralAIConfigured()) {
+    if (!isGeneralAIConfigured('explanation')) {
       toast({
         variant: "destructive",
         title: "General AI Service Required",
@@ -380,6 +677,7 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
       });
       return;
     }
+    warnIfOverBudget();
 
     // Cancel any existing explanation request
     if (explanationAbortControllerRef.current) {
@@ -392,6 +690,7 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
 
     setIsTranslating(true);
     setError(null);
+    setIsQueued(false);
     setTargetText('');
     setIsThinking(false);
 
@@ -416,14 +715,24 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
         streamedText += chunk;
         setTargetText(streamedText);
       }
+
+      if (!abortController.signal.aborted && streamedText.trim()) {
+        recordHistory({ mode: 'explanation', sourceLang: wordLang, targetLang: explanationLang, sourceText: word, resultText: streamedText });
+      }
     } catch (error) {
       // Don't show error if request was cancelled
       if (error instanceof Error && error.name === 'AbortError') {
         console.log('[Explanation] Request was cancelled');
         return;
       }
+      if (isOfflineError(error)) {
+        queueOfflineRequest({ kind: 'explanation', sourceLang: wordLang, targetLang: explanationLang, input: word });
+        setTargetText('');
+        setIsQueued(true);
+        return;
+      }
       console.error('Explanation error:', error);
-      setError(error instanceof Error ? error.message : 'Explanation failed');
+      showErrorToast(error, 'explanation');
       setTargetText('');
     } finally {
       // Only clear loading state if this is still the active request
@@ -453,7 +762,7 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
     }
 
     // Check if general AI is configured
-    if (!isGeneralAIConfigured()) {
+    if (!isGeneralAIConfigured('qa')) {
       toast({
         variant: "destructive",
         title: "General AI Service Required",
@@ -469,6 +778,7 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
       });
       return;
     }
+    warnIfOverBudget();
 
     // Cancel any existing Q/A request
     if (qaAbortControllerRef.current) {
@@ -481,6 +791,7 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
 
     setIsTranslating(true);
     setError(null);
+    setIsQueued(false);
     setTargetText('');
     setIsThinking(false);
 
@@ -505,6 +816,10 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
         streamedText += chunk;
         setTargetText(streamedText);
       }
+
+      if (!abortController.signal.aborted && streamedText.trim()) {
+        recordHistory({ mode: 'qa', sourceLang: questionLang, targetLang: answerLang, sourceText: question, resultText: streamedText });
+      }
     } catch (error) {
       // Don't show error if request was cancelled
       if (error instanceof Error && error.name === 'AbortError') {
@@ -512,7 +827,7 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
         return;
       }
       console.error('Q/A error:', error);
-      setError(error instanceof Error ? error.message : 'Q/A failed');
+      showErrorToast(error, 'qa');
       setTargetText('');
     } finally {
       // Only clear loading state if this is still the active request
@@ -563,6 +878,7 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
     setSourceText('');
     setTargetText('');
     setError(null);
+    setIsQueued(false);
 
     setIsRecording(true);
     setInterimTranscript('');
@@ -613,7 +929,7 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
             },
             onError: (error: Error) => {
               console.error('[Realtime] Error:', error);
-              setError(error.message);
+              showErrorToast(error, 'speech');
             },
           });
 
@@ -665,7 +981,7 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
               }
             } catch (err) {
               console.error('Transcription error:', err);
-              setError(err instanceof Error ? err.message : 'Transcription failed');
+              showErrorToast(err, 'speech');
             }
 
             // Stop all tracks
@@ -802,6 +1118,8 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
       return;
     }
 
+    warnIfOverBudget();
+
     // Cancel any existing image processing request
     if (imageAbortControllerRef.current) {
       imageAbortControllerRef.current.abort();
@@ -814,6 +1132,7 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
     try {
       setIsProcessingImage(true);
       setError(null);
+      setIsQueued(false);
       setImage(base64Image);
 
       // VLM Mode: Direct translation without OCR (with streaming)
@@ -844,6 +1163,7 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
         setSourceText(''); // No source text in VLM mode
         setTargetText(''); // Clear target text before streaming
         setTranslatedImage(null); // No translated image in VLM mode
+        setOcrResult(null);
 
         let streamedText = '';
 
@@ -858,6 +1178,17 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
             setTargetText(streamedText);
           }
           console.log('[Image VLM] VLM translation completed');
+
+          if (!abortController.signal.aborted && streamedText.trim()) {
+            recordHistory({
+              mode: 'image-vlm',
+              sourceLang,
+              targetLang,
+              sourceText: '',
+              resultText: streamedText,
+              thumbnail: await createHistoryThumbnail(base64Image),
+            });
+          }
         } catch (err) {
           // Don't show error if request was cancelled
           if (err instanceof Error && err.name === 'AbortError') {
@@ -865,7 +1196,8 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
             return;
           }
           console.error('[Image VLM] Streaming error:', err);
-          setError(err instanceof Error ? err.message : 'VLM translation failed');
+          setError(describeError(err, 'vlm').description);
+          showErrorToast(err, 'vlm');
         } finally {
           // Only clear loading state if this is still the active request
           if (imageAbortControllerRef.current === abortController) {
@@ -878,12 +1210,12 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
         return;
       }
 
-      // OCR Mode: OCR + Canvas overlay
+      // OCR Mode: OCR + translated overlay
       console.log('[Image OCR] Starting OCR process...');
       console.log('[Image OCR] Image size:', base64Image.length, 'bytes');
 
       // Perform OCR
-      const ocrTexts = await performOCR(base64Image, settings.imageOCR);
+      const ocrTexts = await performOCR(base64Image, settings);
 
       // Check if request was cancelled after OCR
       if (abortController.signal.aborted) {
@@ -899,12 +1231,16 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
         rotate_rect: ocr.rotate_rect,
       })));
 
-      // Batch translate all detected texts
-      console.log('[Image Translation] Starting batch translation for', ocrTexts.length, 'texts');
+      // Group lines into paragraphs and columns, so sentences that wrap are translated as a whole
+      const blocks = groupTextLines(ocrTexts, sourceLang);
+      console.log('[Image OCR] Grouped', ocrTexts.length, 'lines into', blocks.length, 'blocks');
+
+      // Batch translate all text blocks
+      console.log('[Image Translation] Starting batch translation for', blocks.length, 'texts');
       const translations = await Promise.all(
-        ocrTexts.map(async (ocr, idx) => {
-          console.log(`[Image Translation] Translating text ${idx + 1}/${ocrTexts.length}: "${ocr.text}"`);
-          const result = await translateText(ocr.text, sourceLang, targetLang, settings, abortController.signal);
+        blocks.map(async (block, idx) => {
+          console.log(`[Image Translation] Translating text ${idx + 1}/${blocks.length}: "${block.text}"`);
+          const result = await translateTextCached(block.text, sourceLang, targetLang, settings, abortController.signal);
           console.log(`[Image Translation] Result ${idx + 1}: "${result}"`);
           return result;
         })
@@ -918,341 +1254,81 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
 
       console.log('[Image Translation] All translations completed');
 
-      // Create canvas for image overlay
-      console.log('[Canvas] Creating canvas for image overlay');
-      const img = new Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        canvas.width = img.width;
-        canvas.height = img.height;
-        console.log('[Canvas] Canvas size:', canvas.width, 'x', canvas.height);
-        const ctx = canvas.getContext('2d');
-
-        if (ctx) {
-          // Draw original image
-          console.log('[Canvas] Drawing original image');
-          ctx.drawImage(img, 0, 0);
-
-          // Overlay translated text
-          ctx.textBaseline = 'middle';
-          console.log('[Canvas] Starting text overlay for', translations.length, 'translations');
-
-          // Track occupied rectangles to avoid overlapping
-          const occupiedRects: Array<{ x: number; y: number; width: number; height: number }> = [];
-
-          // Helper function to check if two rectangles overlap
-          const checkOverlap = (
-            rect1: { x: number; y: number; width: number; height: number },
-            rect2: { x: number; y: number; width: number; height: number }
-          ): boolean => {
-            return !(
-              rect1.x + rect1.width < rect2.x ||
-              rect2.x + rect2.width < rect1.x ||
-              rect1.y + rect1.height < rect2.y ||
-              rect2.y + rect2.height < rect1.y
-            );
-          };
-
-          // Helper function to adjust position to avoid overlap
-          const adjustPosition = (
-            cx: number,
-            cy: number,
-            width: number,
-            height: number,
-            fontSize: number,
-            minFontSize: number
-          ): { cx: number; cy: number; fontSize: number; width: number; height: number } => {
-            let adjusted = { cx, cy, fontSize, width, height };
-            let attempts = 0;
-            const maxAttempts = 20;
-
-            while (attempts < maxAttempts) {
-              const currentRect = {
-                x: adjusted.cx - adjusted.width / 2,
-                y: adjusted.cy - adjusted.height / 2,
-                width: adjusted.width,
-                height: adjusted.height
-              };
-
-              // Check if current position overlaps with any occupied rect
-              const hasOverlap = occupiedRects.some(occupied => checkOverlap(currentRect, occupied));
-
-              if (!hasOverlap) {
-                return adjusted;
-              }
-
-              // First try to reduce font size (down to 90% of current, but not below minimum)
-              if (attempts < 5 && adjusted.fontSize > minFontSize * 1.2) {
-                const newFontSize = Math.max(minFontSize, adjusted.fontSize * 0.9);
-                const scale = newFontSize / adjusted.fontSize;
-                adjusted = {
-                  cx: adjusted.cx,
-                  cy: adjusted.cy,
-                  fontSize: newFontSize,
-                  width: adjusted.width * scale,
-                  height: adjusted.height * scale
-                };
-                attempts++;
-                continue;
-              }
-
-              // Then try moving in different directions
-              const offset = 10 * (attempts - 4);
-              const directions = [
-                { dx: 0, dy: -offset }, // up
-                { dx: 0, dy: offset },  // down
-                { dx: -offset, dy: 0 }, // left
-                { dx: offset, dy: 0 },  // right
-                { dx: -offset, dy: -offset }, // up-left
-                { dx: offset, dy: -offset },  // up-right
-                { dx: -offset, dy: offset },  // down-left
-                { dx: offset, dy: offset },   // down-right
-              ];
-
-              for (const dir of directions) {
-                const testPos = {
-                  cx: cx + dir.dx,
-                  cy: cy + dir.dy,
-                  fontSize: adjusted.fontSize,
-                  width: adjusted.width,
-                  height: adjusted.height
-                };
-                const testRect = {
-                  x: testPos.cx - testPos.width / 2,
-                  y: testPos.cy - testPos.height / 2,
-                  width: testPos.width,
-                  height: testPos.height
-                };
-
-                if (!occupiedRects.some(occupied => checkOverlap(testRect, occupied))) {
-                  adjusted = testPos;
-                  return adjusted;
-                }
-              }
-
-              attempts++;
-            }
-
-            // If couldn't find non-overlapping position, return original
-            return { cx, cy, fontSize, width, height };
-          };
-
-          translations.forEach((translatedText, index) => {
-            const ocr = ocrTexts[index];
-
-            // Skip if no location or rotate_rect data
-            if (!ocr.rotate_rect || ocr.rotate_rect.length !== 5) {
-              console.log(`[Canvas] Skipping text ${index + 1}: missing rotate_rect data`);
-              return;
-            }
-
-            const [cx, cy, width, height, angle] = ocr.rotate_rect;
-
-            // Validate dimensions
-            if (!cx || !cy || !width || !height || width <= 0 || height <= 0) {
-              console.log(`[Canvas] Skipping text ${index + 1}: invalid dimensions`, { cx, cy, width, height });
-              return;
-            }
-
-            try {
-              ctx.save();
-
-              // Split text by newlines if present
-              const lines = translatedText.split('\n');
-
-              // Calculate appropriate font size
-              const minFontSize = 12;
-              const maxFontSize = 48;
-              const baseFontSize = Math.min(width, height) * 0.5;
-              const fontSize = Math.max(minFontSize, Math.min(baseFontSize / lines.length, maxFontSize));
-
-              ctx.font = `${fontSize}px Arial`;
-
-              // Function to wrap text within width
-              const wrapText = (text: string, maxWidth: number): string[] => {
-                const words = text.split('');
-                const wrappedLines: string[] = [];
-                let currentLine = '';
-
-                for (const char of words) {
-                  const testLine = currentLine + char;
-                  const metrics = ctx.measureText(testLine);
-
-                  if (metrics.width > maxWidth && currentLine.length > 0) {
-                    wrappedLines.push(currentLine);
-                    currentLine = char;
-                  } else {
-                    currentLine = testLine;
-                  }
-                }
-                if (currentLine) {
-                  wrappedLines.push(currentLine);
-                }
-                return wrappedLines;
-              };
-
-              // Process all lines and wrap if needed
-              const maxWidth = width * 0.9;
-              const maxHeight = height * 0.9;
-              const allWrappedLines: string[] = [];
-
-              for (const line of lines) {
-                const wrapped = wrapText(line, maxWidth);
-                allWrappedLines.push(...wrapped);
-              }
-
-              // Calculate required dimensions
-              const lineHeight = fontSize * 1.3;
-              const totalHeight = allWrappedLines.length * lineHeight;
-              const maxTextWidth = Math.max(...allWrappedLines.map(line => ctx.measureText(line).width));
-
-              // Expand rect if needed to fit text at minimum readable size
-              let finalWidth = width;
-              let finalHeight = height;
-
-              if (totalHeight > maxHeight || maxTextWidth > maxWidth) {
-                const requiredWidth = maxTextWidth / 0.9;
-                const requiredHeight = totalHeight / 0.9;
-
-                finalWidth = Math.max(width, requiredWidth);
-                finalHeight = Math.max(height, requiredHeight);
-              }
-
-              // Adjust position to avoid overlap (only adjust if angle is 0 or close to it)
-              let adjustedCx = cx;
-              let adjustedCy = cy;
-              let adjustedFontSize = fontSize;
-              let adjustedWidth = finalWidth;
-              let adjustedHeight = finalHeight;
-
-              if (Math.abs(angle || 0) < 5) {
-                const adjusted = adjustPosition(cx, cy, finalWidth, finalHeight, fontSize, minFontSize);
-                adjustedCx = adjusted.cx;
-                adjustedCy = adjusted.cy;
-                adjustedFontSize = adjusted.fontSize;
-                adjustedWidth = adjusted.width;
-                adjustedHeight = adjusted.height;
-
-                // If font size was adjusted, recalculate text wrapping
-                if (adjustedFontSize !== fontSize) {
-                  ctx.font = `${adjustedFontSize}px Arial`;
-
-                  // Recalculate wrapping with new font size
-                  const newMaxWidth = adjustedWidth * 0.9;
-                  const newAllWrappedLines: string[] = [];
-
-                  for (const line of lines) {
-                    const wrapped = wrapText(line, newMaxWidth);
-                    newAllWrappedLines.push(...wrapped);
-                  }
-
-                  // Update line height and total height
-                  const newLineHeight = adjustedFontSize * 1.3;
-                  const newTotalHeight = newAllWrappedLines.length * newLineHeight;
-
-                  // Update height if needed
-                  if (newTotalHeight > adjustedHeight * 0.9) {
-                    adjustedHeight = newTotalHeight / 0.9;
-                  }
-
-                  // Replace wrapped lines
-                  allWrappedLines.length = 0;
-                  allWrappedLines.push(...newAllWrappedLines);
-                }
-              }
-
-              console.log(`[Canvas] Drawing text ${index + 1}:`, {
-                original: ocr.text,
-                translated: translatedText,
-                originalPos: [cx, cy],
-                adjustedPos: [adjustedCx, adjustedCy],
-                size: [adjustedWidth, adjustedHeight],
-                fontSize: adjustedFontSize,
-                angle: angle || 0,
-              });
-
-              // Move to adjusted center and rotate
-              ctx.translate(adjustedCx, adjustedCy);
-              ctx.rotate(((angle || 0) * Math.PI) / 180);
-
-              // Set font size (use adjusted if it was changed)
-              ctx.font = `${adjustedFontSize}px Arial`;
-
-              // Calculate line height with adjusted font size
-              const adjustedLineHeight = adjustedFontSize * 1.3;
-
-              // Fill background with semi-transparent white
-              ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
-              ctx.fillRect(-adjustedWidth / 2, -adjustedHeight / 2, adjustedWidth, adjustedHeight);
-
-              // Draw text lines
-              ctx.fillStyle = '#000000';
-              ctx.textAlign = 'center';
-              ctx.textBaseline = 'middle';
-
-              const startY = -(allWrappedLines.length - 1) * adjustedLineHeight / 2;
-
-              allWrappedLines.forEach((line, i) => {
-                ctx.fillText(line, 0, startY + i * adjustedLineHeight);
-              });
-
-              // Add to occupied rects
-              occupiedRects.push({
-                x: adjustedCx - adjustedWidth / 2,
-                y: adjustedCy - adjustedHeight / 2,
-                width: adjustedWidth,
-                height: adjustedHeight
-              });
-
-              ctx.restore();
-            } catch (err) {
-              console.error(`[Canvas] Error drawing text ${index + 1}:`, err);
-              ctx.restore();
-            }
-          });
-
-          // Set translated image
-          const translatedImageUrl = canvas.toDataURL();
-          console.log('[Canvas] Canvas rendered, image size:', translatedImageUrl.length, 'bytes');
-          setTranslatedImage(translatedImageUrl);
-
-          // Set as source text (join all original texts)
-          const allText = ocrTexts.map(o => o.text).join('\n');
-          setSourceText(allText);
-          console.log('[Image OCR] Source text set:', allText);
+      // Render the flattened image (erased text, translations drawn in place) off the main thread; the
+      // interactive overlay works without it, so a failure here only costs the full-screen view
+      let translatedImageUrl: string | null = null;
+      let blockColors: (RegionColors | null)[] = blocks.map(() => null);
+      try {
+        const rendered = await renderTranslatedImage(
+          { image: base64Image, lines: ocrTexts, blocks, translations, targetLang },
+          abortController.signal
+        );
+        translatedImageUrl = rendered.imageUrl;
+        blockColors = rendered.colors;
+        console.log('[Overlay] Image rendered, image size:', translatedImageUrl.length, 'bytes');
+      } catch (err) {
+        if (abortController.signal.aborted) {
+          console.log('[Overlay] Request was cancelled during rendering');
+          return;
+        }
+        console.warn('[Overlay] Failed to render the translated image:', err);
+      }
 
-          // Set as target text (join all translations)
-          const allTranslations = translations.join('\n');
-          setTargetText(allTranslations);
-          console.log('[Image Translation] Target text set:', allTranslations);
+      setTranslatedImage(translatedImageUrl);
+      setOcrResult({
+        image: base64Image,
+        blocks,
+        translations,
+        colors: blockColors,
+        sourceLang,
+        targetLang,
+      });
 
-          // Keep original image in input area, show translated in output
-          // Only clear loading state if this is still the active request
-          if (imageAbortControllerRef.current === abortController) {
-            setIsProcessingImage(false);
-            imageAbortControllerRef.current = null;
-          }
-          console.log('[Image Processing] Complete!');
-        }
-      };
-      img.onerror = (err) => {
-        console.error('[Canvas] Failed to load image:', err);
-        setError('Failed to load image for processing');
-        // Only clear loading state if this is still the active request
-        if (imageAbortControllerRef.current === abortController) {
-          setIsProcessingImage(false);
-          imageAbortControllerRef.current = null;
-        }
-      };
-      img.src = base64Image;
+      // Set as source text (join all original texts)
+      const allText = blocks.map(block => block.text).join('\n');
+      setSourceText(allText);
+      console.log('[Image OCR] Source text set:', allText);
+
+      // Set as target text (join all translations)
+      const allTranslations = translations.join('\n');
+      setTargetText(allTranslations);
+      console.log('[Image Translation] Target text set:', allTranslations);
+
+      createHistoryThumbnail(base64Image).then(thumbnail => recordHistory({
+        mode: 'image-ocr',
+        sourceLang,
+        targetLang,
+        sourceText: allText,
+        resultText: allTranslations,
+        thumbnail,
+      }));
+
+      // Keep original image in input area, show translated in output
+      // Only clear loading state if this is still the active request
+      if (imageAbortControllerRef.current === abortController) {
+        setIsProcessingImage(false);
+        imageAbortControllerRef.current = null;
+      }
+      console.log('[Image Processing] Complete!');
     } catch (err) {
       // Don't show error if request was cancelled
       if (err instanceof Error && err.name === 'AbortError') {
         console.log('[Image Processing] Request was cancelled');
         return;
       }
+      // Keep the photo on screen and run OCR once the connection is back
+      if (isOfflineError(err)) {
+        queueOfflineRequest({ kind: 'image-ocr', sourceLang, targetLang, input: base64Image });
+        setIsQueued(true);
+        if (imageAbortControllerRef.current === abortController) {
+          setIsProcessingImage(false);
+          imageAbortControllerRef.current = null;
+        }
+        return;
+      }
       console.error('[Image Processing] Error:', err);
-      setError(err instanceof Error ? err.message : 'OCR failed');
+      setError(describeError(err, 'ocr').description);
+      showErrorToast(err, 'ocr');
       setImage(null);
       // Only clear loading state if this is still the active request
       if (imageAbortControllerRef.current === abortController) {
@@ -1356,13 +1432,53 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
           <img src="/icons/buddy.png" alt="tabitomo" className="h-8 w-8" />
           <h1 className="text-lg font-bold">tabitomo</h1>
         </div>
-        <button
-          onClick={() => onOpenSettings()}
-          className="p-2 text-white/80 hover:text-white hover:bg-indigo-600 rounded-lg transition-all duration-200 btn-pop"
-          title="Settings"
-        >
-          <Settings className="w-5 h-5" />
-        </button>
+        <div className="flex items-center space-x-1">
+          {settings.profiles?.length > 0 && (
+            <Select
+              value={settings.activeProfileId || DEFAULT_PROFILE_VALUE}
+              onValueChange={(value) => onSettingsChange({ ...settings, activeProfileId: value === DEFAULT_PROFILE_VALUE ? '' : value })}
+            >
+              <SelectTrigger className="h-8 w-28 text-xs text-gray-800 dark:text-white" title="Provider profile">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_PROFILE_VALUE}>General AI</SelectItem>
+                {settings.profiles.map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>{profile.name || 'Untitled'}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <button
+            onClick={() => {
+              lastHistoryEntryRef.current = null;
+              setIsHistoryOpen(true);
+            }}
+            className="relative p-2 text-white/80 hover:text-white hover:bg-indigo-600 rounded-lg transition-all duration-200 btn-pop"
+            title={pendingCount > 0 ? `History (${pendingCount} pending until back online)` : 'History'}
+          >
+            <History className="w-5 h-5" />
+            {pendingCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-[1rem] h-4 px-1 flex items-center justify-center text-[10px] font-bold text-white bg-amber-500 rounded-full">
+                {pendingCount}
+              </span>
+            )}
+          </button>
+          <button
+            onClick={() => setIsPhrasebookOpen(true)}
+            className="p-2 text-white/80 hover:text-white hover:bg-indigo-600 rounded-lg transition-all duration-200 btn-pop"
+            title="Phrasebook"
+          >
+            <BookMarked className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => onOpenSettings()}
+            className="p-2 text-white/80 hover:text-white hover:bg-indigo-600 rounded-lg transition-all duration-200 btn-pop"
+            title="Settings"
+          >
+            <Settings className="w-5 h-5" />
+          </button>
+        </div>
       </div>
       {/* Language Selection */}
       <div className="flex items-center justify-between p-3 bg-indigo-50 dark:bg-gray-700">
@@ -1386,12 +1502,15 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
         ) : (
           // For translation and image: Show source and target
           <>
-            <div className="flex-1">
-              <Select value={sourceLang} onValueChange={(value) => setSourceLang(value as LanguageCode)}>
+            <div className="flex-1 relative">
+              <Select value={isAutoDetect ? AUTO_DETECT_VALUE : sourceLang} onValueChange={handleSourceLangChange}>
                 <SelectTrigger className="w-full text-sm">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
+                  {inputMethod === 'text' && (
+                    <SelectItem value={AUTO_DETECT_VALUE}>Auto Detect</SelectItem>
+                  )}
                   {languageOptions.map(lang => (
                     <SelectItem key={`source-${lang.value}`} value={lang.value}>
                       {lang.label}
@@ -1399,6 +1518,12 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
                   ))}
                 </SelectContent>
               </Select>
+              {/* Detected language chip */}
+              {isAutoDetect && detectedLang && (
+                <span className="absolute -bottom-2.5 left-3 px-2 py-0.5 text-[10px] font-semibold text-white bg-indigo-500 rounded-full shadow-sm">
+                  {SUPPORTED_LANGUAGES[detectedLang]} detected
+                </span>
+              )}
             </div>
             <button id="swap-button" onClick={handleSwapLanguages} className="mx-2 p-2 bg-white dark:bg-gray-600 rounded-full shadow-md btn-pop">
               <ArrowUpDown className="h-4 w-4 text-indigo-500 dark:text-white" />
@@ -1442,6 +1567,7 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
                         onClick={() => {
                           setImage(null);
                           setTranslatedImage(null);
+                          setOcrResult(null);
                           setSourceText('');
                           setTargetText('');
                         }}
@@ -1503,7 +1629,7 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
                 )}
               </div> : <div className="relative">
                 {/* Check if Q/A requires General AI and show warning if not configured */}
-                {(inputMethod === 'qa' || (inputMethod === 'text' && textMode === 'explanation')) && !isGeneralAIConfigured() ? (
+                {(inputMethod === 'qa' || (inputMethod === 'text' && textMode === 'explanation')) && !isGeneralAIConfigured(inputMethod === 'qa' ? 'qa' : 'explanation') ? (
                   <div className="w-full min-h-[8rem] rounded-2xl border border-indigo-100 dark:border-gray-600 bg-indigo-500/10 dark:bg-indigo-500/20 overflow-hidden static-shadow flex flex-col items-center justify-center p-4">
                     <Settings className="h-8 w-8 text-indigo-600 dark:text-indigo-400 mb-2" />
                     <p className="text-indigo-800 dark:text-indigo-200 text-center text-xs font-medium mb-3">
@@ -1529,6 +1655,8 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
                         ? 'Ask a question (e.g., "How to ask for the check?")'
                         : textMode === 'explanation'
                         ? 'Enter text to explain (word/sentence/grammar)...'
+                        : isAutoDetect
+                        ? 'Type in any language...'
                         : `Type in ${languageOptions.find(l => l.value === sourceLang)?.label}...`
                       }
                       className="w-full min-h-[8rem] max-h-[12.5rem] p-3 pr-12 rounded-2xl border-2 border-indigo-100 dark:border-gray-600 focus:outline-none focus:border-indigo-300 dark:focus:border-indigo-400 dark:bg-gray-700 dark:text-gray-100 resize-none cute-shadow overflow-y-auto custom-scrollbar"
@@ -1571,6 +1699,15 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
               <button onClick={() => handleInputMethodChange('qa')} className={`p-2 rounded-xl ${inputMethod === 'qa' ? 'bg-indigo-500 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400'} btn-pop`} title="Quick Q&A">
                 <MessageCircle className="h-4 w-4" />
               </button>
+              <button onClick={() => setIsConversationOpen(true)} className="p-2 rounded-xl bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400 btn-pop" title="Conversation">
+                <Users className="h-4 w-4" />
+              </button>
+              <button onClick={() => setIsSubtitlesOpen(true)} className="p-2 rounded-xl bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400 btn-pop" title="Live subtitles">
+                <Captions className="h-4 w-4" />
+              </button>
+              <button onClick={() => setIsDocumentOpen(true)} className="p-2 rounded-xl bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400 btn-pop" title="Translate document">
+                <FileText className="h-4 w-4" />
+              </button>
             </div>
             {/* Translation Result */}
             <div className="mt-4">
@@ -1583,6 +1720,18 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
                     : `${languageOptions.find(l => l.value === targetLang)?.label} Translation`}
                 </h3>
                 <div className="flex items-center space-x-2">
+                  {inputMethod === 'text' && textMode === 'translation' && (
+                    <Select value={getTranslationTone(settings, targetLang)} onValueChange={(value) => handleToneChange(value as TranslationTone)}>
+                      <SelectTrigger className="h-7 w-28 text-xs" title="Tone">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {getAvailableTones(targetLang).map(tone => (
+                          <SelectItem key={tone} value={tone}>{getToneLabel(tone, targetLang)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                   {inputMethod === 'text' && (
                     <button
                       onClick={() => {
@@ -1625,6 +1774,7 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
                         // Clear output when changing mode
                         setTargetText('');
                         setTranslatedImage(null);
+                        setOcrResult(null);
                         // Cancel any ongoing request
                         if (imageAbortControllerRef.current) {
                           imageAbortControllerRef.current.abort();
@@ -1647,6 +1797,28 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
                   )}
                   {targetText && (
                     <div className="flex space-x-2">
+                    {inputMethod === 'text' && textMode === 'translation' && !isTranslating && canTranslateCandidates(settings) && (
+                      <button
+                        onClick={handleToggleCandidates}
+                        className={`p-1.5 rounded-lg transition-colors btn-pop ${
+                          candidates || isLoadingCandidates
+                            ? 'bg-indigo-500 text-white'
+                            : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 hover:text-indigo-600 dark:hover:text-indigo-400'
+                        }`}
+                        title={candidates ? 'Hide alternatives' : 'Show alternatives with back-translation'}
+                      >
+                        <ListChecks className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                    {canSavePhrase && (
+                      <button
+                        onClick={handleToggleSavedPhrase}
+                        className="p-1.5 bg-gray-100 dark:bg-gray-700 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors btn-pop"
+                        title={savedPhrase ? 'Remove from phrasebook' : 'Save to phrasebook'}
+                      >
+                        <Star className={`h-3.5 w-3.5 ${savedPhrase ? 'fill-amber-400 text-amber-400' : ''}`} />
+                      </button>
+                    )}
                     <button
                       onClick={() => speakText(targetText, targetLang)}
                       className="p-1.5 bg-gray-100 dark:bg-gray-700 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors btn-pop"
@@ -1680,15 +1852,21 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
                     </div>
                   </div> : error ? <p className="text-red-500 dark:text-red-400 text-center py-6 text-sm min-h-[7rem] flex items-center justify-center">
                     {error}
-                  </p> : translatedImage && !useVLMMode ? (
-                    <div className="w-full">
-                      <img
-                        src={translatedImage}
-                        alt="Translated"
-                        className="w-full rounded cursor-pointer"
-                        onClick={() => setIsLightboxOpen(true)}
-                      />
-                    </div>
+                  </p> : isQueued ? <p className="text-amber-600 dark:text-amber-400 text-center py-6 text-sm min-h-[7rem] flex items-center justify-center gap-2">
+                    <Clock className="w-4 h-4 flex-shrink-0" />
+                    Pending · runs when you're back online, and the result is saved in History
+                  </p> : ocrResult && !useVLMMode ? (
+                    <OCROverlay
+                      image={ocrResult.image}
+                      blocks={ocrResult.blocks}
+                      translations={ocrResult.translations}
+                      colors={ocrResult.colors}
+                      sourceLang={ocrResult.sourceLang}
+                      targetLang={ocrResult.targetLang}
+                      settings={settings}
+                      onOpenSettings={onOpenSettings}
+                      onOpenImage={translatedImage ? () => setIsLightboxOpen(true) : undefined}
+                    />
                   ) : targetText ? (
                     <div className="w-full">
                       {/* Thinking indicator */}
@@ -1718,6 +1896,34 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
                           {targetText}
                         </p>
                       )}
+                      {/* Provider that answered */}
+                      {answeredBy && inputMethod === 'text' && textMode === 'translation' && !isTranslating && (
+                        <p
+                          className={`mt-2 text-xs ${answeredBy.isFallback ? 'text-amber-600 dark:text-amber-400' : 'text-gray-400 dark:text-gray-500'}`}
+                          title={answeredBy.isFallback ? 'The primary provider was unavailable' : undefined}
+                        >
+                          via {answeredBy.providerName} · {answeredBy.modelName}
+                        </p>
+                      )}
+                      {/* Glossary terms the translation did not use */}
+                      {glossaryMisses.length > 0 && inputMethod === 'text' && textMode === 'translation' && !isTranslating && (
+                        <p className="mt-2 flex items-start gap-1.5 text-xs text-amber-600 dark:text-amber-400">
+                          <AlertTriangle className="w-3.5 h-3.5 mt-px flex-shrink-0" />
+                          <span>
+                            Glossary not followed: {glossaryMisses.map(entry => `${entry.sourceTerm} → ${entry.targetTerm}`).join(', ')}
+                          </span>
+                        </p>
+                      )}
+                      {/* Alternative translations */}
+                      {inputMethod === 'text' && textMode === 'translation' && !isTranslating && (
+                        isLoadingCandidates ? (
+                          <div className="flex items-center justify-center py-4">
+                            <div className="animate-spin h-5 w-5 border-2 border-indigo-500 border-t-transparent rounded-full"></div>
+                          </div>
+                        ) : candidates && (
+                          <TranslationCandidates candidates={candidates} selectedText={targetText} onSelect={handleSelectCandidate} />
+                        )
+                      )}
                     </div>
                   ) : <p className="text-gray-400 dark:text-gray-500 text-center py-6 min-h-[7rem] flex items-center justify-center">
                     {inputMethod === 'qa'
@@ -1740,6 +1946,78 @@ export const TranslationTool: React.FC<TranslationToolProps> = ({ settings, onOp
         />
       </Suspense>
 
+      {/* History Panel - Lazy Loaded */}
+      <Suspense fallback={null}>
+        <HistoryPanel
+          isOpen={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          onSelect={handleHistorySelect}
+        />
+      </Suspense>
+
+      {/* Phrasebook - Lazy Loaded */}
+      <Suspense fallback={null}>
+        <PhrasebookPanel
+          isOpen={isPhrasebookOpen}
+          onClose={() => setIsPhrasebookOpen(false)}
+          onChange={() => setPhrasebookVersion(version => version + 1)}
+        />
+      </Suspense>
+      <Suspense fallback={null}>
+        <SavePhraseDialog
+          isOpen={isSavePhraseOpen}
+          phrase={canSavePhrase ? {
+            sourceLang,
+            targetLang,
+            sourceText,
+            translatedText: targetText,
+            furiganaHtml: furiganaHtml || undefined,
+          } : null}
+          onClose={() => setIsSavePhraseOpen(false)}
+          onSaved={setSavedPhrase}
+        />
+      </Suspense>
+
+      {/* Conversation - Lazy Loaded, mounted on first open so it picks up the current languages */}
+      {isConversationOpen && (
+        <Suspense fallback={null}>
+          <ConversationPanel
+            isOpen={isConversationOpen}
+            onClose={() => setIsConversationOpen(false)}
+            settings={settings}
+            initialSelfLang={sourceLang}
+            initialPartnerLang={targetLang}
+          />
+        </Suspense>
+      )}
+
+      {/* Live Subtitles - Lazy Loaded */}
+      {isSubtitlesOpen && (
+        <Suspense fallback={null}>
+          <LiveSubtitlesPanel
+            isOpen={isSubtitlesOpen}
+            onClose={() => setIsSubtitlesOpen(false)}
+            onOpenSettings={onOpenSettings}
+            settings={settings}
+            initialSourceLang={sourceLang}
+            initialTargetLang={targetLang}
+          />
+        </Suspense>
+      )}
+
+      {/* Document Panel - Lazy Loaded */}
+      {isDocumentOpen && (
+        <Suspense fallback={null}>
+          <DocumentPanel
+            isOpen={isDocumentOpen}
+            onClose={() => setIsDocumentOpen(false)}
+            settings={settings}
+            initialSourceLang={sourceLang}
+            initialTargetLang={targetLang}
+          />
+        </Suspense>
+      )}
+
       {/* Image Lightbox */}
       <ImageLightbox
         isOpen={isLightboxOpen}
@@ -0,0 +1,299 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Trash2, X } from 'lucide-react';
+import { AISettings, DEFAULT_CURRENCY, type ModelPrice, type UsageSettings } from '../utils/config/settings';
+import {
+  listUsage,
+  clearUsage,
+  summarizeUsage,
+  groupUsage,
+  formatCost,
+  getStartOfDay,
+  getStartOfMonth,
+  type UsageRecord,
+  type UsageTotals,
+} from '../utils/usage/usage';
+import { PROFILE_FEATURES } from '../utils/config/profiles';
+import { ConfirmDialog } from './ConfirmDialog';
+import { toast } from './ui/use-toast';
+
+interface UsagePanelProps {
+  settings: AISettings;
+  onChange: (settings: AISettings) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 text-sm rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-800 dark:text-white focus:border-indigo-500 focus:outline-none transition-colors';
+
+const FEATURE_LABELS: Record<string, string> = {
+  ...Object.fromEntries(PROFILE_FEATURES.map(({ feature, label }) => [feature, label])),
+  detection: 'Language detection',
+};
+
+/**
+ * Format a token count compactly, e.g. 12.3k or 1.2M
+ */
+const formatTokens = (tokens: number): string => {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+  }
+  if (tokens >= 1_000) {
+    return `${(tokens / 1_000).toFixed(1)}k`;
+  }
+  return `${tokens}`;
+};
+
+/**
+ * Parse an optional number input; empty or invalid input clears the value
+ */
+const parseOptionalNumber = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const TotalsCard: React.FC<{ title: string; totals: UsageTotals; currency: string; budget?: number }> = ({ title, totals, currency, budget }) => {
+  const overBudget = budget !== undefined && totals.cost >= budget;
+
+  return (
+    <div className={`p-3 rounded-xl border-2 ${overBudget ? 'border-orange-300 dark:border-orange-700 bg-orange-50 dark:bg-orange-900/20' : 'border-gray-200 dark:border-gray-700'}`}>
+      <p className="text-xs font-semibold text-gray-500 dark:text-gray-400">{title}</p>
+      <p className="text-lg font-bold text-gray-800 dark:text-white">
+        {formatCost(totals.cost, currency)}
+        {budget !== undefined && (
+          <span className="text-xs font-normal text-gray-500 dark:text-gray-400"> / {formatCost(budget, currency)}</span>
+        )}
+      </p>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {totals.requests} calls · {formatTokens(totals.inputTokens)} in · {formatTokens(totals.outputTokens)} out
+        {totals.audioSeconds > 0 && ` · ${(totals.audioSeconds / 60).toFixed(1)} min audio`}
+      </p>
+    </div>
+  );
+};
+
+/**
+ * Usage dashboard: daily and monthly totals from the usage ledger, per-model prices and soft budgets
+ */
+export const UsagePanel: React.FC<UsagePanelProps> = ({ settings, onChange }) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [showClearConfirm, setShowClearConfirm] = useState(false);
+
+  const usage: UsageSettings = settings.usage || { prices: [] };
+  const prices = usage.prices;
+  const currency = usage.currency || DEFAULT_CURRENCY;
+
+  useEffect(() => {
+    listUsage(getStartOfMonth())
+      .then(setRecords)
+      .catch((error) => console.error('[Usage] Failed to load usage:', error));
+  }, []);
+
+  const startOfDay = getStartOfDay();
+  const todayTotals = useMemo(
+    () => summarizeUsage(records.filter(record => record.createdAt >= startOfDay), prices),
+    [records, prices, startOfDay]
+  );
+  const monthTotals = useMemo(() => summarizeUsage(records, prices), [records, prices]);
+  const byModel = useMemo(() => groupUsage(records, prices, 'model'), [records, prices]);
+  const byFeature = useMemo(() => groupUsage(records, prices, 'feature'), [records, prices]);
+
+  const updateUsage = (changes: Partial<UsageSettings>) => {
+    onChange({ ...settings, usage: { ...usage, ...changes } });
+  };
+
+  const updatePrice = (index: number, changes: Partial<ModelPrice>) => {
+    updateUsage({ prices: prices.map((price, i) => i === index ? { ...price, ...changes } : price) });
+  };
+
+  const handleAddPrice = () => {
+    updateUsage({ prices: [...prices, { model: '', inputPrice: 0, outputPrice: 0 }] });
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearUsage();
+      setRecords([]);
+      toast({
+        title: 'Usage Cleared',
+        description: 'All usage records have been removed from this device.',
+      });
+    } catch (error) {
+      console.error('[Usage] Failed to clear usage:', error);
+      toast({
+        title: 'Clear Failed',
+        description: 'Failed to clear usage records. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="p-3 bg-indigo-50 dark:bg-indigo-900/30 rounded-xl border border-indigo-200 dark:border-indigo-800">
+        <p className="text-sm text-indigo-800 dark:text-indigo-200">
+          Token and audio usage of every AI call is recorded on this device. Costs are estimated from the prices you enter below.
+        </p>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 gap-2">
+        <TotalsCard title="Today" totals={todayTotals} currency={currency} budget={usage.dailyBudget} />
+        <TotalsCard title="This Month" totals={monthTotals} currency={currency} budget={usage.monthlyBudget} />
+      </div>
+      {monthTotals.unpricedRequests > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {monthTotals.unpricedRequests} calls this month use models without a price and are not included in the cost.
+        </p>
+      )}
+
+      {/* Breakdown */}
+      {records.length > 0 && (
+        <div className="space-y-3">
+          {[{ title: 'By Model', groups: byModel, labels: {} }, { title: 'By Feature', groups: byFeature, labels: FEATURE_LABELS }].map(({ title, groups, labels }) => (
+            <div key={title} className="space-y-1.5">
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">{title} (this month)</h3>
+              <ul className="rounded-xl border-2 border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+                {groups.map(({ key, totals }) => (
+                  <li key={key} className="flex items-center justify-between gap-2 px-3 py-1.5 text-xs">
+                    <span className="text-gray-700 dark:text-gray-300 truncate">{labels[key] || key || 'Unknown'}</span>
+                    <span className="text-gray-500 dark:text-gray-400 flex-shrink-0">
+                      {totals.requests} · {formatTokens(totals.inputTokens + totals.outputTokens)} tokens
+                      {totals.unpricedRequests < totals.requests && ` · ${formatCost(totals.cost, currency)}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Model Prices */}
+      <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Model Prices</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+            Per million input and output tokens, and per minute of transcribed audio
+          </p>
+        </div>
+        {prices.map((price, index) => (
+          <div key={index} className="p-3 rounded-xl border-2 border-gray-200 dark:border-gray-700 space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={price.model}
+                onChange={(e) => updatePrice(index, { model: e.target.value })}
+                placeholder="Model name"
+                list="usage-models"
+                className={inputClassName}
+              />
+              <button
+                onClick={() => updateUsage({ prices: prices.filter((_, i) => i !== index) })}
+                className="p-1.5 text-gray-400 hover:text-red-500 rounded-lg transition-colors btn-pop"
+                title="Remove price"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {([
+                { field: 'inputPrice', label: 'Input / 1M' },
+                { field: 'outputPrice', label: 'Output / 1M' },
+                { field: 'audioPrice', label: 'Audio / min' },
+              ] as const).map(({ field, label }) => (
+                <div key={field} className="space-y-1">
+                  <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400">{label}</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={price[field] ?? ''}
+                    onChange={(e) => updatePrice(index, { [field]: parseOptionalNumber(e.target.value) ?? (field === 'audioPrice' ? undefined : 0) })}
+                    placeholder="0"
+                    className={inputClassName}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+        <datalist id="usage-models">
+          {byModel.map(({ key }) => <option key={key} value={key} />)}
+        </datalist>
+        <button
+          onClick={handleAddPrice}
+          className="text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:text-indigo-500"
+        >
+          + Add price
+        </button>
+      </div>
+
+      {/* Budgets */}
+      <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Budgets</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+            Soft limits: you are warned before the next call once the estimated cost reaches them
+          </p>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <label htmlFor="usageCurrency" className="block text-xs font-semibold text-gray-600 dark:text-gray-400">Currency</label>
+            <input
+              id="usageCurrency"
+              type="text"
+              value={usage.currency ?? ''}
+              onChange={(e) => updateUsage({ currency: e.target.value })}
+              placeholder={DEFAULT_CURRENCY}
+              className={inputClassName}
+            />
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="dailyBudget" className="block text-xs font-semibold text-gray-600 dark:text-gray-400">Daily</label>
+            <input
+              id="dailyBudget"
+              type="number"
+              min={0}
+              step="any"
+              value={usage.dailyBudget ?? ''}
+              onChange={(e) => updateUsage({ dailyBudget: parseOptionalNumber(e.target.value) })}
+              placeholder="No limit"
+              className={inputClassName}
+            />
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="monthlyBudget" className="block text-xs font-semibold text-gray-600 dark:text-gray-400">Monthly</label>
+            <input
+              id="monthlyBudget"
+              type="number"
+              min={0}
+              step="any"
+              value={usage.monthlyBudget ?? ''}
+              onChange={(e) => updateUsage({ monthlyBudget: parseOptionalNumber(e.target.value) })}
+              placeholder="No limit"
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      </div>
+
+      <button
+        onClick={() => setShowClearConfirm(true)}
+        disabled={records.length === 0}
+        className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm font-semibold text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-xl transition-all duration-200 btn-pop disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Trash2 className="w-4 h-4" />
+        Clear Usage Records
+      </button>
+
+      <ConfirmDialog
+        isOpen={showClearConfirm}
+        onClose={() => setShowClearConfirm(false)}
+        onConfirm={handleClear}
+        title="Clear Usage Records"
+        description="This will remove all recorded usage from this device. Prices and budgets are kept. Do you want to continue?"
+        confirmText="Clear"
+        cancelText="Cancel"
+        variant="warning"
+      />
+    </div>
+  );
+};
@@ -6,6 +6,8 @@ import { Html5Qrcode } from 'html5-qrcode';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Switch } from './ui/switch';
 import { localWhisperService } from '../utils/audio/localWhisper';
+import { DEFAULT_OCR_MODEL } from '../utils/ai/provider';
+import { ConnectionTest } from './ConnectionTest';
 
 interface WelcomeWizardProps {
   isOpen: boolean;
@@ -371,6 +373,12 @@ export const WelcomeWizard: React.FC<WelcomeWizardProps> = ({ isOpen, onComplete
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">API Key</label>
                     <input type="password" value={settings.generalAI.apiKey} onChange={(e) => setSettings({ ...settings, generalAI: { ...settings.generalAI, apiKey: e.target.value } })} placeholder="sk-..." className="w-full px-3 py-2 text-sm rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-800 dark:text-white focus:border-indigo-500 focus:outline-none transition-colors" />
                   </div>
+
+                  <ConnectionTest
+                    provider={settings.generalAI}
+                    feature="translation"
+                    onSelectModel={(modelName) => setSettings({ ...settings, generalAI: { ...settings.generalAI, modelName } })}
+                  />
                 </div>
               ) : (
                 <div className="space-y-3">
@@ -401,6 +409,12 @@ export const WelcomeWizard: React.FC<WelcomeWizardProps> = ({ isOpen, onComplete
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">API Key</label>
                     <input type="password" value={settings.apiKey} onChange={(e) => setSettings({ ...settings, apiKey: e.target.value })} placeholder="sk-..." className="w-full px-3 py-2 text-sm rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-800 dark:text-white focus:border-indigo-500 focus:outline-none transition-colors" />
                   </div>
+
+                  <ConnectionTest
+                    provider={{ apiKey: settings.apiKey, endpoint: settings.endpoint, modelName: settings.modelName }}
+                    feature="translation"
+                    onSelectModel={(modelName) => setSettings({ ...settings, modelName })}
+                  />
                 </div>
               )}
 
@@ -717,6 +731,18 @@ export const WelcomeWizard: React.FC<WelcomeWizardProps> = ({ isOpen, onComplete
                   />
                 </div>
 
+                <ConnectionTest
+                  provider={{
+                    apiKey: settings.imageOCR.apiKey,
+                    endpoint: settings.imageOCR.endpoint,
+                    modelName: settings.imageOCR.provider === 'qwen' ? DEFAULT_OCR_MODEL : (settings.imageOCR.modelName || ''),
+                  }}
+                  feature="ocr"
+                  onSelectModel={settings.imageOCR.provider === 'custom'
+                    ? (modelName) => setSettings({ ...settings, imageOCR: { ...settings.imageOCR, modelName } })
+                    : undefined}
+                />
+
                 {/* VLM Section */}
                 <div className="space-y-3 pt-5 border-t-2 border-gray-200 dark:border-gray-700">
                   <h3 className="text-sm font-bold text-gray-800 dark:text-white flex items-center gap-2">
@@ -812,6 +838,16 @@ export const WelcomeWizard: React.FC<WelcomeWizardProps> = ({ isOpen, onComplete
                           className="w-full px-3 py-2 text-sm rounded-xl border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-800 dark:text-white focus:border-indigo-500 focus:outline-none transition-colors"
                         />
                       </div>
+
+                      <ConnectionTest
+                        provider={{
+                          apiKey: settings.vlm.apiKey || '',
+                          endpoint: settings.vlm.endpoint || '',
+                          modelName: settings.vlm.modelName || '',
+                        }}
+                        feature="vlm"
+                        onSelectModel={(modelName) => setSettings({ ...settings, vlm: { ...settings.vlm, modelName } })}
+                      />
                     </>
                   )}
 
@@ -0,0 +1,39 @@
+import { useCallback } from 'react';
+import { useToast } from '../components/ui/use-toast';
+import { checkBudget, formatCost } from '../utils/usage/usage';
+import type { AISettings, SettingsTab } from '../utils/config/settings';
+
+/**
+ * Warn with a toast when the daily or monthly budget has been reached, before starting an AI call
+ * Budgets are soft limits, so the call is not held back; call the returned function without awaiting it
+ */
+export function useBudgetWarning(settings: AISettings, onOpenSettings?: (initialTab?: SettingsTab) => void) {
+  const { toast } = useToast();
+
+  return useCallback(async () => {
+    let warning;
+    try {
+      warning = await checkBudget(settings);
+    } catch (error) {
+      console.warn('[Usage] Failed to check budget:', error);
+      return;
+    }
+    if (!warning) {
+      return;
+    }
+
+    const period = warning.period === 'daily' ? 'today' : 'this month';
+    toast({
+      title: warning.period === 'daily' ? 'Daily Budget Reached' : 'Monthly Budget Reached',
+      description: `Estimated cost ${period} is ${formatCost(warning.spent, warning.currency)}, over your ${formatCost(warning.budget, warning.currency)} budget. Requests will still be sent.`,
+      action: onOpenSettings ? (
+        <button
+          onClick={() => onOpenSettings('usage')}
+          className="px-3 py-1.5 bg-white text-indigo-600 text-xs rounded-lg hover:bg-indigo-50"
+        >
+          View Usage
+        </button>
+      ) : undefined,
+    });
+  }, [settings, onOpenSettings, toast]);
+}
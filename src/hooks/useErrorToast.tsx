@@ -0,0 +1,32 @@
+import { useCallback } from 'react';
+import { useToast } from '../components/ui/use-toast';
+import { describeError } from '../utils/ai/errors';
+import { getProviderSettingsTab } from '../utils/ai/provider';
+import type { AISettings, ProfileFeature, SettingsTab } from '../utils/config/settings';
+
+/**
+ * Show failed AI requests as toasts with an actionable message
+ * Errors the user has to fix in Settings (API key, endpoint, model, quota) get an "Open Settings"
+ * button that opens the tab where the failing provider is configured
+ */
+export function useErrorToast(settings: AISettings, onOpenSettings?: (initialTab?: SettingsTab) => void) {
+  const { toast } = useToast();
+
+  return useCallback((error: unknown, feature: ProfileFeature) => {
+    const { title, description, needsSettings } = describeError(error, feature);
+
+    toast({
+      variant: "destructive",
+      title,
+      description,
+      action: needsSettings && onOpenSettings ? (
+        <button
+          onClick={() => onOpenSettings(getProviderSettingsTab(settings, feature))}
+          className="px-3 py-1.5 bg-white text-indigo-600 text-xs rounded-lg hover:bg-indigo-50"
+        >
+          Open Settings
+        </button>
+      ) : undefined,
+    });
+  }, [settings, onOpenSettings, toast]);
+}
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useToast } from '../components/ui/use-toast';
+import {
+  queueRequest,
+  countPendingRequests,
+  processPendingRequests,
+  type NewPendingRequest,
+} from '../utils/queue/offlineQueue';
+import type { AISettings } from '../utils/config/settings';
+
+/**
+ * Queue requests made while offline and run them when the connection comes back (on load and on the
+ * browser's "online" event), with toasts when they are queued and when their results arrive
+ * @returns The number of queued requests and a function that queues one
+ */
+export function useOfflineQueue(settings: AISettings, onViewResults?: () => void) {
+  const { toast } = useToast();
+  const [pendingCount, setPendingCount] = useState(0);
+  // Read at run time, so the "online" listener is not re-registered on every render
+  const settingsRef = useRef(settings);
+  const onViewResultsRef = useRef(onViewResults);
+  settingsRef.current = settings;
+  onViewResultsRef.current = onViewResults;
+
+  const refreshCount = useCallback(async () => {
+    try {
+      setPendingCount(await countPendingRequests());
+    } catch (error) {
+      console.warn('[Queue] Failed to count queued requests:', error);
+    }
+  }, []);
+
+  const runQueue = useCallback(async () => {
+    let result;
+    try {
+      result = await processPendingRequests(settingsRef.current);
+    } catch (error) {
+      console.error('[Queue] Failed to run queued requests:', error);
+      return;
+    }
+    await refreshCount();
+
+    const { completed, failed } = result;
+    if (completed.length > 0) {
+      const onView = onViewResultsRef.current;
+      toast({
+        title: 'Queued Requests Done',
+        description: `${completed.length} ${completed.length === 1 ? 'request' : 'requests'} made while offline finished. The results are saved in History.`,
+        action: onView ? (
+          <button
+            onClick={onView}
+            className="px-3 py-1.5 bg-white text-indigo-600 text-xs rounded-lg hover:bg-indigo-50"
+          >
+            View
+          </button>
+        ) : undefined,
+      });
+    }
+    if (failed.length > 0) {
+      toast({
+        variant: "destructive",
+        title: 'Queued Requests Failed',
+        description: `${failed.length} ${failed.length === 1 ? 'request' : 'requests'} made while offline could not be completed and ${failed.length === 1 ? 'was' : 'were'} removed from the queue.`,
+      });
+    }
+  }, [refreshCount, toast]);
+
+  useEffect(() => {
+    refreshCount();
+    if (navigator.onLine) {
+      runQueue();
+    }
+
+    window.addEventListener('online', runQueue);
+    return () => window.removeEventListener('online', runQueue);
+  }, [refreshCount, runQueue]);
+
+  const queueOfflineRequest = useCallback(async (request: NewPendingRequest) => {
+    try {
+      const { isNew } = await queueRequest(request);
+      await refreshCount();
+      if (isNew) {
+        toast({
+          title: 'Saved for Later',
+          description: "You're offline. This request will run automatically when the connection is back.",
+        });
+      }
+    } catch (error) {
+      console.error('[Queue] Failed to queue request:', error);
+      toast({
+        variant: "destructive",
+        title: 'You Are Offline',
+        description: 'The request could not be saved for later. Please try again when the connection is back.',
+      });
+    }
+  }, [refreshCount, toast]);
+
+  return { pendingCount, queueOfflineRequest };
+}
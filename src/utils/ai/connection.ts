@@ -0,0 +1,127 @@
+/**
+ * Connection Test
+ * Checks that a provider answers, measures its latency and detects what the configured model supports
+ */
+
+import { generateObject, generateText } from 'ai';
+import { z } from 'zod';
+import type { ProviderConfig } from '../config/profiles';
+import { createAIClient, providerFetch } from './provider';
+import { AbortError, normalizeProviderError } from './errors';
+
+// A plain 16x16 white PNG; some providers reject images smaller than 10px
+const TEST_IMAGE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAABAAAAAQCAIAAACQkWg2AAAAFElEQVR4nGP4TyJgGNUwqmH4agAAr639H708R/EAAAAASUVORK5CYII=';
+
+export interface ConnectionTestResult {
+  latencyMs: number; // Round trip of the test completion, or of the model list when no model is set
+  models: string[]; // Model ids from /models; empty when the provider does not list them
+  modelFound?: boolean; // Whether the configured model is in the list; undefined when it could not be checked
+  supportsJson?: boolean; // undefined when no model is set
+  supportsVision?: boolean;
+}
+
+/**
+ * List the model ids a provider offers, sorted by name
+ */
+export async function listModels(provider: ProviderConfig, abortSignal?: AbortSignal): Promise<string[]> {
+  const response = await providerFetch(provider, 'models', { signal: abortSignal });
+  const data = await response.json() as { data?: { id?: unknown }[] };
+
+  return (data.data || [])
+    .map(model => model.id)
+    .filter((id): id is string => typeof id === 'string')
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Check a capability with a small request; any error other than a cancellation counts as unsupported
+ */
+const checkCapability = async (request: () => Promise<unknown>): Promise<boolean> => {
+  try {
+    await request();
+    return true;
+  } catch (error) {
+    const typed = normalizeProviderError(error);
+    if (typed instanceof AbortError) {
+      throw typed;
+    }
+    console.log('[Connection Test] Capability check failed:', typed.message);
+    return false;
+  }
+};
+
+/**
+ * Test a provider: list its models, then send a minimal completion and probe JSON mode and vision
+ * A provider without a working /models list still passes if the completion succeeds
+ * @throws A typed error (see errors.ts) when the provider cannot be used at all
+ */
+export async function testConnection(provider: ProviderConfig, abortSignal?: AbortSignal): Promise<ConnectionTestResult> {
+  let models: string[] = [];
+  let modelsError: unknown = null;
+  const modelsStart = performance.now();
+  try {
+    models = await listModels(provider, abortSignal);
+  } catch (error) {
+    if (normalizeProviderError(error) instanceof AbortError) {
+      throw error;
+    }
+    console.log('[Connection Test] Model list unavailable:', error);
+    modelsError = error;
+  }
+  const modelsLatency = Math.round(performance.now() - modelsStart);
+
+  if (!provider.modelName) {
+    if (modelsError) {
+      throw normalizeProviderError(modelsError);
+    }
+    return { latencyMs: modelsLatency, models };
+  }
+
+  const client = createAIClient(provider, 'connection-test');
+  const model = client(provider.modelName);
+
+  const start = performance.now();
+  try {
+    await generateText({
+      model,
+      prompt: 'Reply with the single word OK.',
+      abortSignal,
+      maxRetries: 0,
+    });
+  } catch (error) {
+    throw normalizeProviderError(error);
+  }
+  const latencyMs = Math.round(performance.now() - start);
+
+  const [supportsJson, supportsVision] = await Promise.all([
+    checkCapability(() => generateObject({
+      model,
+      schema: z.object({ ok: z.boolean() }),
+      prompt: 'Respond with JSON where "ok" is true.',
+      abortSignal,
+      maxRetries: 0,
+    })),
+    checkCapability(() => generateText({
+      model,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'image', image: TEST_IMAGE },
+            { type: 'text', text: 'What color is this image? Answer in one word.' },
+          ],
+        },
+      ],
+      abortSignal,
+      maxRetries: 0,
+    })),
+  ]);
+
+  return {
+    latencyMs,
+    models,
+    modelFound: models.length > 0 ? models.includes(provider.modelName) : undefined,
+    supportsJson,
+    supportsVision,
+  };
+}
@@ -0,0 +1,326 @@
+/**
+ * AI Errors
+ * Typed errors for failed provider requests, built from the HTTP status the AI SDK, the OpenAI SDK
+ * or fetch reports, and the messages shown for each of them
+ */
+
+import OpenAI from 'openai';
+import { APICallError, RetryError } from 'ai';
+import type { ProfileFeature } from '../config/settings';
+
+/**
+ * Error from a provider request, with the HTTP status when the provider answered
+ * Used as-is when the failure does not fit one of the subclasses below
+ */
+export class ProviderError extends Error {
+  readonly statusCode?: number;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: { statusCode?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.statusCode = options.statusCode;
+    this.cause = options.cause;
+  }
+}
+
+// The API key is missing, invalid or not allowed to use this resource (401/403)
+export class AuthError extends ProviderError {
+  constructor(message: string, options?: { statusCode?: number; cause?: unknown }) {
+    super(message, options);
+    this.name = 'AuthError';
+  }
+}
+
+// Too many requests (429), or the account's quota or balance is used up
+export class RateLimitError extends ProviderError {
+  readonly retryAfter?: number; // Seconds to wait, from the Retry-After header
+  readonly isQuotaExceeded: boolean; // Waiting will not help; the account needs attention
+
+  constructor(message: string, options: { statusCode?: number; cause?: unknown; retryAfter?: number; isQuotaExceeded?: boolean } = {}) {
+    super(message, options);
+    this.name = 'RateLimitError';
+    this.retryAfter = options.retryAfter;
+    this.isQuotaExceeded = options.isQuotaExceeded ?? false;
+  }
+}
+
+// The endpoint URL does not point at an OpenAI-compatible API (404)
+export class EndpointError extends ProviderError {
+  constructor(message: string, options?: { statusCode?: number; cause?: unknown }) {
+    super(message, options);
+    this.name = 'EndpointError';
+  }
+}
+
+// The model name is unknown to the provider
+export class ModelNotFoundError extends ProviderError {
+  constructor(message: string, options?: { statusCode?: number; cause?: unknown }) {
+    super(message, options);
+    this.name = 'ModelNotFoundError';
+  }
+}
+
+// The provider's moderation refused the input or the output
+export class ContentFilterError extends ProviderError {
+  constructor(message: string, options?: { statusCode?: number; cause?: unknown }) {
+    super(message, options);
+    this.name = 'ContentFilterError';
+  }
+}
+
+// No response within the request timeout (or a 408/504 from a gateway)
+export class TimeoutError extends ProviderError {
+  constructor(message: string, options?: { statusCode?: number; cause?: unknown }) {
+    super(message, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+// The request was cancelled by the user; named 'AbortError' like the DOMException it replaces
+export class AbortError extends ProviderError {
+  constructor(message = 'Request was cancelled', options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'AbortError';
+  }
+}
+
+// The provider could not be reached (offline, DNS, blocked by CORS)
+export class NetworkError extends ProviderError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+// The provider failed on its side (5xx)
+export class ServerError extends ProviderError {
+  constructor(message: string, options?: { statusCode?: number; cause?: unknown }) {
+    super(message, options);
+    this.name = 'ServerError';
+  }
+}
+
+const QUOTA_PATTERN = /quota|insufficient|balance|billing|credit/i;
+const MODEL_PATTERN = /model/i;
+const NOT_FOUND_PATTERN = /not[ _]found|not exist|does not exist|not support|invalid|unknown/i;
+const CONTENT_FILTER_PATTERN = /content[ _-]?filter|content management policy|data_inspection_failed|inappropriate content|safety system|moderation/i;
+
+/**
+ * Parse a Retry-After header value (seconds or an HTTP date) into seconds
+ */
+const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
+/**
+ * Build the typed error for an HTTP error response
+ * @param details - Error message, response body and error code, searched for model, quota and moderation hints
+ */
+export function createHttpError(
+  statusCode: number | undefined,
+  message: string,
+  details: string,
+  options: { retryAfter?: string | null; cause?: unknown } = {}
+): ProviderError {
+  const base = { statusCode, cause: options.cause };
+
+  if (CONTENT_FILTER_PATTERN.test(details)) {
+    return new ContentFilterError(message, base);
+  }
+  if (statusCode === 401 || statusCode === 403) {
+    return new AuthError(message, base);
+  }
+  if (statusCode === 429 || (statusCode === 402 && QUOTA_PATTERN.test(details))) {
+    return new RateLimitError(message, {
+      ...base,
+      retryAfter: parseRetryAfter(options.retryAfter),
+      isQuotaExceeded: statusCode === 402 || QUOTA_PATTERN.test(details),
+    });
+  }
+  if ((statusCode === 400 || statusCode === 404) && MODEL_PATTERN.test(details) && NOT_FOUND_PATTERN.test(details)) {
+    return new ModelNotFoundError(message, base);
+  }
+  if (statusCode === 404) {
+    return new EndpointError(message, base);
+  }
+  if (statusCode === 408 || statusCode === 504) {
+    return new TimeoutError(message, base);
+  }
+  if (statusCode !== undefined && statusCode >= 500) {
+    return new ServerError(message, base);
+  }
+  return new ProviderError(message, base);
+}
+
+/**
+ * Check if an error is fetch rejecting because the server cannot be reached or blocks CORS
+ * fetch rejects with a TypeError ("Failed to fetch", "NetworkError when attempting to fetch resource",
+ * "Load failed"); other TypeErrors are bugs, which must not be retried as connection problems
+ */
+const isFetchFailure = (error: Error): boolean => {
+  return error instanceof TypeError && /fetch|network|load failed/i.test(error.message);
+};
+
+/**
+ * Convert an error from the AI SDK, the OpenAI SDK or fetch into a typed error
+ * Errors that are already typed are returned as-is
+ */
+export function normalizeProviderError(error: unknown): ProviderError {
+  if (error instanceof ProviderError) {
+    return error;
+  }
+  if (!(error instanceof Error)) {
+    return new ProviderError(String(error));
+  }
+
+  // Calls made with the AI SDK's own retries wrap the last failure
+  if (RetryError.isInstance(error) && error.lastError !== undefined) {
+    return normalizeProviderError(error.lastError);
+  }
+
+  if (error.name === 'AbortError' || error instanceof OpenAI.APIUserAbortError) {
+    return new AbortError(error.message, { cause: error });
+  }
+
+  if (APICallError.isInstance(error)) {
+    const details = `${error.message} ${error.responseBody || ''}`;
+    return createHttpError(error.statusCode, error.message, details, {
+      retryAfter: error.responseHeaders?.['retry-after'],
+      cause: error,
+    });
+  }
+
+  if (error instanceof OpenAI.APIConnectionTimeoutError || error.name === 'TimeoutError') {
+    return new TimeoutError(error.message, { cause: error });
+  }
+  if (error instanceof OpenAI.APIConnectionError || isFetchFailure(error)) {
+    return new NetworkError(error.message, { cause: error });
+  }
+  if (error instanceof OpenAI.APIError) {
+    const details = `${error.message} ${error.code || ''} ${error.type || ''}`;
+    return createHttpError(error.status, error.message, details, {
+      retryAfter: error.headers?.get('retry-after'),
+      cause: error,
+    });
+  }
+
+  return new ProviderError(error.message, { cause: error });
+}
+
+/**
+ * Check if a failed request may succeed when sent again
+ */
+export function isRetryableError(error: unknown): boolean {
+  return (error instanceof RateLimitError && !error.isQuotaExceeded) ||
+    error instanceof ServerError ||
+    error instanceof TimeoutError ||
+    error instanceof NetworkError;
+}
+
+const SERVICE_LABELS: Record<ProfileFeature, string> = {
+  translation: 'Translation',
+  explanation: 'Explanation',
+  qa: 'Q&A',
+  ocr: 'Image OCR',
+  vlm: 'Image translation',
+  speech: 'Speech recognition',
+};
+
+export interface ErrorDescription {
+  title: string;
+  description: string;
+  needsSettings: boolean; // The user has to change a setting to fix it
+}
+
+/**
+ * Describe a failed request for the user, with what to do about it
+ */
+export function describeError(error: unknown, service: ProfileFeature): ErrorDescription {
+  const typed = normalizeProviderError(error);
+  const label = SERVICE_LABELS[service];
+
+  if (typed instanceof AuthError) {
+    return {
+      title: 'Invalid API Key',
+      description: `The ${label} provider rejected the API key. Check the key in Settings.`,
+      needsSettings: true,
+    };
+  }
+  if (typed instanceof RateLimitError) {
+    if (typed.isQuotaExceeded) {
+      return {
+        title: 'Quota Exceeded',
+        description: 'The provider account has run out of quota or balance. Top it up, or add a fallback provider in Settings.',
+        needsSettings: true,
+      };
+    }
+    return {
+      title: 'Rate Limit Reached',
+      description: typed.retryAfter !== undefined
+        ? `Too many requests. Try again in ${Math.ceil(typed.retryAfter)} seconds.`
+        : 'Too many requests. Wait a moment and try again.',
+      needsSettings: false,
+    };
+  }
+  if (typed instanceof EndpointError) {
+    return {
+      title: 'Endpoint Not Found',
+      description: `The ${label} endpoint URL is wrong. OpenAI-compatible endpoints usually end with /v1.`,
+      needsSettings: true,
+    };
+  }
+  if (typed instanceof ModelNotFoundError) {
+    return {
+      title: 'Model Not Available',
+      description: `The provider does not know the ${label} model. Check the model name in Settings.`,
+      needsSettings: true,
+    };
+  }
+  if (typed instanceof ContentFilterError) {
+    return {
+      title: 'Blocked by Content Filter',
+      description: "The provider's content filter refused this request. Try rephrasing the text or using another provider.",
+      needsSettings: false,
+    };
+  }
+  if (typed instanceof TimeoutError) {
+    return {
+      title: 'Request Timed Out',
+      description: 'The provider did not answer in time. Try again, or raise the timeout in the provider profile.',
+      needsSettings: false,
+    };
+  }
+  if (typed instanceof NetworkError) {
+    return {
+      title: 'Network Error',
+      description: 'Could not reach the provider. Check your connection and the endpoint URL; browsers may need a CORS proxy for some providers.' +
+        (service === 'translation' ? ' To translate without a connection, download the offline model in Settings.' : ''),
+      needsSettings: false,
+    };
+  }
+  if (typed instanceof ServerError) {
+    return {
+      title: 'Provider Unavailable',
+      description: 'The provider had a server error. Try again later.',
+      needsSettings: false,
+    };
+  }
+  if (typed instanceof AbortError) {
+    return { title: 'Cancelled', description: `${label} was cancelled.`, needsSettings: false };
+  }
+
+  return {
+    title: `${label} Failed`,
+    description: typed.message || 'Please try again.',
+    needsSettings: false,
+  };
+}
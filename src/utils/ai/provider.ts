@@ -0,0 +1,251 @@
+/**
+ * AI Providers
+ * Resolves the provider each feature uses and builds its clients, applying custom headers,
+ * request timeouts and the CORS proxy in one place
+ */
+
+import OpenAI from 'openai';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { AISettings, SILICONFLOW_ENDPOINT, type ProfileFeature, type SettingsTab } from '../config/settings';
+import { resolveFeatureProfile, resolveGeneralAI, type ProviderConfig } from '../config/profiles';
+import { TimeoutError, createHttpError, normalizeProviderError } from './errors';
+
+// Used when the provider does not set its own timeout
+export const DEFAULT_TIMEOUT_SECONDS = 120;
+
+export const DEFAULT_OCR_MODEL = 'qwen-vl-ocr-latest';
+const DEFAULT_QWEN_VLM_MODEL = 'qwen-vl-max-latest';
+const DEFAULT_VLM_MODEL = 'gpt-4o';
+const DEFAULT_SPEECH_MODEL = 'TeleAI/TeleSpeechASR';
+
+/**
+ * Route a URL through the provider's CORS proxy, if it has one
+ * The proxy receives the full target URL appended to its base, e.g. https://proxy.example/https://api.example/v1
+ */
+export function applyCorsProxy(url: string, corsProxy?: string): string {
+  const proxy = corsProxy?.trim();
+  if (!proxy) {
+    return url;
+  }
+  return `${proxy.replace(/\/+$/, '')}/${url}`;
+}
+
+/**
+ * Get the request timeout for a provider in milliseconds; 0 disables it
+ */
+const getTimeoutMs = (provider: ProviderConfig): number => {
+  return Math.max(0, provider.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+};
+
+/**
+ * Get a signal that aborts when either signal does; it keeps forwarding the caller's cancellation after the
+ * response starts, so streams can still be stopped
+ * AbortSignal.any leaves no listener behind on the caller's signal, which may outlive many requests (a
+ * conversation, a subtitle session); older browsers (Safari before 17.4) fall back to a listener
+ */
+const combineSignals = (callerSignal: AbortSignal, timeoutSignal: AbortSignal): AbortSignal => {
+  if (typeof AbortSignal.any === 'function') {
+    return AbortSignal.any([callerSignal, timeoutSignal]);
+  }
+
+  const controller = new AbortController();
+  for (const signal of [callerSignal, timeoutSignal]) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+    } else {
+      signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+    }
+  }
+  return controller.signal;
+};
+
+/**
+ * Build a fetch that fails with a timeout error when no response starts within the provider's timeout
+ * Streaming bodies are not limited once the response has started
+ */
+const createTimeoutFetch = (provider: ProviderConfig): typeof fetch => {
+  const timeoutMs = getTimeoutMs(provider);
+
+  return async (input, init) => {
+    if (!timeoutMs) {
+      return fetch(input, init);
+    }
+
+    const controller = new AbortController();
+    const signal = init?.signal ? combineSignals(init.signal, controller.signal) : controller.signal;
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    try {
+      return await fetch(input, { ...init, signal });
+    } catch (error) {
+      if (timedOut) {
+        throw new TimeoutError(`Request timed out after ${timeoutMs / 1000}s`, { cause: error });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+};
+
+/**
+ * Create an AI SDK client for a provider
+ */
+export function createAIClient(provider: ProviderConfig, name = 'ai-provider') {
+  if (!provider.apiKey) {
+    throw new Error('API key is not configured');
+  }
+
+  return createOpenAICompatible({
+    name,
+    apiKey: provider.apiKey,
+    baseURL: applyCorsProxy(provider.endpoint, provider.corsProxy),
+    headers: provider.headers,
+    fetch: createTimeoutFetch(provider),
+  });
+}
+
+/**
+ * Create an OpenAI SDK client for a provider, for requests that need OpenAI-specific fields (e.g. OCR pixel limits)
+ */
+export function createOpenAIClient(provider: ProviderConfig): OpenAI {
+  return new OpenAI({
+    apiKey: provider.apiKey,
+    baseURL: applyCorsProxy(provider.endpoint, provider.corsProxy),
+    defaultHeaders: provider.headers,
+    timeout: getTimeoutMs(provider) || undefined,
+    dangerouslyAllowBrowser: true,
+  });
+}
+
+/**
+ * Send a request to a provider endpoint with its auth, headers, timeout and proxy applied
+ * @param path - Path relative to the provider endpoint, e.g. "audio/transcriptions"
+ * @throws A typed error (see errors.ts) when the request fails or the provider answers with an error status
+ */
+export async function providerFetch(provider: ProviderConfig, path: string, init: RequestInit = {}): Promise<Response> {
+  const url = `${provider.endpoint.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+
+  let response: Response;
+  try {
+    response = await createTimeoutFetch(provider)(applyCorsProxy(url, provider.corsProxy), {
+      ...init,
+      headers: {
+        ...provider.headers,
+        ...(init.headers as Record<string, string> | undefined),
+        'Authorization': `Bearer ${provider.apiKey}`,
+      },
+    });
+  } catch (error) {
+    throw normalizeProviderError(error);
+  }
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw createHttpError(response.status, body || `Request failed with status ${response.status}`, body, {
+      retryAfter: response.headers.get('retry-after'),
+    });
+  }
+
+  return response;
+}
+
+/**
+ * Resolve the OCR provider
+ * Priority: 1. Profile pinned to OCR, 2. General AI service (if OCR is set to use it), 3. Image OCR settings
+ */
+export function resolveOCRProvider(settings: AISettings): ProviderConfig {
+  const pinned = resolveFeatureProfile(settings, 'ocr');
+  if (pinned) {
+    return { ...pinned, modelName: pinned.modelName || DEFAULT_OCR_MODEL };
+  }
+
+  const ocr = settings.imageOCR;
+  if (ocr.useGeneralAI) {
+    return resolveGeneralAI(settings);
+  }
+
+  return {
+    apiKey: ocr.apiKey,
+    endpoint: ocr.endpoint,
+    modelName: ocr.provider === 'qwen' ? DEFAULT_OCR_MODEL : (ocr.modelName || DEFAULT_OCR_MODEL),
+  };
+}
+
+/**
+ * Resolve the VLM provider used for direct image translation
+ * Priority: 1. Profile pinned to VLM, 2. General AI service, 3. Custom VLM settings (if complete), 4. OCR settings with a vision model
+ */
+export function resolveVLMProvider(settings: AISettings): ProviderConfig {
+  const pinned = resolveFeatureProfile(settings, 'vlm');
+  if (pinned) {
+    return pinned;
+  }
+
+  const vlm = settings.vlm;
+  if (vlm.useGeneralAI) {
+    return resolveGeneralAI(settings);
+  }
+  if (vlm.useCustom && vlm.apiKey && vlm.endpoint && vlm.modelName) {
+    return { apiKey: vlm.apiKey, endpoint: vlm.endpoint, modelName: vlm.modelName };
+  }
+
+  const ocr = settings.imageOCR;
+  if (ocr.useGeneralAI) {
+    return resolveGeneralAI(settings);
+  }
+
+  // The OCR model only reads text, so use a general vision model on the same service
+  return {
+    apiKey: ocr.apiKey,
+    endpoint: ocr.endpoint,
+    modelName: settings.imageOCR.provider === 'qwen'
+      ? DEFAULT_QWEN_VLM_MODEL
+      : (ocr.modelName || DEFAULT_VLM_MODEL),
+  };
+}
+
+/**
+ * Resolve the AI Service speech recognition provider
+ * Priority: 1. Profile pinned to speech, 2. SiliconFlow with the speech API key (or the translation API key)
+ */
+export function resolveSpeechProvider(settings: AISettings): ProviderConfig {
+  const pinned = resolveFeatureProfile(settings, 'speech');
+  if (pinned) {
+    return pinned;
+  }
+
+  return {
+    apiKey: settings.speechRecognition.apiKey || settings.apiKey,
+    endpoint: SILICONFLOW_ENDPOINT,
+    modelName: settings.speechRecognition.modelName || DEFAULT_SPEECH_MODEL,
+  };
+}
+
+/**
+ * Get the Settings tab where the provider a feature currently uses is configured
+ * Profiles and the General AI service live on the General tab
+ */
+export function getProviderSettingsTab(settings: AISettings, feature: ProfileFeature): SettingsTab {
+  if (resolveFeatureProfile(settings, feature)) {
+    return 'general';
+  }
+
+  switch (feature) {
+    case 'translation':
+      return settings.apiKey && settings.endpoint && settings.modelName ? 'translation' : 'general';
+    case 'ocr':
+      return settings.imageOCR.useGeneralAI ? 'general' : 'image';
+    case 'vlm':
+      return settings.vlm.useGeneralAI || (!settings.vlm.useCustom && settings.imageOCR.useGeneralAI) ? 'general' : 'image';
+    case 'speech':
+      return 'speech';
+    default:
+      return 'general';
+  }
+}
@@ -1,4 +1,6 @@
 import { AISettings } from '../config/settings';
+import { providerFetch, resolveSpeechProvider } from '../ai/provider';
+import { recordUsage } from '../usage/usage';
 
 /**
  * Check if the provider is SiliconFlow for speech recognition
@@ -8,43 +10,39 @@ export function useSiliconFlowSpeech(settings: AISettings): boolean {
 }
 
 /**
- * Get the API key for SiliconFlow speech recognition
+ * Get the duration of an audio clip in seconds, or undefined when the browser cannot decode it
  */
-function getSiliconFlowApiKey(settings: AISettings): string {
-  // Use speech-specific API key if set, otherwise use translation API key
-  return settings.speechRecognition.apiKey || settings.apiKey;
+async function getAudioSeconds(audioBlob: Blob): Promise<number | undefined> {
+  try {
+    // MediaRecorder WebM files often report no duration in their metadata, so decode the audio instead
+    const context = new OfflineAudioContext(1, 1, 16000);
+    const buffer = await context.decodeAudioData(await audioBlob.arrayBuffer());
+    return buffer.duration;
+  } catch {
+    return undefined;
+  }
 }
 
 /**
  * Transcribe audio using SiliconFlow API
+ * Uses the profile pinned to speech instead when there is one
  */
 export async function transcribeAudioSiliconFlow(
   audioBlob: Blob,
   settings: AISettings
 ): Promise<string> {
+  const provider = resolveSpeechProvider(settings);
+
   const formData = new FormData();
-  // Use model from settings, fallback to default if not set
-  const modelName = settings.speechRecognition.modelName || 'TeleAI/TeleSpeechASR';
-  formData.append('model', modelName);
+  formData.append('model', provider.modelName);
   formData.append('file', audioBlob, 'audio.webm');
 
-  const endpoint = settings.endpoint.endsWith('/')
-    ? settings.endpoint + 'audio/transcriptions'
-    : settings.endpoint + '/audio/transcriptions';
-
-  const response = await fetch(endpoint, {
+  const response = await providerFetch(provider, 'audio/transcriptions', {
     method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${getSiliconFlowApiKey(settings)}`,
-    },
     body: formData,
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`SiliconFlow transcription failed: ${errorText}`);
-  }
-
   const result = await response.json();
+  getAudioSeconds(audioBlob).then(audioSeconds => recordUsage('speech', provider, undefined, audioSeconds));
   return result.text || '';
 }
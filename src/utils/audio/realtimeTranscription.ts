@@ -1,11 +1,11 @@
-import { VoiceActivityDetector, VADConfig, VADCallbacks } from './vad';
+import { VoiceActivityDetector, VADConfig, VADCallbacks, VoiceSegment } from './vad';
 import { transcribeAudioSiliconFlow } from './audioTranscription';
 import { localWhisperService } from './localWhisper';
 import { AISettings } from '../config/settings';
 
 export interface RealtimeTranscriptionConfig {
   vadConfig?: VADConfig;
-  onTranscript?: (text: string, isFinal: boolean) => void;
+  onTranscript?: (text: string, isFinal: boolean, segment?: VoiceSegment) => void;
   onError?: (error: Error) => void;
 }
 
@@ -50,9 +50,9 @@ export class RealtimeTranscriptionService {
         onVoiceStart: () => {
           console.log('Voice detected, starting capture...');
         },
-        onVoiceEnd: async (audioBlob: Blob) => {
+        onVoiceEnd: async (audioBlob: Blob, segment: VoiceSegment) => {
           console.log('Voice ended, transcribing...', audioBlob.size, 'bytes');
-          await this.transcribeAudioSegment(audioBlob);
+          await this.transcribeAudioSegment(audioBlob, segment);
         },
       };
 
@@ -98,7 +98,7 @@ export class RealtimeTranscriptionService {
   /**
    * Transcribe an audio segment
    */
-  private async transcribeAudioSegment(audioBlob: Blob): Promise<void> {
+  private async transcribeAudioSegment(audioBlob: Blob, segment: VoiceSegment): Promise<void> {
     this.pendingTranscriptions++;
 
     try {
@@ -126,14 +126,14 @@ export class RealtimeTranscriptionService {
         });
 
         if (text && this.config.onTranscript) {
-          this.config.onTranscript(text, true);
+          this.config.onTranscript(text, true, segment);
         }
       } else if (provider === 'siliconflow') {
         // Use SiliconFlow transcription
         const text = await transcribeAudioSiliconFlow(transcriptionBlob, this.settings);
 
         if (text && this.config.onTranscript) {
-          this.config.onTranscript(text, true);
+          this.config.onTranscript(text, true, segment);
         }
       } else {
         // Fallback: use Web Speech API (not ideal for file-based transcription)
@@ -23,9 +23,15 @@ const DEFAULT_CONFIG: Required<VADConfig> = {
   silenceDuration: 800,
 };
 
+// Wall-clock time span of a voice segment, in ms since epoch
+export interface VoiceSegment {
+  startTime: number;
+  endTime: number;
+}
+
 export interface VADCallbacks {
   onVoiceStart?: () => void;
-  onVoiceEnd?: (audioBlob: Blob) => void;
+  onVoiceEnd?: (audioBlob: Blob, segment: VoiceSegment) => void;
   onSpeechData?: (energy: number) => void;
 }
 
@@ -283,6 +289,12 @@ export class VoiceActivityDetector {
 
     this.isVoiceActive = false;
 
+    // The segment ends at the last detected voice, not after the trailing silence
+    const segment: VoiceSegment = {
+      startTime: this.voiceStartTime,
+      endTime: Math.max(this.lastVoiceTime, this.voiceStartTime),
+    };
+
     // Get the recorded audio chunks
     const chunks = [...this.audioChunks];
     this.audioChunks = [];
@@ -308,7 +320,7 @@ export class VoiceActivityDetector {
     }
 
     if (this.callbacks.onVoiceEnd && audioBlob) {
-      this.callbacks.onVoiceEnd(audioBlob);
+      this.callbacks.onVoiceEnd(audioBlob, segment);
     }
   }
 }
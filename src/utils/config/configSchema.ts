@@ -4,7 +4,7 @@
  */
 
 import { schema, ObjectSchema, validateSchema as validateSchemaBase, applyDefaults } from './schema';
-import { DASHSCOPE_ENDPOINT } from './settings';
+import { DASHSCOPE_ENDPOINT, DEFAULT_CACHE_TTL_HOURS, DEFAULT_CACHE_MAX_ENTRIES, DEFAULT_CANDIDATE_COUNT, DEFAULT_CURRENCY, type ProviderProfile, type FeatureProfiles, type UsageSettings } from './settings';
 
 // Re-export validation functions
 export { validateSchemaBase as validateSchema, applyDefaults };
@@ -13,13 +13,33 @@ export { validateSchemaBase as validateSchema, applyDefaults };
  * Current schema version
  * Increment this when making breaking changes to the config structure
  */
-export const CURRENT_SCHEMA_VERSION = 1;
+export const CURRENT_SCHEMA_VERSION = 2;
 
 /**
  * Translation Config Schema
  */
 export const translationSchema = {
   outputMode: schema.enum(['plain', 'structured'] as const, { default: 'structured' }),
+  cacheEnabled: schema.boolean({ optional: true, default: true }),
+  cacheTTLHours: schema.number({ optional: true, default: DEFAULT_CACHE_TTL_HOURS, validate: (v) => typeof v === 'number' && v > 0 }),
+  cacheMaxEntries: schema.number({ optional: true, default: DEFAULT_CACHE_MAX_ENTRIES, validate: (v) => typeof v === 'number' && v > 0 }),
+  streaming: schema.boolean({ optional: true, default: true }),
+  fallbacks: schema.array(
+    schema.object({
+      profileId: schema.string(),
+      modelName: schema.string({ optional: true }),
+    }),
+    { optional: true, default: [] }
+  ),
+  tones: schema.array(
+    schema.object({
+      targetLang: schema.string(),
+      tone: schema.enum(['auto', 'casual', 'polite', 'honorific', 'formal', 'informal', 'business'] as const, { default: 'auto' }),
+    }),
+    { optional: true, default: [] }
+  ),
+  candidateCount: schema.number({ optional: true, default: DEFAULT_CANDIDATE_COUNT, validate: (v) => typeof v === 'number' && v >= 2 && v <= 5 }),
+  offlineMode: schema.enum(['off', 'auto', 'always'] as const, { optional: true, default: 'auto' }),
 };
 
 /**
@@ -71,6 +91,56 @@ export const vlmSchema = {
   enableThinking: schema.boolean({ default: false }),
 };
 
+/**
+ * Provider Profile Schema
+ */
+export const providerProfileSchema = {
+  id: schema.string(),
+  name: schema.string({ default: '' }),
+  endpoint: schema.string({ default: '' }),
+  apiKey: schema.string({ default: '' }),
+  modelName: schema.string({ default: '' }),
+  headers: schema.array(
+    schema.object({
+      name: schema.string({ default: '' }),
+      value: schema.string({ default: '' }),
+    }),
+    { optional: true, default: [] }
+  ),
+  timeoutSeconds: schema.number({ optional: true, validate: (v) => typeof v === 'number' && v >= 0 }),
+  corsProxy: schema.string({ optional: true }),
+};
+
+/**
+ * Feature → Profile Assignment Schema
+ */
+export const featureProfilesSchema = {
+  translation: schema.string({ optional: true }),
+  explanation: schema.string({ optional: true }),
+  qa: schema.string({ optional: true }),
+  ocr: schema.string({ optional: true }),
+  vlm: schema.string({ optional: true }),
+  speech: schema.string({ optional: true }),
+};
+
+/**
+ * Usage Pricing and Budget Schema
+ */
+export const usageSchema = {
+  prices: schema.array(
+    schema.object({
+      model: schema.string({ default: '' }),
+      inputPrice: schema.number({ default: 0, validate: (v) => typeof v === 'number' && v >= 0 }),
+      outputPrice: schema.number({ default: 0, validate: (v) => typeof v === 'number' && v >= 0 }),
+      audioPrice: schema.number({ optional: true, validate: (v) => typeof v === 'number' && v >= 0 }),
+    }),
+    { default: [] }
+  ),
+  currency: schema.string({ optional: true, default: DEFAULT_CURRENCY }),
+  dailyBudget: schema.number({ optional: true, validate: (v) => typeof v === 'number' && v > 0 }),
+  monthlyBudget: schema.number({ optional: true, validate: (v) => typeof v === 'number' && v > 0 }),
+};
+
 /**
  * Main AI Config Schema (v1)
  */
@@ -100,6 +170,22 @@ export const aiConfigSchemaV1 = {
   vlm: schema.object(vlmSchema),
 };
 
+/**
+ * Main AI Config Schema (v2)
+ * Adds named provider profiles and per-feature profile assignments
+ */
+export const aiConfigSchemaV2 = {
+  ...aiConfigSchemaV1,
+
+  // Named provider profiles
+  profiles: schema.array(schema.object(providerProfileSchema), { default: [] }),
+  activeProfileId: schema.string({ optional: true, default: '' }),
+  featureProfiles: schema.object(featureProfilesSchema, { optional: true }),
+
+  // Usage pricing and budgets
+  usage: schema.object(usageSchema, { optional: true }),
+};
+
 /**
  * Type inference from schema
  */
@@ -116,6 +202,14 @@ export type AIConfigV1 = {
   apiKey: string;
   translation: {
     outputMode: 'plain' | 'structured';
+    cacheEnabled?: boolean;
+    cacheTTLHours?: number;
+    cacheMaxEntries?: number;
+    streaming?: boolean;
+    fallbacks?: { profileId: string; modelName?: string }[];
+    tones?: { targetLang: string; tone: 'auto' | 'casual' | 'polite' | 'honorific' | 'formal' | 'informal' | 'business' }[];
+    candidateCount?: number;
+    offlineMode?: 'off' | 'auto' | 'always';
   };
   speechRecognition: {
     provider: 'web-speech' | 'siliconflow' | 'local-whisper';
@@ -142,13 +236,20 @@ export type AIConfigV1 = {
   };
 };
 
+export type AIConfigV2 = AIConfigV1 & {
+  profiles: ProviderProfile[];
+  activeProfileId?: string;
+  featureProfiles?: FeatureProfiles;
+  usage?: UsageSettings;
+};
+
 /**
  * Versioned config container
  * All exported config will be wrapped in this structure
  */
 export interface VersionedConfig {
   version: number;
-  config: AIConfigV1; // or future versions
+  config: AIConfigV2; // or future versions
   exportedAt: string; // ISO timestamp
   appVersion?: string; // App version that exported this config
 }
@@ -160,6 +261,8 @@ export function getSchemaForVersion(version: number): ObjectSchema {
   switch (version) {
     case 1:
       return aiConfigSchemaV1;
+    case 2:
+      return aiConfigSchemaV2;
     default:
       throw new Error(`Unsupported schema version: ${version}`);
   }
@@ -1,7 +1,7 @@
 import { AISettings } from './settings';
-import { VersionedConfig, CURRENT_SCHEMA_VERSION, AIConfigV1 } from './configSchema';
+import { VersionedConfig, CURRENT_SCHEMA_VERSION, AIConfigV2 } from './configSchema';
 import { migrateConfig } from './migration';
-import { validateSchema, aiConfigSchemaV1 } from './configSchema';
+import { validateSchema, aiConfigSchemaV2 } from './configSchema';
 
 // Get app version from package.json
 const APP_VERSION = '0.1.0'; // In production, this would be imported from package.json
@@ -13,7 +13,7 @@ type UnknownRecord = Record<string, unknown>;
  */
 function wrapConfigForExport(config: AISettings): VersionedConfig {
   // Ensure config has version field
-  const versionedConfig: AIConfigV1 = {
+  const versionedConfig: AIConfigV2 = {
     ...config,
     _version: CURRENT_SCHEMA_VERSION,
   };
@@ -170,7 +170,7 @@ function unwrapAndMigrateConfig(versionedData: VersionedConfig): AISettings {
   const migratedConfig = migrateConfig(config as UnknownRecord);
 
   // Validate against current schema
-  const validation = validateSchema<AISettings>(migratedConfig, aiConfigSchemaV1);
+  const validation = validateSchema<AISettings>(migratedConfig, aiConfigSchemaV2);
 
   if (!validation.valid) {
     console.error('Config validation errors:', validation.errors);
@@ -191,7 +191,7 @@ function migrateLegacyConfig(legacyConfig: UnknownRecord): AISettings {
   const migratedConfig = migrateConfig(legacyConfig);
 
   // Validate against current schema
-  const validation = validateSchema<AISettings>(migratedConfig, aiConfigSchemaV1);
+  const validation = validateSchema<AISettings>(migratedConfig, aiConfigSchemaV2);
 
   if (!validation.valid) {
     console.error('Legacy config validation errors:', validation.errors);
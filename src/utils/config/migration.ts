@@ -3,7 +3,7 @@
  * Handles upgrading config from older versions to the current schema
  */
 
-import { AIConfigV1, CURRENT_SCHEMA_VERSION } from './configSchema';
+import { AIConfigV1, AIConfigV2, CURRENT_SCHEMA_VERSION } from './configSchema';
 
 /**
  * Unknown record type for untyped data
@@ -90,33 +90,23 @@ const migrateV0ToV1: Migration<UnknownRecord, AIConfigV1> = {
 };
 
 /**
- * Example migration for future schema changes
- * This shows how to add new migrations when you update the schema
+ * Migration from v1 to v2
+ * Adds provider profiles; existing General AI settings stay as the default provider
  */
-/*
-const migrateV1ToV2: Migration<AIConfigV1, AIConfigV2> = {
+const migrateV1ToV2: Migration<UnknownRecord, AIConfigV2> = {
   fromVersion: 1,
   toVersion: 2,
-  description: 'Add new feature X config',
-  migrate: (oldConfig: AIConfigV1): AIConfigV2 => {
+  description: 'Add named provider profiles and per-feature profile assignments',
+  migrate: (oldConfig: UnknownRecord): AIConfigV2 => {
     return {
-      ...oldConfig,
+      ...(oldConfig as AIConfigV1),
       _version: 2,
-      // Add new fields with defaults
-      newFeature: {
-        enabled: false,
-        option: 'default',
-      },
-      // Transform existing fields if needed
-      speechRecognition: {
-        ...oldConfig.speechRecognition,
-        // Add new speech recognition options
-        newOption: 'value',
-      },
+      profiles: [],
+      activeProfileId: '',
+      featureProfiles: {},
     };
   },
 };
-*/
 
 /**
  * Registry of all migrations, ordered by version
@@ -124,8 +114,8 @@ const migrateV1ToV2: Migration<AIConfigV1, AIConfigV2> = {
  */
 export const MIGRATIONS: Migration[] = [
   migrateV0ToV1,
+  migrateV1ToV2,
   // Future migrations go here:
-  // migrateV1ToV2,
   // migrateV2ToV3,
   // etc.
 ];
@@ -143,13 +133,13 @@ export function getConfigVersion(config: UnknownRecord): number {
  * Migrate config from any version to the current version
  * Applies all necessary migrations in sequence
  */
-export function migrateConfig(config: UnknownRecord): AIConfigV1 {
+export function migrateConfig(config: UnknownRecord): AIConfigV2 {
   let currentVersion = getConfigVersion(config);
   let migratedConfig: UnknownRecord = { ...config };
 
   // If already at current version, return as-is
   if (currentVersion === CURRENT_SCHEMA_VERSION) {
-    return migratedConfig as AIConfigV1;
+    return migratedConfig as AIConfigV2;
   }
 
   // If version is higher than current, this is from a newer version
@@ -176,7 +166,7 @@ export function migrateConfig(config: UnknownRecord): AIConfigV1 {
     currentVersion = migration.toVersion;
   }
 
-  return migratedConfig as AIConfigV1;
+  return migratedConfig as AIConfigV2;
 }
 
 /**
@@ -0,0 +1,99 @@
+/**
+ * Provider Profiles
+ * Resolves which endpoint, key and model each feature should use
+ */
+
+import type { AISettings, ProviderProfile, ProfileFeature } from './settings';
+
+export interface ProviderConfig {
+  apiKey: string;
+  endpoint: string;
+  modelName: string;
+  headers?: Record<string, string>;
+  timeoutSeconds?: number;
+  corsProxy?: string;
+}
+
+export const PROFILE_FEATURES: { feature: ProfileFeature; label: string }[] = [
+  { feature: 'translation', label: 'Translation' },
+  { feature: 'explanation', label: 'Explanation' },
+  { feature: 'qa', label: 'Q&A' },
+  { feature: 'ocr', label: 'Image OCR' },
+  { feature: 'vlm', label: 'VLM' },
+  { feature: 'speech', label: 'Speech (AI Service)' },
+];
+
+/**
+ * Convert a profile's header list into a header map, skipping incomplete rows
+ */
+export function getProfileHeaders(profile: ProviderProfile): Record<string, string> | undefined {
+  const headers = (profile.headers || []).filter(header => header.name.trim());
+  if (headers.length === 0) {
+    return undefined;
+  }
+  return Object.fromEntries(headers.map(header => [header.name.trim(), header.value]));
+}
+
+/**
+ * Convert a profile into the provider config used for requests
+ */
+export function resolveProfile(profile: ProviderProfile): ProviderConfig {
+  return {
+    apiKey: profile.apiKey,
+    endpoint: profile.endpoint,
+    modelName: profile.modelName,
+    headers: getProfileHeaders(profile),
+    timeoutSeconds: profile.timeoutSeconds,
+    corsProxy: profile.corsProxy,
+  };
+}
+
+/**
+ * Find a profile by id
+ */
+export function getProfile(settings: AISettings, id: string | undefined): ProviderProfile | null {
+  if (!id) {
+    return null;
+  }
+  return (settings.profiles || []).find(profile => profile.id === id) || null;
+}
+
+/**
+ * Get the active profile selected in the main UI, or null when the default General AI service is active
+ */
+export function getActiveProfile(settings: AISettings): ProviderProfile | null {
+  return getProfile(settings, settings.activeProfileId);
+}
+
+/**
+ * Resolve the general AI provider: the active profile, falling back to the General AI settings
+ */
+export function resolveGeneralAI(settings: AISettings): ProviderConfig {
+  const active = getActiveProfile(settings);
+  if (active) {
+    return resolveProfile(active);
+  }
+  return { ...settings.generalAI };
+}
+
+/**
+ * Get the profile pinned to a feature, or null when the feature follows its usual settings
+ */
+export function resolveFeatureProfile(settings: AISettings, feature: ProfileFeature): ProviderConfig | null {
+  const profile = getProfile(settings, settings.featureProfiles?.[feature]);
+  return profile ? resolveProfile(profile) : null;
+}
+
+/**
+ * Resolve the provider for a feature that runs on the general AI service (explanation, Q&A)
+ */
+export function resolveTextFeatureProvider(settings: AISettings, feature: 'explanation' | 'qa'): ProviderConfig {
+  return resolveFeatureProfile(settings, feature) || resolveGeneralAI(settings);
+}
+
+/**
+ * Check that a provider has everything needed to make requests
+ */
+export function isProviderConfigured(config: ProviderConfig): boolean {
+  return !!(config.apiKey && config.endpoint && config.modelName);
+}
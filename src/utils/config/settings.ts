@@ -30,13 +30,80 @@ export interface VLMSettings {
   enableThinking: boolean; // Enable thinking mode (show model's reasoning process)
 }
 
+export interface TranslationFallback {
+  profileId: string;
+  modelName?: string; // Overrides the profile's model; unset = use the profile's model
+}
+
+// Register used for translations; 'auto' keeps the tone of the original text
+export type TranslationTone = 'auto' | 'casual' | 'polite' | 'honorific' | 'formal' | 'informal' | 'business';
+
+export interface TranslationToneSetting {
+  targetLang: string;
+  tone: TranslationTone;
+}
+
+// off = never, auto = while offline or when no provider can be reached, always = instead of the providers
+export type OfflineTranslationMode = 'off' | 'auto' | 'always';
+
 export interface TranslationSettings {
   outputMode: 'plain' | 'structured'; // plain = plain text, structured = JSON structured output
+  cacheEnabled?: boolean; // Reuse previous translations stored on this device
+  cacheTTLHours?: number; // How long a cached translation stays valid
+  cacheMaxEntries?: number; // Least recently used translations are evicted beyond this limit
+  streaming?: boolean; // Show plain text translations while they are generated
+  fallbacks?: TranslationFallback[]; // Tried in order when the translation provider is rate limited or unreachable
+  tones?: TranslationToneSetting[]; // Last register picked for each target language
+  candidateCount?: number; // Alternatives requested when checking a translation
+  offlineMode?: OfflineTranslationMode; // When the in-browser model translates instead of the providers
+}
+
+export interface ProviderHeader {
+  name: string;
+  value: string;
+}
+
+export interface ProviderProfile {
+  id: string;
+  name: string; // Display name, e.g. "DashScope" or "Local server"
+  endpoint: string;
+  apiKey: string;
+  modelName: string;
+  headers?: ProviderHeader[]; // Extra request headers sent with every call
+  timeoutSeconds?: number; // Give up when no response starts within this time; 0 = no timeout
+  corsProxy?: string; // Base URL of a CORS proxy; requests go to <proxy>/<full endpoint URL>
+}
+
+// Features that can be pinned to a provider profile
+export type ProfileFeature = 'translation' | 'explanation' | 'qa' | 'ocr' | 'vlm' | 'speech';
+
+// Profile id per feature; unset = follow the active profile
+export type FeatureProfiles = Partial<Record<ProfileFeature, string>>;
+
+// Tabs of the Settings panel
+export type SettingsTab = 'general' | 'translation' | 'speech' | 'image' | 'usage';
+
+export interface ModelPrice {
+  model: string;
+  inputPrice: number; // Per million input tokens
+  outputPrice: number; // Per million output tokens
+  audioPrice?: number; // Per minute of transcribed audio
+}
+
+export interface UsageSettings {
+  prices: ModelPrice[]; // User-entered prices used to estimate cost
+  currency?: string; // Symbol shown before costs, e.g. "$" or "¥"
+  dailyBudget?: number; // Warn before a call once today's estimated cost reaches this; unset = no limit
+  monthlyBudget?: number; // Warn before a call once this month's estimated cost reaches this; unset = no limit
 }
 
 export interface AISettings {
   // General AI service (fallback for all features)
   generalAI: GeneralAISettings;
+  // Named provider profiles
+  profiles: ProviderProfile[];
+  activeProfileId?: string; // Profile used in place of generalAI; unset = use generalAI
+  featureProfiles?: FeatureProfiles;
   // Text translation settings (deprecated, kept for backward compatibility)
   provider: 'openai' | 'custom';
   endpoint: string;
@@ -50,11 +117,19 @@ export interface AISettings {
   imageOCR: ImageOCRSettings;
   // VLM (Vision Language Model) settings
   vlm: VLMSettings;
+  // Usage ledger pricing and budgets
+  usage?: UsageSettings;
 }
 
 export const OPENAI_ENDPOINT = 'https://api.openai.com/v1';
 export const DASHSCOPE_ENDPOINT = 'https://dashscope.aliyuncs.com/compatible-mode/v1';
 export const DASHSCOPE_INTL_ENDPOINT = 'https://dashscope-intl.aliyuncs.com/compatible-mode/v1';
+export const SILICONFLOW_ENDPOINT = 'https://api.siliconflow.cn/v1';
+
+export const DEFAULT_CACHE_TTL_HOURS = 24 * 7; // One week
+export const DEFAULT_CACHE_MAX_ENTRIES = 1000;
+export const DEFAULT_CANDIDATE_COUNT = 3;
+export const DEFAULT_CURRENCY = '$';
 
 export const DEFAULT_SETTINGS: AISettings = {
   generalAI: {
@@ -62,12 +137,23 @@ export const DEFAULT_SETTINGS: AISettings = {
     endpoint: '',
     modelName: '',
   },
+  profiles: [],
+  activeProfileId: '',
+  featureProfiles: {},
   provider: 'openai',
   endpoint: '',
   modelName: '',
   apiKey: '',
   translation: {
     outputMode: 'structured', // Default to structured output for better compatibility
+    cacheEnabled: true,
+    cacheTTLHours: DEFAULT_CACHE_TTL_HOURS,
+    cacheMaxEntries: DEFAULT_CACHE_MAX_ENTRIES,
+    streaming: true,
+    fallbacks: [],
+    tones: [],
+    candidateCount: DEFAULT_CANDIDATE_COUNT,
+    offlineMode: 'auto',
   },
   speechRecognition: {
     provider: 'web-speech',
@@ -87,6 +173,10 @@ export const DEFAULT_SETTINGS: AISettings = {
     useCustom: false,
     enableThinking: false, // Disable thinking mode by default
   },
+  usage: {
+    prices: [],
+    currency: DEFAULT_CURRENCY,
+  },
 };
 
 const SETTINGS_KEY = 'tabitomo_ai_settings';
@@ -140,6 +230,10 @@ export const loadSettings = (): AISettings | null => {
         ...DEFAULT_SETTINGS.generalAI,
         ...(parsed.generalAI || {}),
       },
+      profiles: parsed.profiles || [],
+      featureProfiles: {
+        ...(parsed.featureProfiles || {}),
+      },
       translation: {
         ...DEFAULT_SETTINGS.translation,
         ...(parsed.translation || {}),
@@ -157,6 +251,11 @@ export const loadSettings = (): AISettings | null => {
         ...DEFAULT_SETTINGS.vlm,
         ...(parsed.vlm || {}),
       },
+      usage: {
+        ...DEFAULT_SETTINGS.usage,
+        ...(parsed.usage || {}),
+        prices: parsed.usage?.prices || [],
+      },
     };
   } catch {
     return null;
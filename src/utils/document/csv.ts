@@ -0,0 +1,75 @@
+/**
+ * Delimited Text
+ * Quote-aware CSV/TSV parsing and field escaping, shared by glossary import and document translation
+ */
+
+/**
+ * Guess the delimiter from the first line: tab if present, otherwise comma
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  return firstLine.includes('\t') ? '\t' : ',';
+}
+
+/**
+ * Split delimited text into rows of fields, handling quoted CSV fields
+ * Quotes are only special for comma-separated text; TSV fields are taken literally
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '' && delimiter === ',') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Escape a field for delimited output
+ * CSV fields are quoted if they contain a delimiter, quote or line break;
+ * TSV has no quoting, so tabs and line breaks inside fields become spaces
+ */
+export function escapeDelimitedField(value: string, delimiter: string): string {
+  if (delimiter === '\t') {
+    return value.replace(/[\t\r\n]+/g, ' ');
+  }
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
@@ -0,0 +1,345 @@
+/**
+ * Document Translation
+ * Splits .txt, .md, .srt and .csv files into translatable segments, translates them with bounded
+ * concurrency and rebuilds the file in its original format
+ */
+
+import { AISettings } from '../config/settings';
+import { translateTextCached } from '../translation/cache';
+import type { LanguageCode } from '../translation/translation';
+import { detectDelimiter, parseDelimited, escapeDelimitedField } from './csv';
+
+export type DocumentFormat = 'txt' | 'md' | 'srt' | 'csv';
+
+// A piece of the document: kept as-is, or replaced by the translation of a segment
+type DocumentPart = string | { segment: number; delimiter?: string };
+
+export interface SplitDocument {
+  format: DocumentFormat;
+  segments: string[]; // Text to translate, in document order
+  parts: DocumentPart[];
+}
+
+export interface CsvOptions {
+  columns: number[]; // Indexes of the columns to translate
+  hasHeader: boolean; // The first row holds column names and is kept as-is
+}
+
+export type SegmentStatus = 'pending' | 'translating' | 'done' | 'error';
+
+export interface DocumentTranslationOptions {
+  concurrency?: number;
+  abortSignal?: AbortSignal;
+  completed?: Array<string | undefined>; // Translations from an earlier run; these segments are not sent again
+  onProgress?: (index: number, status: SegmentStatus, translation?: string) => void;
+}
+
+// Segments translated at the same time
+export const DEFAULT_DOCUMENT_CONCURRENCY = 3;
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  txt: 'txt',
+  text: 'txt',
+  md: 'md',
+  markdown: 'md',
+  srt: 'srt',
+  csv: 'csv',
+  tsv: 'csv',
+};
+
+const MIME_TYPES: Record<DocumentFormat, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  srt: 'application/x-subrip',
+  csv: 'text/csv',
+};
+
+/**
+ * Get the document format from a file name
+ * @returns The format, or null if the file type is not supported
+ */
+export function getDocumentFormat(fileName: string): DocumentFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  return EXTENSIONS[extension] || null;
+}
+
+/**
+ * Normalize line endings so splitting only has to handle \n
+ */
+const normalizeText = (text: string): string => text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+/**
+ * Split plain text into paragraphs separated by blank lines
+ */
+const splitPlainText = (text: string): SplitDocument => {
+  const segments: string[] = [];
+  const parts: DocumentPart[] = [];
+
+  // Odd pieces are the blank lines between paragraphs
+  text.split(/(\n[ \t]*\n+)/).forEach((piece, index) => {
+    if (index % 2 === 0 && piece.trim()) {
+      // Keep leading and trailing whitespace of the paragraph outside the segment
+      const [, leading, body, trailing] = piece.match(/^(\s*)([\s\S]*?)(\s*)$/) || ['', '', piece, ''];
+      parts.push(leading, { segment: segments.length }, trailing);
+      segments.push(body);
+    } else {
+      parts.push(piece);
+    }
+  });
+
+  return { format: 'txt', segments, parts };
+};
+
+// Markdown line prefixes kept outside the segment: headings, block quotes and list items
+const MARKDOWN_PREFIX = /^(\s*(?:#{1,6}\s+|>\s?|[-*+]\s+(?:\[[ xX]\]\s+)?|\d+[.)]\s+)+)(.*)$/;
+// Lines with nothing to translate: horizontal rules, table separators, HTML comments and tags
+const MARKDOWN_LITERAL = /^\s*(?:(?:[-*_]\s*){3,}|\|?[\s:|-]+\|[\s:|-]*|<!--.*-->|<\/?[a-zA-Z][^>]*>)\s*$/;
+const FENCE = /^\s*(`{3,}|~{3,})/;
+
+/**
+ * Split Markdown into blocks
+ * Fenced code blocks and front matter are kept untouched; headings, quotes and list items are
+ * translated line by line with their markers preserved; other lines are grouped into paragraphs
+ */
+const splitMarkdown = (text: string): SplitDocument => {
+  const segments: string[] = [];
+  const parts: DocumentPart[] = [];
+  const lines = text.split('\n');
+  let paragraph: string[] = [];
+  let fence: string | null = null;
+
+  const addSegment = (segment: string) => {
+    parts.push({ segment: segments.length });
+    segments.push(segment);
+  };
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      addSegment(paragraph.join('\n'));
+      parts.push('\n');
+      paragraph = [];
+    }
+  };
+
+  let index = 0;
+
+  // Front matter
+  if (lines[0] === '---') {
+    const end = lines.indexOf('---', 1);
+    if (end > 0) {
+      parts.push(lines.slice(0, end + 1).join('\n') + '\n');
+      index = end + 1;
+    }
+  }
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    const newline = index < lines.length - 1 ? '\n' : '';
+
+    if (fence) {
+      parts.push(line + newline);
+      if (line.trim().startsWith(fence)) {
+        fence = null;
+      }
+      continue;
+    }
+
+    const fenceMatch = line.match(FENCE);
+    if (fenceMatch) {
+      flushParagraph();
+      fence = fenceMatch[1];
+      parts.push(line + newline);
+      continue;
+    }
+
+    if (!line.trim() || MARKDOWN_LITERAL.test(line)) {
+      flushParagraph();
+      parts.push(line + newline);
+      continue;
+    }
+
+    const prefixMatch = line.match(MARKDOWN_PREFIX);
+    if (prefixMatch && prefixMatch[2].trim()) {
+      flushParagraph();
+      parts.push(prefixMatch[1]);
+      addSegment(prefixMatch[2]);
+      parts.push(newline);
+      continue;
+    }
+
+    paragraph.push(line);
+    if (!newline) {
+      // The last paragraph has no line break after it
+      addSegment(paragraph.join('\n'));
+      paragraph = [];
+    }
+  }
+
+  flushParagraph();
+  return { format: 'md', segments, parts };
+};
+
+/**
+ * Split SubRip subtitles into cues; cue numbers and timings are kept as-is
+ */
+const splitSubtitles = (text: string): SplitDocument => {
+  const segments: string[] = [];
+  const parts: DocumentPart[] = [];
+
+  // Odd pieces are the blank lines between cues
+  text.split(/(\n[ \t]*\n+)/).forEach((piece, index) => {
+    const lines = piece.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    const cueText = timingIndex >= 0 ? lines.slice(timingIndex + 1).join('\n') : '';
+
+    if (index % 2 === 1 || !cueText.trim()) {
+      parts.push(piece);
+      return;
+    }
+
+    const trailing = cueText.match(/\s*$/)?.[0] || '';
+    parts.push(lines.slice(0, timingIndex + 1).join('\n') + '\n', { segment: segments.length }, trailing);
+    segments.push(cueText.slice(0, cueText.length - trailing.length));
+  });
+
+  return { format: 'srt', segments, parts };
+};
+
+/**
+ * Get the column names of a CSV/TSV file, from the header row or by position
+ */
+export function getCsvColumns(text: string, hasHeader: boolean): string[] {
+  const content = normalizeText(text);
+  const [firstRow = []] = parseDelimited(content, detectDelimiter(content));
+  return firstRow.map((name, index) => (hasHeader && name.trim()) || `Column ${index + 1}`);
+}
+
+/**
+ * Split CSV/TSV into cells; only the selected columns are translated
+ */
+const splitCsv = (text: string, options: CsvOptions): SplitDocument => {
+  const delimiter = detectDelimiter(text);
+  const rows = parseDelimited(text.replace(/\n$/, ''), delimiter);
+  const segments: string[] = [];
+  const parts: DocumentPart[] = [];
+
+  rows.forEach((row, rowIndex) => {
+    row.forEach((cell, columnIndex) => {
+      if (columnIndex > 0) {
+        parts.push(delimiter);
+      }
+
+      const isTranslated = options.columns.includes(columnIndex) && !(options.hasHeader && rowIndex === 0);
+      if (isTranslated && cell.trim()) {
+        parts.push({ segment: segments.length, delimiter });
+        segments.push(cell);
+      } else {
+        parts.push(escapeDelimitedField(cell, delimiter));
+      }
+    });
+    parts.push('\n');
+  });
+
+  return { format: 'csv', segments, parts };
+};
+
+/**
+ * Split a document into translatable segments, respecting its format
+ */
+export function splitDocument(text: string, format: DocumentFormat, csvOptions: CsvOptions = { columns: [], hasHeader: true }): SplitDocument {
+  const content = normalizeText(text);
+  switch (format) {
+    case 'md':
+      return splitMarkdown(content);
+    case 'srt':
+      return splitSubtitles(content);
+    case 'csv':
+      return splitCsv(content, csvOptions);
+    default:
+      return splitPlainText(content);
+  }
+}
+
+/**
+ * Rebuild the document with translated segments
+ * Segments without a translation keep their original text
+ */
+export function joinDocument(doc: SplitDocument, translations: Array<string | undefined>): string {
+  return doc.parts
+    .map(part => {
+      if (typeof part === 'string') {
+        return part;
+      }
+      const text = translations[part.segment] ?? doc.segments[part.segment];
+      return part.delimiter ? escapeDelimitedField(text, part.delimiter) : text;
+    })
+    .join('');
+}
+
+/**
+ * Translate all segments of a document, a few at a time
+ * A failed segment is reported through onProgress and keeps its original text; cancelling stops
+ * all remaining segments, and passing the partial result as `completed` resumes where it left off
+ * @returns Translations by segment index, undefined for failed segments
+ */
+export async function translateDocument(
+  doc: SplitDocument,
+  sourceLang: LanguageCode,
+  targetLang: LanguageCode,
+  settings: AISettings,
+  options: DocumentTranslationOptions = {}
+): Promise<Array<string | undefined>> {
+  const { concurrency = DEFAULT_DOCUMENT_CONCURRENCY, abortSignal, completed = [], onProgress } = options;
+  const translations = doc.segments.map((_, index) => completed[index]);
+  const queue = doc.segments.map((_, index) => index).filter(index => translations[index] === undefined);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < queue.length) {
+      if (abortSignal?.aborted) {
+        return;
+      }
+
+      const index = queue[next++];
+      onProgress?.(index, 'translating');
+
+      try {
+        translations[index] = await translateTextCached(doc.segments[index], sourceLang, targetLang, settings, abortSignal);
+        onProgress?.(index, 'done', translations[index]);
+      } catch (error) {
+        if (abortSignal?.aborted) {
+          return;
+        }
+        console.error(`[Document] Failed to translate segment ${index + 1}:`, error);
+        onProgress?.(index, 'error');
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+
+  if (abortSignal?.aborted) {
+    throw new DOMException('Document translation was cancelled', 'AbortError');
+  }
+  return translations;
+}
+
+/**
+ * Download a translated document, named after the original file and the target language
+ */
+export function downloadDocument(content: string, fileName: string, format: DocumentFormat, targetLang: LanguageCode): void {
+  const dot = fileName.lastIndexOf('.');
+  const baseName = dot > 0 ? fileName.slice(0, dot) : fileName;
+  const extension = dot > 0 ? fileName.slice(dot + 1) : format;
+
+  const blob = new Blob([content], { type: MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${baseName}.${targetLang}.${extension}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
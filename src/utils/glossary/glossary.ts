@@ -0,0 +1,226 @@
+/**
+ * Glossary
+ * User-managed source → target terms per language pair, enforced in translation prompts
+ */
+
+import { STORES, withStore, promisifyRequest, createId } from '../storage/db';
+import { SUPPORTED_LANGUAGES, type LanguageCode } from '../translation/translation';
+import { detectDelimiter, parseDelimited, escapeDelimitedField } from '../document/csv';
+
+export interface GlossaryEntry {
+  id: string;
+  sourceLang: LanguageCode;
+  targetLang: LanguageCode;
+  sourceTerm: string;
+  targetTerm: string;
+  note: string; // e.g. "brand name, never translate"
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type NewGlossaryEntry = Pick<GlossaryEntry, 'sourceLang' | 'targetLang' | 'sourceTerm' | 'targetTerm'> & { note?: string };
+
+export type GlossaryFormat = 'csv' | 'tsv';
+
+// Column order for CSV/TSV import and export
+const COLUMNS = ['source_lang', 'target_lang', 'source_term', 'target_term', 'note'] as const;
+
+// Most entries injected into a prompt when the source text is unknown (image translation)
+const MAX_PROMPT_ENTRIES = 50;
+
+const normalizeTerm = (text: string): string => text.normalize('NFC').toLowerCase();
+
+/**
+ * Check if a term appears in text
+ * Terms made of letters and digits must match whole words, so "tea" does not match "steak";
+ * CJK and other unspaced scripts match anywhere
+ */
+const containsTerm = (text: string, term: string): boolean => {
+  const haystack = normalizeTerm(text);
+  const needle = normalizeTerm(term.trim());
+  if (!needle) {
+    return false;
+  }
+
+  if (/^[\p{Script=Latin}\p{Script=Cyrillic}\p{Script=Greek}\d\s'-]+$/u.test(needle)) {
+    const escaped = needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'u').test(haystack);
+  }
+  return haystack.includes(needle);
+};
+
+/**
+ * List glossary entries, optionally for a single language pair, sorted by source term
+ */
+export async function listGlossary(sourceLang?: LanguageCode, targetLang?: LanguageCode): Promise<GlossaryEntry[]> {
+  const entries = await withStore(STORES.glossary, 'readonly', (store) =>
+    promisifyRequest(sourceLang && targetLang
+      ? store.index('langPair').getAll([sourceLang, targetLang])
+      : store.getAll())
+  ) as GlossaryEntry[];
+  return entries.sort((a, b) => a.sourceTerm.localeCompare(b.sourceTerm));
+}
+
+/**
+ * Add a glossary entry
+ * An existing entry for the same term and language pair is updated instead of duplicated
+ */
+export async function addGlossaryEntry(entry: NewGlossaryEntry): Promise<GlossaryEntry> {
+  const sourceTerm = entry.sourceTerm.trim();
+  const targetTerm = entry.targetTerm.trim();
+  if (!sourceTerm || !targetTerm) {
+    throw new Error('Both the source term and the target term are required');
+  }
+
+  const existing = (await listGlossary(entry.sourceLang, entry.targetLang))
+    .find(item => normalizeTerm(item.sourceTerm) === normalizeTerm(sourceTerm));
+
+  const now = Date.now();
+  const record: GlossaryEntry = {
+    id: existing?.id || createId(),
+    sourceLang: entry.sourceLang,
+    targetLang: entry.targetLang,
+    sourceTerm,
+    targetTerm,
+    note: entry.note?.trim() || '',
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+
+  await withStore(STORES.glossary, 'readwrite', (store) => promisifyRequest(store.put(record)));
+  return record;
+}
+
+/**
+ * Delete a glossary entry
+ */
+export async function deleteGlossaryEntry(id: string): Promise<void> {
+  await withStore(STORES.glossary, 'readwrite', (store) => promisifyRequest(store.delete(id)));
+}
+
+/**
+ * Find the glossary entries whose source term appears in the text
+ */
+export async function findGlossaryMatches(
+  text: string,
+  sourceLang: LanguageCode,
+  targetLang: LanguageCode
+): Promise<GlossaryEntry[]> {
+  try {
+    const entries = await listGlossary(sourceLang, targetLang);
+    return entries.filter(entry => containsTerm(text, entry.sourceTerm));
+  } catch (error) {
+    // The glossary is optional, never fail a translation because of it
+    console.warn('[Glossary] Failed to load glossary:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the glossary entries to include when the source text is not known in advance (e.g. images)
+ */
+export async function getGlossaryForPair(sourceLang: LanguageCode, targetLang: LanguageCode): Promise<GlossaryEntry[]> {
+  try {
+    return (await listGlossary(sourceLang, targetLang)).slice(0, MAX_PROMPT_ENTRIES);
+  } catch (error) {
+    console.warn('[Glossary] Failed to load glossary:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the matched entries whose target term is missing from the translation
+ */
+export function findGlossaryMisses(translation: string, matches: GlossaryEntry[]): GlossaryEntry[] {
+  return matches.filter(entry => !containsTerm(translation, entry.targetTerm));
+}
+
+/**
+ * Format glossary entries as prompt instructions for general AI and vision models
+ */
+export function formatGlossaryForPrompt(entries: GlossaryEntry[]): string {
+  const lines = entries.map(entry =>
+    `- "${entry.sourceTerm}" → "${entry.targetTerm}"${entry.note ? ` (${entry.note})` : ''}`
+  );
+  return `Glossary (always translate these terms exactly as given):\n${lines.join('\n')}`;
+}
+
+/**
+ * Serialize glossary entries as CSV or TSV with a header row
+ */
+export function serializeGlossary(entries: GlossaryEntry[], format: GlossaryFormat): string {
+  const delimiter = format === 'csv' ? ',' : '\t';
+  const rows = entries.map(entry =>
+    [entry.sourceLang, entry.targetLang, entry.sourceTerm, entry.targetTerm, entry.note]
+      .map(value => escapeDelimitedField(value, delimiter))
+      .join(delimiter)
+  );
+  return [COLUMNS.join(delimiter), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Parse CSV or TSV glossary text
+ * The format is detected from the first line; a header row is optional.
+ * Rows with unsupported language codes or missing terms are skipped.
+ */
+export function parseGlossary(text: string): { entries: NewGlossaryEntry[]; skipped: number } {
+  const content = text.replace(/^\uFEFF/, '');
+  const rows = parseDelimited(content, detectDelimiter(content))
+    .filter(fields => fields.some(value => value.trim()));
+
+  if (rows.length > 0 && rows[0][0]?.trim().toLowerCase() === COLUMNS[0]) {
+    rows.shift();
+  }
+
+  const entries: NewGlossaryEntry[] = [];
+  let skipped = 0;
+
+  for (const [sourceLang = '', targetLang = '', sourceTerm = '', targetTerm = '', note = ''] of rows) {
+    const source = sourceLang.trim();
+    const target = targetLang.trim();
+    if (!(source in SUPPORTED_LANGUAGES) || !(target in SUPPORTED_LANGUAGES) || !sourceTerm.trim() || !targetTerm.trim()) {
+      skipped++;
+      continue;
+    }
+    entries.push({
+      sourceLang: source as LanguageCode,
+      targetLang: target as LanguageCode,
+      sourceTerm,
+      targetTerm,
+      note,
+    });
+  }
+
+  return { entries, skipped };
+}
+
+/**
+ * Import glossary entries from CSV or TSV text
+ * @returns Number of entries imported and rows skipped
+ */
+export async function importGlossary(text: string): Promise<{ imported: number; skipped: number }> {
+  const { entries, skipped } = parseGlossary(text);
+  for (const entry of entries) {
+    await addGlossaryEntry(entry);
+  }
+  return { imported: entries.length, skipped };
+}
+
+/**
+ * Download the whole glossary as a CSV or TSV file
+ */
+export async function exportGlossaryToFile(format: GlossaryFormat): Promise<void> {
+  const entries = await listGlossary();
+  const blob = new Blob([serializeGlossary(entries, format)], {
+    type: format === 'csv' ? 'text/csv' : 'text/tab-separated-values',
+  });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `tabitomo-glossary-${Date.now()}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,115 @@
+/**
+ * Translation History
+ * Persists every translation, explanation, Q&A answer and image translation in IndexedDB
+ */
+
+import { STORES, withStore, promisifyRequest, iterateCursor, createId } from '../storage/db';
+import type { LanguageCode } from '../translation/translation';
+
+export type HistoryMode = 'translation' | 'explanation' | 'qa' | 'image-ocr' | 'image-vlm';
+
+export interface HistoryEntry {
+  id: string;
+  mode: HistoryMode;
+  sourceLang: LanguageCode;
+  targetLang: LanguageCode;
+  sourceText: string;
+  resultText: string;
+  thumbnail?: string; // Downscaled JPEG data URL (image modes only)
+  createdAt: number;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'createdAt'>;
+
+// Oldest entries beyond this limit are pruned on insert
+const MAX_HISTORY_ENTRIES = 500;
+
+/**
+ * Add a new entry to the history
+ */
+export async function addHistoryEntry(entry: NewHistoryEntry): Promise<HistoryEntry> {
+  const record: HistoryEntry = {
+    ...entry,
+    id: createId(),
+    createdAt: Date.now(),
+  };
+
+  await withStore(STORES.history, 'readwrite', (store) => promisifyRequest(store.put(record)));
+  await pruneHistory();
+
+  return record;
+}
+
+/**
+ * Replace an existing entry, keeping its id and refreshing its timestamp
+ */
+export async function updateHistoryEntry(id: string, entry: NewHistoryEntry): Promise<HistoryEntry> {
+  const record: HistoryEntry = {
+    ...entry,
+    id,
+    createdAt: Date.now(),
+  };
+
+  await withStore(STORES.history, 'readwrite', (store) => promisifyRequest(store.put(record)));
+
+  return record;
+}
+
+/**
+ * List history entries, newest first
+ * @param query - Optional case-insensitive search over source and result text
+ * @param limit - Maximum number of entries to return
+ */
+export async function listHistory(query = '', limit = 200): Promise<HistoryEntry[]> {
+  const needle = query.trim().toLowerCase();
+  const entries: HistoryEntry[] = [];
+
+  await withStore(STORES.history, 'readonly', (store) =>
+    iterateCursor(store.index('createdAt').openCursor(null, 'prev'), (cursor) => {
+      const entry = cursor.value as HistoryEntry;
+      if (
+        !needle ||
+        entry.sourceText.toLowerCase().includes(needle) ||
+        entry.resultText.toLowerCase().includes(needle)
+      ) {
+        entries.push(entry);
+      }
+      return entries.length < limit;
+    })
+  );
+
+  return entries;
+}
+
+/**
+ * Delete a single history entry
+ */
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await withStore(STORES.history, 'readwrite', (store) => promisifyRequest(store.delete(id)));
+}
+
+/**
+ * Delete all history entries
+ */
+export async function clearHistory(): Promise<void> {
+  await withStore(STORES.history, 'readwrite', (store) => promisifyRequest(store.clear()));
+}
+
+/**
+ * Remove the oldest entries once the history grows beyond its limit
+ */
+async function pruneHistory(): Promise<void> {
+  await withStore(STORES.history, 'readwrite', async (store) => {
+    const count = await promisifyRequest(store.count());
+    let excess = count - MAX_HISTORY_ENTRIES;
+    if (excess <= 0) {
+      return;
+    }
+
+    await iterateCursor(store.index('createdAt').openCursor(), (cursor) => {
+      cursor.delete();
+      excess--;
+      return excess > 0;
+    });
+  });
+}
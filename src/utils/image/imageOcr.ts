@@ -1,9 +1,11 @@
-import OpenAI from 'openai';
 import { generateObject, streamText } from 'ai';
-import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
 import { z } from 'zod';
-import { ImageOCRSettings, AISettings } from '../config/settings';
+import { AISettings } from '../config/settings';
 import { SUPPORTED_LANGUAGES, type LanguageCode } from '../translation/translation';
+import { createAIClient, createOpenAIClient, resolveOCRProvider, resolveVLMProvider } from '../ai/provider';
+import { normalizeProviderError } from '../ai/errors';
+import { recordUsage } from '../usage/usage';
+import { getGlossaryForPair, formatGlossaryForPrompt } from '../glossary/glossary';
 
 export interface OCRTextLocation {
   text: string;
@@ -42,24 +44,20 @@ interface OCRResponseFlat {
 type OCRResponse = OCRResponseStandard | OCRResponseFlat | OCRWordInfo[] | { ocr_result: Record<string, unknown> } | string;
 
 /**
- * Perform OCR on image using Qwen VL OCR or custom provider
+ * Perform OCR on image using the OCR provider (see resolveOCRProvider)
  */
 export async function performOCR(
   imageBase64: string,
-  settings: ImageOCRSettings
+  settings: AISettings
 ): Promise<OCRTextLocation[]> {
+  const provider = resolveOCRProvider(settings);
+  const { modelName } = provider;
+
   console.log('[OCR API] Starting OCR with OpenAI SDK');
-  console.log('[OCR API] Provider:', settings.provider);
-  console.log('[OCR API] Endpoint:', settings.endpoint);
+  console.log('[OCR API] Endpoint:', provider.endpoint);
   console.log('[OCR API] Image data length:', imageBase64.length);
 
-  const client = new OpenAI({
-    apiKey: settings.apiKey,
-    baseURL: settings.endpoint,
-    dangerouslyAllowBrowser: true,
-  });
-
-  const modelName = settings.provider === 'qwen' ? 'qwen-vl-ocr-latest' : (settings.modelName || 'qwen-vl-ocr-latest');
+  const client = createOpenAIClient(provider);
 
   const prompt = `定位所有的文字行，并按顺时针返回文本坐标位置([x1, y1, x2, y2, x3, y3, x4, y4])和旋转矩形([cx, cy, width, height, angle])的坐标结果。
 
@@ -107,6 +105,10 @@ export async function performOCR(
     });
 
     console.log('[OCR API] Response received');
+    recordUsage('ocr', provider, {
+      inputTokens: completion.usage?.prompt_tokens,
+      outputTokens: completion.usage?.completion_tokens,
+    });
     const content = completion.choices[0].message.content;
     console.log('[OCR API] Raw content:', content);
 
@@ -182,53 +184,14 @@ export async function performOCR(
     return ocrResults;
   } catch (error) {
     console.error('[OCR API] Error:', error);
-
-    // Provide user-friendly error messages
-    if (error instanceof Error) {
-      const errorMsg = error.message.toLowerCase();
-
-      // API Key errors
-      if (errorMsg.includes('api key') || errorMsg.includes('unauthorized') || errorMsg.includes('401')) {
-        throw new Error('Invalid OCR API key. Please check your Image OCR settings.');
-      }
-
-      // Network errors
-      if (errorMsg.includes('network') || errorMsg.includes('fetch') || errorMsg.includes('econnrefused')) {
-        throw new Error('Network error. Please check your internet connection and OCR endpoint.');
-      }
-
-      // Endpoint errors
-      if (errorMsg.includes('404') || errorMsg.includes('not found')) {
-        throw new Error('Invalid OCR endpoint. Please check your Image OCR endpoint URL in Settings.');
-      }
-
-      // Rate limit errors
-      if (errorMsg.includes('rate limit') || errorMsg.includes('429') || errorMsg.includes('quota')) {
-        throw new Error('OCR API rate limit exceeded. Please try again later.');
-      }
-
-      // Image format errors
-      if (errorMsg.includes('image') || errorMsg.includes('format') || errorMsg.includes('invalid')) {
-        throw new Error('Invalid image format. Please use JPG, PNG, or other supported formats.');
-      }
-
-      // Timeout errors
-      if (errorMsg.includes('timeout') || errorMsg.includes('timed out')) {
-        throw new Error('OCR request timed out. Please try again.');
-      }
-
-      // Generic error with original message
-      throw new Error(`OCR failed: ${error.message}`);
-    }
-
-    throw new Error('OCR failed. Please try again.');
+    throw normalizeProviderError(error);
   }
 }
 
 /**
- * Convert image file to base64
+ * Convert image file (or any image blob) to base64
  */
-export function imageToBase64(file: File): Promise<string> {
+export function imageToBase64(file: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = () => resolve(reader.result as string);
@@ -250,46 +213,15 @@ export async function translateImageWithVLM(
   console.log('[VLM Translation] Source language:', sourceLang);
   console.log('[VLM Translation] Target language:', targetLang);
 
-  // Determine which settings to use
-  const vlmConfig = settings.vlm;
-  let apiKey: string;
-  let endpoint: string;
-  let modelName: string;
-
-  if (vlmConfig.useGeneralAI) {
-    // Use general AI settings
-    apiKey = settings.generalAI.apiKey;
-    endpoint = settings.generalAI.endpoint;
-    modelName = settings.generalAI.modelName;
-    console.log('[VLM Translation] Using General AI settings');
-  } else if (vlmConfig.useCustom && vlmConfig.apiKey && vlmConfig.endpoint && vlmConfig.modelName) {
-    // Use custom VLM settings
-    apiKey = vlmConfig.apiKey;
-    endpoint = vlmConfig.endpoint;
-    modelName = vlmConfig.modelName;
-    console.log('[VLM Translation] Using custom VLM settings');
-  } else {
-    // Use OCR settings
-    apiKey = settings.imageOCR.apiKey;
-    endpoint = settings.imageOCR.endpoint;
-    modelName = settings.imageOCR.provider === 'qwen'
-      ? 'qwen-vl-max-latest'
-      : (settings.imageOCR.modelName || 'gpt-4o');
-    console.log('[VLM Translation] Using OCR settings');
-  }
-
-  console.log('[VLM Translation] Endpoint:', endpoint);
-  console.log('[VLM Translation] Model:', modelName);
+  const provider = resolveVLMProvider(settings);
+  console.log('[VLM Translation] Endpoint:', provider.endpoint);
+  console.log('[VLM Translation] Model:', provider.modelName);
 
   const sourceLanguageName = SUPPORTED_LANGUAGES[sourceLang];
   const targetLanguageName = SUPPORTED_LANGUAGES[targetLang];
 
   // Create AI SDK client
-  const client = createOpenAICompatible({
-    name: 'vlm-provider',
-    apiKey,
-    baseURL: endpoint,
-  });
+  const client = createAIClient(provider, 'vlm-provider');
 
   // Translation result schema
   const translationSchema = z.object({
@@ -300,7 +232,7 @@ export async function translateImageWithVLM(
 
   try {
     const result = await generateObject({
-      model: client(modelName),
+      model: client(provider.modelName),
       schema: translationSchema,
       system: `You are a professional translator specializing in image content translation. Your task is to:
 1. Identify and extract all text content from the provided image
@@ -326,6 +258,7 @@ export async function translateImageWithVLM(
     });
 
     console.log('[VLM Translation] Translation completed');
+    recordUsage('vlm', provider, result.usage);
     console.log('[VLM Translation] Raw result:', result.object.translated_text);
 
     // Clean up thinking output if present
@@ -347,51 +280,7 @@ export async function translateImageWithVLM(
     return cleanedText;
   } catch (error) {
     console.error('[VLM Translation] Error:', error);
-
-    // Provide user-friendly error messages
-    if (error instanceof Error) {
-      const errorMsg = error.message.toLowerCase();
-
-      // API Key errors
-      if (errorMsg.includes('api key') || errorMsg.includes('unauthorized') || errorMsg.includes('401')) {
-        throw new Error('Invalid VLM API key. Please check your VLM settings.');
-      }
-
-      // Network errors
-      if (errorMsg.includes('network') || errorMsg.includes('fetch') || errorMsg.includes('econnrefused')) {
-        throw new Error('Network error. Please check your internet connection and VLM endpoint.');
-      }
-
-      // Endpoint errors
-      if (errorMsg.includes('404') || errorMsg.includes('not found')) {
-        throw new Error('Invalid VLM endpoint. Please check your VLM endpoint URL in Settings.');
-      }
-
-      // Rate limit errors
-      if (errorMsg.includes('rate limit') || errorMsg.includes('429') || errorMsg.includes('quota')) {
-        throw new Error('VLM API rate limit exceeded. Please try again later.');
-      }
-
-      // Model errors
-      if (errorMsg.includes('model') || errorMsg.includes('not support')) {
-        throw new Error('VLM model error. Please check your VLM model name in Settings.');
-      }
-
-      // Image errors
-      if (errorMsg.includes('image') || errorMsg.includes('format') || errorMsg.includes('invalid')) {
-        throw new Error('Invalid image format. Please use JPG, PNG, or other supported formats.');
-      }
-
-      // Timeout errors
-      if (errorMsg.includes('timeout') || errorMsg.includes('timed out')) {
-        throw new Error('VLM request timed out. Please try again.');
-      }
-
-      // Generic error with original message
-      throw new Error(`VLM translation failed: ${error.message}`);
-    }
-
-    throw new Error('VLM translation failed. Please try again.');
+    throw normalizeProviderError(error);
   }
 }
 
@@ -410,52 +299,26 @@ export async function* streamTranslateImageWithVLM(
   console.log('[VLM Streaming] Target language:', targetLang);
   console.log('[VLM Streaming] Thinking mode:', settings.vlm.enableThinking);
 
-  // Determine which settings to use
-  const vlmConfig = settings.vlm;
-  let apiKey: string;
-  let endpoint: string;
-  let modelName: string;
-
-  if (vlmConfig.useGeneralAI) {
-    // Use general AI settings
-    apiKey = settings.generalAI.apiKey;
-    endpoint = settings.generalAI.endpoint;
-    modelName = settings.generalAI.modelName;
-    console.log('[VLM Streaming] Using General AI settings');
-  } else if (vlmConfig.useCustom && vlmConfig.apiKey && vlmConfig.endpoint && vlmConfig.modelName) {
-    // Use custom VLM settings
-    apiKey = vlmConfig.apiKey;
-    endpoint = vlmConfig.endpoint;
-    modelName = vlmConfig.modelName;
-    console.log('[VLM Streaming] Using custom VLM settings');
-  } else {
-    // Use OCR settings
-    apiKey = settings.imageOCR.apiKey;
-    endpoint = settings.imageOCR.endpoint;
-    modelName = settings.imageOCR.provider === 'qwen'
-      ? 'qwen-vl-max-latest'
-      : (settings.imageOCR.modelName || 'gpt-4o');
-    console.log('[VLM Streaming] Using OCR settings');
-  }
-
-  console.log('[VLM Streaming] Endpoint:', endpoint);
-  console.log('[VLM Streaming] Model:', modelName);
+  const provider = resolveVLMProvider(settings);
+  console.log('[VLM Streaming] Endpoint:', provider.endpoint);
+  console.log('[VLM Streaming] Model:', provider.modelName);
 
   const sourceLanguageName = SUPPORTED_LANGUAGES[sourceLang];
   const targetLanguageName = SUPPORTED_LANGUAGES[targetLang];
 
+  // The image text is unknown until the model reads it, so include the whole glossary for the language pair
+  const glossary = await getGlossaryForPair(sourceLang, targetLang);
+
   // Create AI SDK client
-  const client = createOpenAICompatible({
-    name: 'vlm-provider',
-    apiKey,
-    baseURL: endpoint,
-  });
+  const client = createAIClient(provider, 'vlm-provider');
 
   console.log('[VLM Streaming] Sending request');
 
   try {
-    const result = await streamText({
-      model: client(modelName),
+    // streamText reports errors through onError instead of throwing from textStream
+    let streamError: unknown = null;
+    const result = streamText({
+      model: client(provider.modelName),
       messages: [
         {
           role: 'system',
@@ -465,7 +328,7 @@ export async function* streamTranslateImageWithVLM(
 3. Preserve the original formatting, line breaks, and structure
 4. Maintain the tone and style of the original text
 5. For any cultural references or idioms, provide natural equivalent expressions in the target language
-${settings.vlm.enableThinking ? '\n6. You may include your thinking process using <think></think> tags, which will be displayed to the user.' : '\n6. Do NOT include thinking process or reasoning. Provide only the final translation.'}`,
+${settings.vlm.enableThinking ? '\n6. You may include your thinking process using <think></think> tags, which will be displayed to the user.' : '\n6. Do NOT include thinking process or reasoning. Provide only the final translation.'}${glossary.length > 0 ? `\n\n${formatGlossaryForPrompt(glossary)}` : ''}`,
         },
         {
           role: 'user',
@@ -482,6 +345,12 @@ ${settings.vlm.enableThinking ? '\n6. You may include your thinking process usin
         },
       ],
       abortSignal,
+      onError: ({ error }) => {
+        streamError = error;
+      },
+      onFinish: ({ totalUsage }) => {
+        recordUsage('vlm', provider, totalUsage);
+      },
     });
 
     let inThinkTag = false;
@@ -561,6 +430,10 @@ ${settings.vlm.enableThinking ? '\n6. You may include your thinking process usin
       }
     }
 
+    if (streamError) {
+      throw streamError;
+    }
+
     // Handle any remaining buffer
     if (buffer.length > 0 && (!inThinkTag || settings.vlm.enableThinking)) {
       yield buffer;
@@ -569,51 +442,7 @@ ${settings.vlm.enableThinking ? '\n6. You may include your thinking process usin
     console.log('[VLM Streaming] Translation completed');
   } catch (error) {
     console.error('[VLM Streaming] Error:', error);
-
-    // Provide user-friendly error messages
-    if (error instanceof Error) {
-      const errorMsg = error.message.toLowerCase();
-
-      // API Key errors
-      if (errorMsg.includes('api key') || errorMsg.includes('unauthorized') || errorMsg.includes('401')) {
-        throw new Error('Invalid VLM API key. Please check your VLM settings.');
-      }
-
-      // Network errors
-      if (errorMsg.includes('network') || errorMsg.includes('fetch') || errorMsg.includes('econnrefused')) {
-        throw new Error('Network error. Please check your internet connection and VLM endpoint.');
-      }
-
-      // Endpoint errors
-      if (errorMsg.includes('404') || errorMsg.includes('not found')) {
-        throw new Error('Invalid VLM endpoint. Please check your VLM endpoint URL in Settings.');
-      }
-
-      // Rate limit errors
-      if (errorMsg.includes('rate limit') || errorMsg.includes('429') || errorMsg.includes('quota')) {
-        throw new Error('VLM API rate limit exceeded. Please try again later.');
-      }
-
-      // Model errors
-      if (errorMsg.includes('model') || errorMsg.includes('not support')) {
-        throw new Error('VLM model error. Please check your VLM model name in Settings.');
-      }
-
-      // Image errors
-      if (errorMsg.includes('image') || errorMsg.includes('format') || errorMsg.includes('invalid')) {
-        throw new Error('Invalid image format. Please use JPG, PNG, or other supported formats.');
-      }
-
-      // Timeout errors
-      if (errorMsg.includes('timeout') || errorMsg.includes('timed out')) {
-        throw new Error('VLM request timed out. Please try again.');
-      }
-
-      // Generic error with original message
-      throw new Error(`VLM streaming translation failed: ${error.message}`);
-    }
-
-    throw new Error('VLM streaming translation failed. Please try again.');
+    throw normalizeProviderError(error);
   }
 }
 
@@ -0,0 +1,102 @@
+/**
+ * Overlay Compositor Worker
+ * Draws the translated image on an OffscreenCanvas off the main thread: erases the original text, lays out
+ * the translations and draws them, so large photos do not block the UI
+ */
+
+import type { OCRTextLocation } from '../imageOcr';
+import type { TextBlock } from '../textLayout';
+import type { LanguageCode } from '../../translation/translation';
+import { removeText, getRegionPolygon, type RegionColors } from './textRemoval';
+import { layoutOverlay, hasPlacement, type TextPlacement } from './layout';
+import type { TextMeasurer } from './lineBreak';
+
+export interface CompositorRequest {
+  image: ImageBitmap; // Transferred
+  lines: OCRTextLocation[];
+  blocks: TextBlock[];
+  translations: string[];
+  targetLang: LanguageCode;
+}
+
+export type CompositorResponse =
+  | { type: 'result'; image: Blob; colors: (RegionColors | null)[] }
+  | { type: 'error'; message: string };
+
+const FONT_FAMILY = 'Arial';
+
+const drawPlacement = (ctx: OffscreenCanvasRenderingContext2D, placement: TextPlacement) => {
+  const { cx, cy, width, height, angle, fontSize, texts, background, color } = placement;
+
+  ctx.save();
+  ctx.translate(cx, cy);
+  ctx.rotate((angle * Math.PI) / 180);
+
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(-width / 2, -height / 2, width, height);
+  }
+
+  ctx.font = `${fontSize}px ${FONT_FAMILY}`;
+  ctx.fillStyle = color;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  for (const { text, x, y, turned } of texts) {
+    if (turned) {
+      ctx.save();
+      ctx.translate(x, y);
+      ctx.rotate(Math.PI / 2);
+      ctx.fillText(text, 0, 0);
+      ctx.restore();
+    } else {
+      ctx.fillText(text, x, y);
+    }
+  }
+
+  ctx.restore();
+};
+
+self.onmessage = async (event: MessageEvent<CompositorRequest>) => {
+  const { image, lines, blocks, translations, targetLang } = event.data;
+
+  try {
+    const canvas = new OffscreenCanvas(image.width, image.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas drawing is not supported in this browser');
+    }
+    ctx.drawImage(image, 0, 0);
+    image.close();
+
+    // Erase the original text of the lines whose block gets a translation drawn (text without one stays
+    // readable), then take the colors of a block from its first line
+    const erasedLines = new Set(blocks.flatMap((block, index) => hasPlacement(block, translations[index]) ? block.lines : []));
+    const polygons = lines.map((line, index) => erasedLines.has(index) ? getRegionPolygon(line) : null);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const lineColors = removeText(imageData.data, canvas.width, canvas.height, polygons);
+    ctx.putImageData(imageData, 0, 0);
+    const colors = blocks.map(block => lineColors[block.lines[0]] ?? null);
+
+    const measure: TextMeasurer = (text, fontSize) => {
+      ctx.font = `${fontSize}px ${FONT_FAMILY}`;
+      return ctx.measureText(text).width;
+    };
+    const placements = layoutOverlay({
+      blocks,
+      translations,
+      colors,
+      targetLang,
+      measure,
+      imageWidth: canvas.width,
+      imageHeight: canvas.height,
+    });
+    placements.forEach(placement => drawPlacement(ctx, placement));
+
+    const response: CompositorResponse = { type: 'result', image: await canvas.convertToBlob({ type: 'image/png' }), colors };
+    self.postMessage(response);
+  } catch (error) {
+    const response: CompositorResponse = { type: 'error', message: error instanceof Error ? error.message : String(error) };
+    self.postMessage(response);
+  }
+};
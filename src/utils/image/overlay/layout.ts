@@ -0,0 +1,339 @@
+/**
+ * Overlay layout engine
+ * Decides where and how each translation is drawn over the image: font size, line wrapping, vertical columns,
+ * and moves that keep translations from covering each other. Pure, so it runs in the compositor worker and
+ * in tests with any text measurer
+ */
+
+import { canWriteVertically, type TextBlock } from '../textLayout';
+import type { LanguageCode } from '../../translation/translation';
+import type { RegionColors } from './textRemoval';
+import { breakLines, type TextMeasurer } from './lineBreak';
+
+export interface OverlayLayoutInput {
+  blocks: TextBlock[];
+  translations: string[];
+  colors: (RegionColors | null)[]; // Per block; null where the original text was not erased
+  targetLang: LanguageCode;
+  measure: TextMeasurer;
+  imageWidth: number;
+  imageHeight: number;
+}
+
+// A piece of text, positioned relative to the center of its placement before rotation
+export interface PlacedText {
+  text: string;
+  x: number;
+  y: number;
+  turned?: boolean; // Drawn turned a quarter clockwise (brackets and long marks in vertical text)
+}
+
+export interface TextPlacement {
+  block: number; // Index of the block and its translation
+  cx: number;
+  cy: number;
+  width: number;
+  height: number;
+  angle: number; // Degrees
+  fontSize: number;
+  direction: 'horizontal' | 'vertical';
+  texts: PlacedText[];
+  background: string | null; // Fill behind the text, null when it stays on its erased area
+  color: string;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const MIN_FONT_SIZE = 12;
+const MAX_FONT_SIZE = 48;
+// Line and column spacing, relative to the font size
+const LINE_SPACING = 1.3;
+// Distance between characters of a vertical column, relative to the font size
+const CHARACTER_ADVANCE = 1.1;
+// Share of a box the text may fill
+const TEXT_AREA = 0.9;
+// Fill for translations drawn over text that was not erased
+const FALLBACK_BACKGROUND = 'rgba(255, 255, 255, 0.9)';
+const FALLBACK_COLOR = '#000000';
+
+// Punctuation that is turned a quarter in vertical text, and punctuation that sits at the top right
+const VERTICAL_TURNED = /[ー－—―…‥~〜～()（）「」『』【】〔〕〈〉《》［］｛｝[\]{}<>]/;
+const VERTICAL_SHIFTED = /[、。，．,.]/;
+
+const checkOverlap = (a: Rect, b: Rect): boolean => {
+  return !(
+    a.x + a.width < b.x ||
+    b.x + b.width < a.x ||
+    a.y + a.height < b.y ||
+    b.y + b.height < a.y
+  );
+};
+
+/**
+ * Axis-aligned bounds of a rotated rectangle
+ */
+const getRotatedBounds = (cx: number, cy: number, width: number, height: number, angle: number): Rect => {
+  const radians = (angle * Math.PI) / 180;
+  const boundsWidth = Math.abs(width * Math.cos(radians)) + Math.abs(height * Math.sin(radians));
+  const boundsHeight = Math.abs(width * Math.sin(radians)) + Math.abs(height * Math.cos(radians));
+  return { x: cx - boundsWidth / 2, y: cy - boundsHeight / 2, width: boundsWidth, height: boundsHeight };
+};
+
+const isInsideImage = (rect: Rect, imageWidth: number, imageHeight: number): boolean => {
+  return rect.x >= 0 && rect.y >= 0 && rect.x + rect.width <= imageWidth && rect.y + rect.height <= imageHeight;
+};
+
+/**
+ * Find a spot inside the image that does not overlap translations placed before: first shrink the text a
+ * little, then try moving it further and further away in eight directions; keeps the original spot if nothing
+ * is free
+ */
+const adjustPosition = (
+  occupied: Rect[],
+  imageWidth: number,
+  imageHeight: number,
+  cx: number,
+  cy: number,
+  width: number,
+  height: number,
+  fontSize: number
+): { cx: number; cy: number; fontSize: number; width: number; height: number } => {
+  const isFree = (rect: Rect) =>
+    isInsideImage(rect, imageWidth, imageHeight) && !occupied.some(other => checkOverlap(rect, other));
+  const toRect = (position: { cx: number; cy: number; width: number; height: number }): Rect => ({
+    x: position.cx - position.width / 2,
+    y: position.cy - position.height / 2,
+    width: position.width,
+    height: position.height,
+  });
+
+  let adjusted = { cx, cy, fontSize, width, height };
+
+  for (let attempt = 0; attempt < 20; attempt++) {
+    if (isFree(toRect(adjusted))) {
+      return adjusted;
+    }
+
+    if (attempt < 5 && adjusted.fontSize > MIN_FONT_SIZE * 1.2) {
+      const newFontSize = Math.max(MIN_FONT_SIZE, adjusted.fontSize * 0.9);
+      const scale = newFontSize / adjusted.fontSize;
+      adjusted = { cx, cy, fontSize: newFontSize, width: adjusted.width * scale, height: adjusted.height * scale };
+      continue;
+    }
+
+    const offset = 10 * (attempt - 4);
+    const directions = [[0, -1], [0, 1], [-1, 0], [1, 0], [-1, -1], [1, -1], [-1, 1], [1, 1]];
+    for (const [dx, dy] of directions) {
+      const moved = { ...adjusted, cx: cx + dx * offset, cy: cy + dy * offset };
+      if (isFree(toRect(moved))) {
+        return moved;
+      }
+    }
+  }
+
+  return { cx, cy, fontSize, width, height };
+};
+
+/**
+ * Keep a placement inside the image: shrink it, text included, when its bounds are larger than the image, then
+ * move it back in from the edges
+ */
+const fitInImage = <T extends Omit<TextPlacement, 'background'>>(placement: T, imageWidth: number, imageHeight: number): T => {
+  const bounds = getRotatedBounds(0, 0, placement.width, placement.height, placement.angle);
+  const scale = Math.min(1, imageWidth / bounds.width, imageHeight / bounds.height);
+  const halfWidth = (bounds.width * scale) / 2;
+  const halfHeight = (bounds.height * scale) / 2;
+
+  return {
+    ...placement,
+    cx: Math.min(Math.max(placement.cx, halfWidth), imageWidth - halfWidth),
+    cy: Math.min(Math.max(placement.cy, halfHeight), imageHeight - halfHeight),
+    width: placement.width * scale,
+    height: placement.height * scale,
+    fontSize: placement.fontSize * scale,
+    texts: scale < 1 ? placement.texts.map(text => ({ ...text, x: text.x * scale, y: text.y * scale })) : placement.texts,
+  };
+};
+
+/**
+ * Lay out text in vertical columns: characters top to bottom, columns right to left, shrinking the font until
+ * the columns fit the width of the box
+ */
+const layoutVertical = (
+  text: string,
+  width: number,
+  height: number,
+  fontSize: number
+): { fontSize: number; width: number; height: number; texts: PlacedText[] } => {
+  const layoutColumns = (size: number) => {
+    const perColumn = Math.max(1, Math.floor((height * TEXT_AREA) / (size * CHARACTER_ADVANCE)));
+    const columns: string[][] = [];
+    for (const paragraph of text.split('\n')) {
+      const chars = Array.from(paragraph.trim());
+      for (let i = 0; i < chars.length; i += perColumn) {
+        columns.push(chars.slice(i, i + perColumn));
+      }
+    }
+    return columns;
+  };
+
+  let size = fontSize;
+  let columns = layoutColumns(size);
+  while (size > MIN_FONT_SIZE && columns.length * size * LINE_SPACING > width * TEXT_AREA) {
+    size = Math.max(MIN_FONT_SIZE, size * 0.9);
+    columns = layoutColumns(size);
+  }
+
+  const advance = size * CHARACTER_ADVANCE;
+  const columnSpacing = size * LINE_SPACING;
+  const startX = ((columns.length - 1) * columnSpacing) / 2;
+  const texts: PlacedText[] = [];
+
+  columns.forEach((column, c) => {
+    const x = startX - c * columnSpacing;
+    const startY = -((column.length - 1) * advance) / 2;
+    column.forEach((char, i) => {
+      const y = startY + i * advance;
+      if (VERTICAL_TURNED.test(char)) {
+        texts.push({ text: char, x, y, turned: true });
+      } else if (VERTICAL_SHIFTED.test(char)) {
+        texts.push({ text: char, x: x + size * 0.3, y: y - size * 0.3 });
+      } else {
+        texts.push({ text: char, x, y });
+      }
+    });
+  });
+
+  return {
+    fontSize: size,
+    width: Math.max(width, (columns.length * columnSpacing) / TEXT_AREA),
+    height: Math.max(height, (Math.max(0, ...columns.map(column => column.length)) * advance) / TEXT_AREA),
+    texts,
+  };
+};
+
+/**
+ * Whether a block gets its translation drawn: it needs a position and a translation
+ */
+export const hasPlacement = (block: TextBlock, translation: string | undefined): boolean => {
+  return !!block.box && block.box.width > 0 && block.box.height > 0 && !!translation?.trim();
+};
+
+/**
+ * Place the translation of every block that has a position
+ * Blocks are placed in order, and horizontal text that would cover an earlier translation is shrunk or moved;
+ * every placement is kept inside the image
+ */
+export function layoutOverlay({
+  blocks,
+  translations,
+  colors,
+  targetLang,
+  measure,
+  imageWidth,
+  imageHeight,
+}: OverlayLayoutInput): TextPlacement[] {
+  const placements: TextPlacement[] = [];
+  const occupied: Rect[] = [];
+
+  blocks.forEach((block, index) => {
+    if (!block.box || !hasPlacement(block, translations[index])) {
+      return;
+    }
+
+    const translation = translations[index].trim();
+    const { cx, cy, angle } = block.box;
+
+    // Vertical columns get vertical text when the target language is written that way; other languages run
+    // along the column, turned a quarter
+    const isVertical = block.orientation === 'vertical' && canWriteVertically(targetLang);
+    const isTurned = block.orientation === 'vertical' && !isVertical;
+    const width = isTurned ? block.box.height : block.box.width;
+    const height = isTurned ? block.box.width : block.box.height;
+    const rotation = angle + (isTurned ? 90 : 0);
+
+    const blockColors = colors[index];
+    const fontSize = Math.max(MIN_FONT_SIZE, Math.min(Math.min(width, block.lineHeight) * 0.5, MAX_FONT_SIZE));
+
+    const place = (unplaced: Omit<TextPlacement, 'background'>) => {
+      const placement = fitInImage(unplaced, imageWidth, imageHeight);
+
+      // Text that stays on its erased area needs no background; moved or enlarged text covers what is under it
+      const staysOnErasedArea = blockColors &&
+        placement.cx === cx && placement.cy === cy && placement.width <= width && placement.height <= height;
+
+      placements.push({ ...placement, background: staysOnErasedArea ? null : blockColors?.background ?? FALLBACK_BACKGROUND });
+      occupied.push(getRotatedBounds(placement.cx, placement.cy, placement.width, placement.height, placement.angle));
+    };
+
+    if (isVertical) {
+      const vertical = layoutVertical(translation, width, height, fontSize);
+      place({
+        block: index,
+        cx,
+        cy,
+        width: vertical.width,
+        height: vertical.height,
+        angle: rotation,
+        fontSize: vertical.fontSize,
+        direction: 'vertical',
+        texts: vertical.texts,
+        color: blockColors?.text ?? FALLBACK_COLOR,
+      });
+      return;
+    }
+
+    // Wrap, and enlarge the box when the text does not fit at a readable size
+    let lines = breakLines(translation, width * TEXT_AREA, fontSize, measure);
+    const textWidth = Math.max(0, ...lines.map(line => measure(line, fontSize)));
+    let position = {
+      cx,
+      cy,
+      fontSize,
+      width: Math.max(width, textWidth / TEXT_AREA),
+      height: Math.max(height, (lines.length * fontSize * LINE_SPACING) / TEXT_AREA),
+    };
+
+    // Only move text that is (nearly) level; rotated text keeps its place
+    if (Math.abs(rotation) < 5) {
+      const adjusted = adjustPosition(
+        occupied,
+        imageWidth,
+        imageHeight,
+        position.cx,
+        position.cy,
+        position.width,
+        position.height,
+        fontSize
+      );
+      if (adjusted.fontSize !== fontSize) {
+        lines = breakLines(translation, adjusted.width * TEXT_AREA, adjusted.fontSize, measure);
+        adjusted.height = Math.max(adjusted.height, (lines.length * adjusted.fontSize * LINE_SPACING) / TEXT_AREA);
+      }
+      position = adjusted;
+    }
+
+    const lineHeight = position.fontSize * LINE_SPACING;
+    const startY = -((lines.length - 1) * lineHeight) / 2;
+
+    place({
+      block: index,
+      cx: position.cx,
+      cy: position.cy,
+      width: position.width,
+      height: position.height,
+      angle: rotation,
+      fontSize: position.fontSize,
+      direction: 'horizontal',
+      texts: lines.map((line, i) => ({ text: line, x: 0, y: startY + i * lineHeight })),
+      color: blockColors?.text ?? FALLBACK_COLOR,
+    });
+  });
+
+  return placements;
+}
@@ -0,0 +1,140 @@
+/**
+ * Line breaking for text drawn over images
+ * Spaced scripts break between words; Chinese and Japanese break between characters, keeping closing
+ * punctuation off the start of a line and opening punctuation off the end (kinsoku)
+ */
+
+// Measures the width of a text at a font size, in pixels
+export type TextMeasurer = (text: string, fontSize: number) => number;
+
+// Characters a line can break before or after
+const BREAK_ANYWHERE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303f\uff00-\uffef]/u;
+// Characters that must not start a line, so they stay with the character before them
+const NO_LINE_START = /[、。，．,.!?！？:：;；)）\]］}｝」』】〕〉》ー〜～ぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮヵヶ々…‥・]/u;
+// Characters that must not end a line, so they stay with the character after them
+const NO_LINE_END = /[(（[［{｛「『【〔〈《]/u;
+
+/**
+ * Split a paragraph into the pieces a line can break between; whitespace stays at the end of its piece
+ */
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  let current = '';
+  let isCurrentBreakable = false;
+  let pendingOpen = '';
+
+  const flush = () => {
+    if (current) {
+      tokens.push(current);
+      current = '';
+    }
+    isCurrentBreakable = false;
+  };
+
+  for (const char of text) {
+    if (/\s/.test(char)) {
+      if (current) {
+        current += char;
+        flush();
+      } else if (tokens.length > 0 && !pendingOpen) {
+        tokens[tokens.length - 1] += char;
+      }
+      continue;
+    }
+
+    if (NO_LINE_START.test(char)) {
+      if (current) {
+        current += char;
+      } else if (tokens.length > 0 && !pendingOpen) {
+        tokens[tokens.length - 1] += char;
+      } else {
+        current = pendingOpen + char;
+        pendingOpen = '';
+      }
+      continue;
+    }
+
+    if (NO_LINE_END.test(char)) {
+      flush();
+      pendingOpen += char;
+      continue;
+    }
+
+    const isBreakable = BREAK_ANYWHERE.test(char);
+    if (isBreakable || isCurrentBreakable) {
+      flush();
+    }
+    if (!current) {
+      current = pendingOpen;
+      pendingOpen = '';
+    }
+    current += char;
+    isCurrentBreakable = isBreakable;
+  }
+
+  flush();
+  if (pendingOpen) {
+    tokens.push(pendingOpen);
+  }
+  return tokens;
+};
+
+/**
+ * Split a word that is wider than a line into pieces that fit, keeping combining marks with their letter
+ */
+const splitWord = (word: string, maxWidth: number, fontSize: number, measure: TextMeasurer): string[] => {
+  const clusters = word.match(/\P{M}\p{M}*/gu) ?? [word];
+  const pieces: string[] = [];
+  let piece = '';
+
+  for (const cluster of clusters) {
+    if (piece && measure(piece + cluster, fontSize) > maxWidth) {
+      pieces.push(piece);
+      piece = cluster;
+    } else {
+      piece += cluster;
+    }
+  }
+  if (piece) {
+    pieces.push(piece);
+  }
+  return pieces;
+};
+
+/**
+ * Wrap text into lines no wider than maxWidth (except for punctuation kept with its word)
+ * Newlines in the text always start a new line; empty lines are dropped
+ */
+export function breakLines(text: string, maxWidth: number, fontSize: number, measure: TextMeasurer): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+
+    for (const token of tokenize(paragraph.trim())) {
+      if (measure((line + token).trimEnd(), fontSize) <= maxWidth) {
+        line += token;
+        continue;
+      }
+
+      if (line.trim()) {
+        lines.push(line.trimEnd());
+        line = '';
+      }
+
+      if (measure(token.trimEnd(), fontSize) > maxWidth) {
+        const pieces = splitWord(token.trimEnd(), maxWidth, fontSize, measure);
+        lines.push(...pieces.slice(0, -1));
+        line = pieces[pieces.length - 1] + token.slice(token.trimEnd().length);
+      } else {
+        line = token;
+      }
+    }
+
+    if (line.trim()) {
+      lines.push(line.trimEnd());
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,76 @@
+/**
+ * Translated image renderer
+ * Flattens OCR translations into a copy of the image (for viewing full screen and downloading): the original
+ * text is erased and each translation is drawn in its place, matching the original colors
+ *
+ * Note: Compositing runs on an OffscreenCanvas in a Web Worker, so large photos do not block the UI
+ */
+
+import { imageToBase64, type OCRTextLocation } from '../imageOcr';
+import type { TextBlock } from '../textLayout';
+import type { LanguageCode } from '../../translation/translation';
+import { AbortError } from '../../ai/errors';
+import type { RegionColors } from './textRemoval';
+import type { CompositorRequest, CompositorResponse } from './compositor.worker';
+
+export type { RegionColors };
+
+export interface RenderInput {
+  image: string; // Data URL
+  lines: OCRTextLocation[]; // OCR lines, whose text is erased
+  blocks: TextBlock[]; // Blocks of lines, each drawn with its translation
+  translations: string[];
+  targetLang: LanguageCode;
+}
+
+/**
+ * Render the translated image
+ * @returns The image as a PNG data URL, and the background and text colors of each block (null where the
+ * original text could not be erased)
+ */
+export async function renderTranslatedImage(
+  input: RenderInput,
+  abortSignal?: AbortSignal
+): Promise<{ imageUrl: string; colors: (RegionColors | null)[] }> {
+  if (abortSignal?.aborted) {
+    throw new AbortError('Image rendering was cancelled');
+  }
+
+  const bitmap = await createImageBitmap(await (await fetch(input.image)).blob());
+  const worker = new Worker(new URL('./compositor.worker.ts', import.meta.url), { type: 'module' });
+  const request: CompositorRequest = {
+    image: bitmap,
+    lines: input.lines,
+    blocks: input.blocks,
+    translations: input.translations,
+    targetLang: input.targetLang,
+  };
+
+  console.log(`[Overlay] Rendering ${input.blocks.length} block(s) on a ${bitmap.width}x${bitmap.height} image...`);
+
+  try {
+    const { image, colors } = await new Promise<{ image: Blob; colors: (RegionColors | null)[] }>((resolve, reject) => {
+      const onAbort = () => reject(new AbortError('Image rendering was cancelled'));
+      abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+      worker.onmessage = (event: MessageEvent<CompositorResponse>) => {
+        abortSignal?.removeEventListener('abort', onAbort);
+        const response = event.data;
+        if (response.type === 'error') {
+          reject(new Error(response.message));
+          return;
+        }
+        resolve(response);
+      };
+      worker.onerror = (event) => {
+        abortSignal?.removeEventListener('abort', onAbort);
+        reject(new Error(event.message || 'The image rendering worker failed'));
+      };
+      worker.postMessage(request, [bitmap]);
+    });
+
+    return { imageUrl: await imageToBase64(image), colors };
+  } finally {
+    worker.terminate();
+  }
+}
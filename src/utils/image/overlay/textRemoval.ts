@@ -0,0 +1,357 @@
+/**
+ * Text removal
+ * Erases the text inside OCR polygons by reconstructing the background from the surrounding pixels, and
+ * estimates the background and glyph colors of each region, so translations can be drawn in their place
+ */
+
+import type { OCRTextLocation } from '../imageOcr';
+
+export type Polygon = [number, number, number, number, number, number, number, number]; // [x1, y1, ..., x4, y4]
+
+export interface RegionColors {
+  background: string;
+  text: string;
+}
+
+type RGB = [number, number, number];
+
+// Width (in px) of the ring around a polygon that is sampled for the background
+const BORDER_WIDTH = 4;
+// Luminance spread below which the background counts as flat and is filled with a single color
+const FLAT_BACKGROUND_SPREAD = 12;
+// Color distance from the background above which a pixel counts as part of a glyph
+const GLYPH_DISTANCE = 60;
+// Box area (in px) above which the background is filled with a single color instead of interpolated, to bound
+// the time large headings on high-resolution photos take
+const MAX_INTERPOLATED_AREA = 250000;
+
+/**
+ * Move each corner away from the center, to cover anti-aliased glyph edges the OCR box cuts through
+ */
+const dilatePolygon = (polygon: Polygon, margin: number): Polygon => {
+  const cx = (polygon[0] + polygon[2] + polygon[4] + polygon[6]) / 4;
+  const cy = (polygon[1] + polygon[3] + polygon[5] + polygon[7]) / 4;
+  const result = [...polygon] as Polygon;
+  for (let i = 0; i < 8; i += 2) {
+    const dx = polygon[i] - cx;
+    const dy = polygon[i + 1] - cy;
+    const length = Math.hypot(dx, dy) || 1;
+    result[i] = polygon[i] + (dx / length) * margin;
+    result[i + 1] = polygon[i + 1] + (dy / length) * margin;
+  }
+  return result;
+};
+
+const isInsidePolygon = (polygon: Polygon, x: number, y: number): boolean => {
+  let inside = false;
+  for (let i = 0, j = 6; i < 8; j = i, i += 2) {
+    const xi = polygon[i];
+    const yi = polygon[i + 1];
+    const xj = polygon[j];
+    const yj = polygon[j + 1];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const luminance = ([r, g, b]: RGB) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+const toCss = ([r, g, b]: RGB) => `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`;
+
+// The erased area of a region and the bounds of the ring around it, clipped to the image
+interface RegionArea {
+  polygon: Polygon;
+  area: Polygon; // Dilated polygon, erased
+  ring: Polygon; // Further dilated polygon, whose part outside the area is sampled for the background
+  left: number;
+  top: number;
+  boxWidth: number;
+  boxHeight: number;
+}
+
+// A region sampled before any pixel is changed, ready to be filled
+interface SampledRegion extends RegionArea {
+  unknown: Uint8Array; // 1 for pixels of the box inside the area
+  background: RGB;
+  colors: RegionColors;
+  interpolate: boolean;
+}
+
+/**
+ * Fill the unknown pixels layer by layer from the outside in, each with the average of its known neighbors,
+ * so gradients and textures around the text carry on into the erased area
+ * Pixels of other regions that are still to be erased (pending) do not count as known, so their glyphs do not
+ * bleed in. Each layer is the frontier of the one before, so every pixel is visited a constant number of times
+ */
+const fillFromBorder = (
+  pixels: Uint8ClampedArray,
+  imageWidth: number,
+  imageHeight: number,
+  pending: Uint8Array,
+  { unknown, left, top, boxWidth, boxHeight }: SampledRegion
+) => {
+  const isUnknown = (x: number, y: number) =>
+    x >= left && x < left + boxWidth && y >= top && y < top + boxHeight && unknown[(y - top) * boxWidth + (x - left)] === 1;
+  const isKnown = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < imageWidth && y < imageHeight && !isUnknown(x, y) && pending[y * imageWidth + x] === 0;
+
+  // Pixels (as indices into the box) already in a layer, so none is queued twice
+  const queued = new Uint8Array(unknown.length);
+  let remaining = 0;
+  let layer: number[] = [];
+
+  // The first layer: unknown pixels that touch a known one
+  for (let i = 0; i < unknown.length; i++) {
+    if (unknown[i] !== 1) continue;
+    remaining++;
+    const x = left + (i % boxWidth);
+    const y = top + Math.floor(i / boxWidth);
+    let touchesKnown = false;
+    for (let dy = -1; dy <= 1 && !touchesKnown; dy++) {
+      for (let dx = -1; dx <= 1 && !touchesKnown; dx++) {
+        touchesKnown = (dx !== 0 || dy !== 0) && isKnown(x + dx, y + dy);
+      }
+    }
+    if (touchesKnown) {
+      layer.push(i);
+      queued[i] = 1;
+    }
+  }
+
+  while (layer.length > 0) {
+    const colors = layer.map((i): RGB => {
+      const x = left + (i % boxWidth);
+      const y = top + Math.floor(i / boxWidth);
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let count = 0;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if ((dx === 0 && dy === 0) || !isKnown(x + dx, y + dy)) continue;
+          const offset = ((y + dy) * imageWidth + x + dx) * 4;
+          r += pixels[offset];
+          g += pixels[offset + 1];
+          b += pixels[offset + 2];
+          count++;
+        }
+      }
+
+      return [r / count, g / count, b / count];
+    });
+
+    layer.forEach((i, n) => {
+      const offset = ((top + Math.floor(i / boxWidth)) * imageWidth + left + (i % boxWidth)) * 4;
+      pixels[offset] = colors[n][0];
+      pixels[offset + 1] = colors[n][1];
+      pixels[offset + 2] = colors[n][2];
+      unknown[i] = 0;
+    });
+    remaining -= layer.length;
+
+    // The next layer: unknown pixels next to the ones just filled
+    const next: number[] = [];
+    for (const i of layer) {
+      const bx = i % boxWidth;
+      const by = Math.floor(i / boxWidth);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = bx + dx;
+          const ny = by + dy;
+          if (nx < 0 || ny < 0 || nx >= boxWidth || ny >= boxHeight) continue;
+          const neighbor = ny * boxWidth + nx;
+          if (unknown[neighbor] === 1 && queued[neighbor] === 0) {
+            queued[neighbor] = 1;
+            next.push(neighbor);
+          }
+        }
+      }
+    }
+    layer = next;
+  }
+
+  // Pixels left unfilled have nothing known around them (the polygon covers the whole image)
+  return remaining === 0;
+};
+
+/**
+ * Get the erased area and sampled ring of a region, or null if it lies outside the image
+ */
+const getRegionArea = (polygon: Polygon, width: number, height: number): RegionArea | null => {
+  const shortSide = Math.min(
+    Math.hypot(polygon[2] - polygon[0], polygon[3] - polygon[1]),
+    Math.hypot(polygon[4] - polygon[2], polygon[5] - polygon[3])
+  );
+  const margin = Math.max(2, Math.round(shortSide * 0.1));
+  const area = dilatePolygon(polygon, margin);
+  const ring = dilatePolygon(polygon, margin + BORDER_WIDTH);
+
+  const xs = [ring[0], ring[2], ring[4], ring[6]];
+  const ys = [ring[1], ring[3], ring[5], ring[7]];
+  const left = Math.max(0, Math.floor(Math.min(...xs)));
+  const top = Math.max(0, Math.floor(Math.min(...ys)));
+  const right = Math.min(width - 1, Math.ceil(Math.max(...xs)));
+  const bottom = Math.min(height - 1, Math.ceil(Math.max(...ys)));
+  if (right < left || bottom < top) {
+    return null;
+  }
+
+  return { polygon, area, ring, left, top, boxWidth: right - left + 1, boxHeight: bottom - top + 1 };
+};
+
+/**
+ * Mark the pixels inside the erased area of a region, adding `change` to the count of areas covering each
+ */
+const markArea = (covered: Uint8Array, width: number, { area, left, top, boxWidth, boxHeight }: RegionArea, change: 1 | -1) => {
+  for (let y = top; y < top + boxHeight; y++) {
+    for (let x = left; x < left + boxWidth; x++) {
+      if (isInsidePolygon(area, x + 0.5, y + 0.5)) {
+        const index = y * width + x;
+        covered[index] = Math.max(0, covered[index] + change);
+      }
+    }
+  }
+};
+
+/**
+ * Sample the background and glyph colors of a region from the untouched image
+ * The ring skips pixels inside the area of any region, so neighboring text does not skew the background
+ * @returns The sampled region, or null if none of its surroundings is free of text
+ */
+const sampleRegion = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  covered: Uint8Array,
+  region: RegionArea
+): SampledRegion | null => {
+  const { polygon, area, ring, left, top, boxWidth, boxHeight } = region;
+  const unknown = new Uint8Array(boxWidth * boxHeight);
+  const border: { r: number[]; g: number[]; b: number[]; l: number[] } = { r: [], g: [], b: [], l: [] };
+  const inner: RGB[] = [];
+
+  for (let y = top; y < top + boxHeight; y++) {
+    for (let x = left; x < left + boxWidth; x++) {
+      const offset = (y * width + x) * 4;
+      const color: RGB = [pixels[offset], pixels[offset + 1], pixels[offset + 2]];
+
+      if (isInsidePolygon(area, x + 0.5, y + 0.5)) {
+        unknown[(y - top) * boxWidth + (x - left)] = 1;
+        if (isInsidePolygon(polygon, x + 0.5, y + 0.5)) {
+          inner.push(color);
+        }
+      } else if (covered[y * width + x] === 0 && isInsidePolygon(ring, x + 0.5, y + 0.5)) {
+        border.r.push(color[0]);
+        border.g.push(color[1]);
+        border.b.push(color[2]);
+        border.l.push(luminance(color));
+      }
+    }
+  }
+
+  if (border.l.length === 0) {
+    return null;
+  }
+
+  const background: RGB = [median(border.r), median(border.g), median(border.b)];
+
+  // Glyph color: the median of the pixels inside the box that stand out from the background
+  const glyphs = inner.filter(color =>
+    Math.hypot(color[0] - background[0], color[1] - background[1], color[2] - background[2]) > GLYPH_DISTANCE
+  );
+  const text: RGB = glyphs.length > 0
+    ? [median(glyphs.map(c => c[0])), median(glyphs.map(c => c[1])), median(glyphs.map(c => c[2]))]
+    : luminance(background) > 128 ? [0, 0, 0] : [255, 255, 255];
+
+  // Flat backgrounds (signs, menus, paper) look cleaner filled with a single color than interpolated
+  const sortedLuminance = [...border.l].sort((a, b) => a - b);
+  const spread = sortedLuminance[Math.floor(sortedLuminance.length * 0.9)] - sortedLuminance[Math.floor(sortedLuminance.length * 0.1)];
+
+  return {
+    ...region,
+    unknown,
+    background,
+    colors: { background: toCss(background), text: toCss(text) },
+    interpolate: spread >= FLAT_BACKGROUND_SPREAD && boxWidth * boxHeight <= MAX_INTERPOLATED_AREA,
+  };
+};
+
+/**
+ * Erase the text of a sampled region in place
+ */
+const fillRegion = (pixels: Uint8ClampedArray, width: number, height: number, pending: Uint8Array, region: SampledRegion) => {
+  const { unknown, background, left, top, boxWidth, boxHeight, interpolate } = region;
+  if (interpolate && fillFromBorder(pixels, width, height, pending, region)) {
+    return;
+  }
+
+  for (let by = 0; by < boxHeight; by++) {
+    for (let bx = 0; bx < boxWidth; bx++) {
+      if (unknown[by * boxWidth + bx] !== 1) continue;
+      const offset = ((top + by) * width + left + bx) * 4;
+      pixels[offset] = background[0];
+      pixels[offset + 1] = background[1];
+      pixels[offset + 2] = background[2];
+    }
+  }
+};
+
+/**
+ * Get the polygon of a region, from the rotated rectangle when the OCR service did not return one
+ */
+export const getRegionPolygon = (region: OCRTextLocation): Polygon | null => {
+  if (region.location?.length === 8) {
+    return region.location;
+  }
+
+  if (region.rotate_rect?.length === 5) {
+    const [cx, cy, width, height, angle] = region.rotate_rect;
+    if (width <= 0 || height <= 0) {
+      return null;
+    }
+    const radians = ((angle || 0) * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const corners = [[-width / 2, -height / 2], [width / 2, -height / 2], [width / 2, height / 2], [-width / 2, height / 2]];
+    return corners.flatMap(([x, y]) => [cx + x * cos - y * sin, cy + x * sin + y * cos]) as Polygon;
+  }
+
+  return null;
+};
+
+/**
+ * Erase the text of the given polygons from RGBA pixels, in place
+ * Every region is sampled before any is erased, so the colors of one are not taken from the erased area or the
+ * text of a neighbor
+ * @returns The background and text colors of each polygon, null where it could not be processed
+ */
+export function removeText(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  polygons: (Polygon | null)[]
+): (RegionColors | null)[] {
+  const areas = polygons.map(polygon => polygon ? getRegionArea(polygon, width, height) : null);
+
+  // Count of erased areas covering each pixel; pixels with text still on them are not sampled or filled from
+  const covered = new Uint8Array(width * height);
+  areas.forEach(area => area && markArea(covered, width, area, 1));
+
+  const regions = areas.map(area => area ? sampleRegion(pixels, width, covered, area) : null);
+
+  // Regions that could not be sampled keep their text, so they stay covered
+  regions.forEach(region => {
+    if (!region) return;
+    markArea(covered, width, region, -1);
+    fillRegion(pixels, width, height, covered, region);
+  });
+
+  return regions.map(region => region?.colors ?? null);
+}
@@ -0,0 +1,292 @@
+/**
+ * Layout analysis for OCR results
+ * OCR services return independent text lines; this groups lines that belong together (wrapped sentences,
+ * paragraphs, vertical Japanese and Chinese columns) into blocks, so each block is translated as a unit
+ */
+
+import type { OCRTextLocation } from './imageOcr';
+import type { LanguageCode } from '../translation/translation';
+
+export type TextOrientation = 'horizontal' | 'vertical';
+
+// A rectangle in image pixels, rotated by angle degrees around its center
+export interface RegionBox {
+  cx: number;
+  cy: number;
+  width: number;
+  height: number;
+  angle: number;
+}
+
+export interface TextBlock {
+  text: string; // Text of the lines in reading order, wrapped lines joined back together
+  lines: number[]; // Indices of the OCR lines in the block
+  box: RegionBox | null; // Area covered by all lines, null for a line the OCR service returned no position for
+  lineHeight: number; // Average thickness of the lines, which follows the font size
+  orientation: TextOrientation;
+}
+
+// Lines whose tilt differs by more than this (in degrees) are never grouped
+const MAX_ANGLE_DIFFERENCE = 5;
+// Largest ratio between the thickness of two lines of the same block
+const MAX_THICKNESS_RATIO = 1.5;
+// Largest gap between two lines of a block, relative to their thickness
+const MAX_LINE_GAP = 0.8;
+// A line shorter than this fraction of its block ends a paragraph or list item instead of wrapping
+const FULL_LINE_RATIO = 0.8;
+// Lines shorter than this many line heights (menu items, labels) never wrap onto the next line
+const MIN_WRAPPED_LENGTH = 8;
+
+// Languages written without spaces between words, whose wrapped lines are joined directly
+const UNSPACED_LANGUAGES: LanguageCode[] = ['zh', 'zh-Hant', 'yue', 'ja', 'th', 'km', 'my', 'bo'];
+// Languages that can be written in vertical columns
+const VERTICAL_LANGUAGES: LanguageCode[] = ['zh', 'zh-Hant', 'yue', 'ja', 'ko'];
+const SENTENCE_END = /[.!?:;。！？：；」』)）]$/;
+
+/**
+ * Get the box of a region from its rotated rectangle, or from its polygon when the OCR service only returned that
+ * The angle is normalized to -45..45 degrees (swapping width and height), so the box describes the same area
+ * whichever side the OCR service measured the angle from
+ */
+export const getRegionBox = (region: OCRTextLocation): RegionBox | null => {
+  let box: RegionBox | null = null;
+
+  if (region.rotate_rect?.length === 5) {
+    const [cx, cy, width, height, angle] = region.rotate_rect;
+    if (width > 0 && height > 0) {
+      box = { cx, cy, width, height, angle: angle || 0 };
+    }
+  }
+
+  if (!box && region.location?.length === 8) {
+    const [x1, y1, x2, y2, x3, y3, x4, y4] = region.location;
+    const width = Math.hypot(x2 - x1, y2 - y1);
+    const height = Math.hypot(x3 - x2, y3 - y2);
+    if (width > 0 && height > 0) {
+      box = {
+        cx: (x1 + x2 + x3 + x4) / 4,
+        cy: (y1 + y2 + y3 + y4) / 4,
+        width,
+        height,
+        angle: (Math.atan2(y2 - y1, x2 - x1) * 180) / Math.PI,
+      };
+    }
+  }
+
+  if (!box) {
+    return null;
+  }
+
+  let { width, height, angle } = box;
+  angle = ((angle % 180) + 180) % 180; // 0..180
+  if (angle > 135) {
+    angle -= 180;
+  } else if (angle > 45) {
+    angle -= 90;
+    [width, height] = [height, width];
+  }
+  return { ...box, width, height, angle };
+};
+
+/**
+ * Guess the writing direction of a line from its shape: a line much taller than wide is a vertical column
+ */
+export const getOrientation = (box: RegionBox, text: string): TextOrientation => {
+  return box.height > box.width * 1.2 && Array.from(text.trim()).length > 1 ? 'vertical' : 'horizontal';
+};
+
+/**
+ * Check if a language is traditionally written in vertical columns too (Chinese, Japanese, Korean)
+ */
+export const canWriteVertically = (lang: LanguageCode): boolean => VERTICAL_LANGUAGES.includes(lang);
+
+// Corners of a box
+const getCorners = ({ cx, cy, width, height, angle }: RegionBox): [number, number][] => {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([sx, sy]) => {
+    const x = (sx * width) / 2;
+    const y = (sy * height) / 2;
+    return [cx + x * cos - y * sin, cy + x * sin + y * cos];
+  });
+};
+
+// Extent of a set of points along the x (u) and y (v) axes of a frame rotated by angle degrees
+interface Extent {
+  uMin: number;
+  uMax: number;
+  vMin: number;
+  vMax: number;
+}
+
+const getExtent = (points: [number, number][], angle: number): Extent => {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const us = points.map(([x, y]) => x * cos + y * sin);
+  const vs = points.map(([x, y]) => -x * sin + y * cos);
+  return { uMin: Math.min(...us), uMax: Math.max(...us), vMin: Math.min(...vs), vMax: Math.max(...vs) };
+};
+
+// Along a line: u for horizontal text, v for vertical columns; across is the other axis
+const along = (extent: Extent, orientation: TextOrientation) =>
+  orientation === 'horizontal' ? [extent.uMin, extent.uMax] : [extent.vMin, extent.vMax];
+const across = (extent: Extent, orientation: TextOrientation) =>
+  orientation === 'horizontal' ? [extent.vMin, extent.vMax] : [extent.uMin, extent.uMax];
+
+interface Line {
+  index: number;
+  text: string;
+  box: RegionBox;
+  orientation: TextOrientation;
+}
+
+/**
+ * Check if two lines are consecutive lines of the same block: same direction and size, stacked close
+ * together, and overlapping or aligned along the line (so neighbouring menu columns stay apart)
+ */
+const belongTogether = (a: Line, b: Line): boolean => {
+  if (a.orientation !== b.orientation || Math.abs(a.box.angle - b.box.angle) > MAX_ANGLE_DIFFERENCE) {
+    return false;
+  }
+
+  const orientation = a.orientation;
+  const extentA = getExtent(getCorners(a.box), a.box.angle);
+  const extentB = getExtent(getCorners(b.box), a.box.angle);
+  const [acrossMinA, acrossMaxA] = across(extentA, orientation);
+  const [acrossMinB, acrossMaxB] = across(extentB, orientation);
+  const thicknessA = acrossMaxA - acrossMinA;
+  const thicknessB = acrossMaxB - acrossMinB;
+  const thickness = Math.min(thicknessA, thicknessB);
+
+  if (Math.max(thicknessA, thicknessB) / thickness > MAX_THICKNESS_RATIO) {
+    return false;
+  }
+
+  // Stacked: not on the same line, and with at most a line spacing between them
+  const centerDistance = Math.abs((acrossMinA + acrossMaxA) / 2 - (acrossMinB + acrossMaxB) / 2);
+  const gap = Math.max(acrossMinB - acrossMaxA, acrossMinA - acrossMaxB);
+  if (centerDistance < thickness * 0.5 || gap > thickness * MAX_LINE_GAP) {
+    return false;
+  }
+
+  const [startA, endA] = along(extentA, orientation);
+  const [startB, endB] = along(extentB, orientation);
+  const overlap = Math.min(endA, endB) - Math.max(startA, startB);
+  const isAligned =
+    Math.abs(startA - startB) <= thickness ||
+    Math.abs(endA - endB) <= thickness ||
+    Math.abs((startA + endA) / 2 - (startB + endB) / 2) <= thickness;
+
+  return isAligned || overlap >= Math.min(endA - startA, endB - startB) * 0.5;
+};
+
+/**
+ * Build a block from its lines, in reading order: top to bottom, or right to left for vertical columns
+ */
+const createBlock = (lines: Line[], sourceLang: LanguageCode): TextBlock => {
+  const { orientation } = lines[0];
+  const angle = lines[0].box.angle;
+  const extents = lines.map(line => getExtent(getCorners(line.box), angle));
+
+  const ordered = lines
+    .map((line, i) => ({ line, extent: extents[i] }))
+    .sort((a, b) => orientation === 'horizontal'
+      ? (a.extent.vMin + a.extent.vMax) - (b.extent.vMin + b.extent.vMax)
+      : (b.extent.uMin + b.extent.uMax) - (a.extent.uMin + a.extent.uMax));
+
+  const extent = getExtent(lines.flatMap(line => getCorners(line.box)), angle);
+  const [blockStart, blockEnd] = along(extent, orientation);
+  const joiner = UNSPACED_LANGUAGES.includes(sourceLang) ? '' : ' ';
+  const thicknesses = extents.map(lineExtent => {
+    const [min, max] = across(lineExtent, orientation);
+    return max - min;
+  });
+  const lineHeight = thicknesses.reduce((sum, value) => sum + value, 0) / thicknesses.length;
+
+  // Lines that run to the end of the block wrap onto the next one; shorter lines end a paragraph or list item
+  let text = '';
+  ordered.forEach(({ line }, i) => {
+    const lineText = line.text.trim();
+    if (i === 0) {
+      text = lineText;
+      return;
+    }
+    const previous = ordered[i - 1];
+    const [start, end] = along(previous.extent, orientation);
+    const previousText = previous.line.text.trim();
+    const isWrapped = (end - start) >= (blockEnd - blockStart) * FULL_LINE_RATIO &&
+      (end - start) >= lineHeight * MIN_WRAPPED_LENGTH &&
+      !SENTENCE_END.test(previousText);
+
+    if (!isWrapped) {
+      text += '\n' + lineText;
+    } else if (joiner && /\p{L}-$/u.test(previousText)) {
+      text = text.slice(0, -1) + lineText; // Hyphenated word
+    } else {
+      text += joiner + lineText;
+    }
+  });
+
+  const radians = (angle * Math.PI) / 180;
+  const u = (extent.uMin + extent.uMax) / 2;
+  const v = (extent.vMin + extent.vMax) / 2;
+
+  return {
+    text,
+    lines: lines.map(line => line.index).sort((a, b) => a - b),
+    box: {
+      cx: u * Math.cos(radians) - v * Math.sin(radians),
+      cy: u * Math.sin(radians) + v * Math.cos(radians),
+      width: extent.uMax - extent.uMin,
+      height: extent.vMax - extent.vMin,
+      angle,
+    },
+    lineHeight,
+    orientation,
+  };
+};
+
+/**
+ * Group OCR lines into blocks of text that should be translated together
+ * Lines without a position stay blocks of their own; blocks keep the order the OCR service returned their
+ * first line in
+ */
+export function groupTextLines(regions: OCRTextLocation[], sourceLang: LanguageCode): TextBlock[] {
+  const lines: Line[] = [];
+  const unpositioned: TextBlock[] = [];
+  regions.forEach((region, index) => {
+    if (!region.text.trim()) {
+      return;
+    }
+    const box = getRegionBox(region);
+    if (box) {
+      lines.push({ index, text: region.text, box, orientation: getOrientation(box, region.text) });
+    } else {
+      unpositioned.push({ text: region.text.trim(), lines: [index], box: null, lineHeight: 0, orientation: 'horizontal' });
+    }
+  });
+
+  // Union-find over pairs of lines that belong together
+  const parent = lines.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+  for (let i = 0; i < lines.length; i++) {
+    for (let j = i + 1; j < lines.length; j++) {
+      if (belongTogether(lines[i], lines[j])) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, Line[]>();
+  lines.forEach((line, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), line]);
+  });
+
+  return Array.from(groups.values())
+    .map(group => createBlock(group, sourceLang))
+    .concat(unpositioned)
+    .sort((a, b) => a.lines[0] - b.lines[0]);
+}
@@ -0,0 +1,145 @@
+import { AISettings } from '../config/settings';
+import { detectLanguage, type LanguageCode } from '../translation/translation';
+
+// Characters only used in Traditional Chinese, used to tell it apart from Simplified
+const TRADITIONAL_ONLY = /[們這個來時會國學與對開關發還點體過麼為現實從當經讓壓聽見話認說門問間]/;
+// Simplified forms that never appear in Traditional text; 个, 与, 体, 么 and 听 are left out
+// because they are also Traditional characters or common variants there
+const SIMPLIFIED_ONLY = /[们这来时会国学对开关发还点过为现实从当经让压见话认说门问间]/;
+
+// Most AI detection results kept in memory, oldest dropped first
+const MAX_DETECTED_ENTRIES = 200;
+
+// AI detection results by normalized text, so re-typed and cached phrases do not cost another request
+const detectedLanguages = new Map<string, LanguageCode>();
+
+// Scripts that identify a single language
+const UNIQUE_SCRIPTS: { pattern: RegExp; lang: LanguageCode }[] = [
+  { pattern: /[\uAC00-\uD7AF\u1100-\u11FF\u3130-\u318F]/g, lang: 'ko' },
+  { pattern: /[\u0E00-\u0E7F]/g, lang: 'th' },
+  { pattern: /[\u1780-\u17FF]/g, lang: 'km' },
+  { pattern: /[\u1000-\u109F]/g, lang: 'my' },
+  { pattern: /[\u0F00-\u0FFF]/g, lang: 'bo' },
+  { pattern: /[\u0590-\u05FF]/g, lang: 'he' },
+  { pattern: /[\u0A80-\u0AFF]/g, lang: 'gu' },
+  { pattern: /[\u0C00-\u0C7F]/g, lang: 'te' },
+  { pattern: /[\u0B80-\u0BFF]/g, lang: 'ta' },
+  { pattern: /[\u0980-\u09FF]/g, lang: 'bn' },
+  { pattern: /[\u0900-\u097F]/g, lang: 'hi' },
+];
+
+/**
+ * Pick a language for Arabic script text from letters specific to each language
+ */
+const detectArabicScript = (text: string): LanguageCode => {
+  if (/[ۆۇۈېۋ]/.test(text)) return 'ug';
+  if (/[ٹڈڑںے]/.test(text)) return 'ur';
+  if (/[پچژگک]/.test(text)) return 'fa';
+  return 'ar';
+};
+
+/**
+ * Pick a language for Cyrillic text from letters specific to each language
+ */
+const detectCyrillic = (text: string): LanguageCode => {
+  if (/[әғқңұһӘҒҚҢҰҺ]/.test(text)) return 'kk';
+  if (/[өүӨҮ]/.test(text)) return 'mn';
+  if (/[іїєґІЇЄҐ]/.test(text)) return 'uk';
+  return 'ru';
+};
+
+/**
+ * Pick a language for Latin text when its diacritics are distinctive enough
+ * Returns null for text that could be one of several languages
+ */
+const detectLatin = (text: string): LanguageCode | null => {
+  if (/[ăđơưạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹ]/i.test(text)) return 'vi';
+  if (/[ğışİ]/.test(text)) return 'tr';
+  if (/[ąęłńśźż]/i.test(text)) return 'pl';
+  if (/[ěřů]/i.test(text)) return 'cs';
+  return null;
+};
+
+const countMatches = (text: string, pattern: RegExp): number => {
+  return text.match(pattern)?.length || 0;
+};
+
+/**
+ * Detect the language of text from the scripts it is written in, without any network request
+ * @returns The detected language, or null when the text is ambiguous (e.g. plain Latin script)
+ */
+export function detectScriptLanguage(text: string): LanguageCode | null {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  // Kana only appears in Japanese, even when mixed with kanji
+  if (/[\u3040-\u309F\u30A0-\u30FF]/.test(trimmed)) {
+    return 'ja';
+  }
+
+  const counts: { lang: LanguageCode | 'han' | 'arabic' | 'cyrillic' | 'latin'; count: number }[] = [
+    ...UNIQUE_SCRIPTS.map(({ pattern, lang }) => ({ lang, count: countMatches(trimmed, pattern) })),
+    { lang: 'han', count: countMatches(trimmed, /[\u4E00-\u9FFF\u3400-\u4DBF]/g) },
+    { lang: 'arabic', count: countMatches(trimmed, /[\u0600-\u06FF\u0750-\u077F]/g) },
+    { lang: 'cyrillic', count: countMatches(trimmed, /[\u0400-\u04FF]/g) },
+    { lang: 'latin', count: countMatches(trimmed, /[A-Za-z\u00C0-\u024F\u1E00-\u1EFF]/g) },
+  ];
+
+  // The script with the most letters wins
+  const dominant = counts.reduce((best, current) => current.count > best.count ? current : best);
+  if (dominant.count === 0) {
+    return null;
+  }
+
+  switch (dominant.lang) {
+    case 'han':
+      return TRADITIONAL_ONLY.test(trimmed) && !SIMPLIFIED_ONLY.test(trimmed) ? 'zh-Hant' : 'zh';
+    case 'arabic':
+      return detectArabicScript(trimmed);
+    case 'cyrillic':
+      return detectCyrillic(trimmed);
+    case 'latin':
+      return detectLatin(trimmed);
+    default:
+      return dominant.lang;
+  }
+}
+
+/**
+ * Detect the source language of text
+ * Uses script heuristics first and only asks the AI service for ambiguous Latin script text, once per text
+ * @returns The detected language, or null if it could not be determined
+ */
+export async function detectSourceLanguage(
+  text: string,
+  settings: AISettings,
+  abortSignal?: AbortSignal
+): Promise<LanguageCode | null> {
+  const local = detectScriptLanguage(text);
+  if (local) {
+    return local;
+  }
+
+  // Nothing to detect in text without letters (numbers, punctuation, emoji)
+  if (!/\p{L}/u.test(text)) {
+    return null;
+  }
+
+  const key = text.normalize('NFC').trim().replace(/\s+/g, ' ');
+  const remembered = detectedLanguages.get(key);
+  if (remembered) {
+    return remembered;
+  }
+
+  const detected = await detectLanguage(text, settings, abortSignal);
+  // Failed detections are not kept, so the next attempt asks again
+  if (detected) {
+    detectedLanguages.set(key, detected);
+    if (detectedLanguages.size > MAX_DETECTED_ENTRIES) {
+      detectedLanguages.delete(detectedLanguages.keys().next().value as string);
+    }
+  }
+  return detected;
+}
@@ -0,0 +1,168 @@
+/**
+ * Phrasebook
+ * Starred translations filed into user-defined folders, stored locally for offline use
+ */
+
+import { STORES, withStore, promisifyRequest, createId } from '../storage/db';
+import type { LanguageCode } from '../translation/translation';
+
+export interface PhrasebookFolder {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface PhrasebookEntry {
+  id: string;
+  folderId: string; // Empty string = unfiled
+  sourceLang: LanguageCode;
+  targetLang: LanguageCode;
+  sourceText: string;
+  translatedText: string;
+  furiganaHtml?: string; // Ruby-annotated HTML for Japanese translations
+  notes: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type NewPhrasebookEntry = Omit<PhrasebookEntry, 'id' | 'createdAt' | 'updatedAt'>;
+
+export const UNFILED_FOLDER_ID = '';
+
+/**
+ * List all folders, oldest first
+ */
+export async function listFolders(): Promise<PhrasebookFolder[]> {
+  const folders = await withStore(STORES.phrasebookFolders, 'readonly', (store) =>
+    promisifyRequest(store.index('createdAt').getAll())
+  );
+  return folders as PhrasebookFolder[];
+}
+
+/**
+ * Create a new folder
+ */
+export async function createFolder(name: string): Promise<PhrasebookFolder> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Folder name cannot be empty');
+  }
+
+  const folder: PhrasebookFolder = {
+    id: createId(),
+    name: trimmed,
+    createdAt: Date.now(),
+  };
+
+  await withStore(STORES.phrasebookFolders, 'readwrite', (store) => promisifyRequest(store.put(folder)));
+  return folder;
+}
+
+/**
+ * Rename a folder
+ */
+export async function renameFolder(id: string, name: string): Promise<void> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Folder name cannot be empty');
+  }
+
+  await withStore(STORES.phrasebookFolders, 'readwrite', async (store) => {
+    const folder = await promisifyRequest(store.get(id)) as PhrasebookFolder | undefined;
+    if (folder) {
+      await promisifyRequest(store.put({ ...folder, name: trimmed }));
+    }
+  });
+}
+
+/**
+ * Delete a folder
+ * Entries inside it are kept and moved to unfiled
+ */
+export async function deleteFolder(id: string): Promise<void> {
+  const entries = await listEntries(id);
+  const now = Date.now();
+
+  await withStore(STORES.phrasebookEntries, 'readwrite', async (store) => {
+    for (const entry of entries) {
+      await promisifyRequest(store.put({ ...entry, folderId: UNFILED_FOLDER_ID, updatedAt: now }));
+    }
+  });
+  await withStore(STORES.phrasebookFolders, 'readwrite', (store) => promisifyRequest(store.delete(id)));
+}
+
+/**
+ * List entries, newest first
+ * @param folderId - Only return entries in this folder (UNFILED_FOLDER_ID for unfiled); omit for all entries
+ */
+export async function listEntries(folderId?: string): Promise<PhrasebookEntry[]> {
+  const entries = await withStore(STORES.phrasebookEntries, 'readonly', (store) =>
+    promisifyRequest(
+      folderId === undefined
+        ? store.getAll()
+        : store.index('folderId').getAll(IDBKeyRange.only(folderId))
+    )
+  ) as PhrasebookEntry[];
+
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Save a translation to the phrasebook
+ */
+export async function addEntry(entry: NewPhrasebookEntry): Promise<PhrasebookEntry> {
+  const now = Date.now();
+  const record: PhrasebookEntry = {
+    ...entry,
+    id: createId(),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await withStore(STORES.phrasebookEntries, 'readwrite', (store) => promisifyRequest(store.put(record)));
+  return record;
+}
+
+/**
+ * Update the folder or notes of an entry
+ */
+export async function updateEntry(
+  id: string,
+  changes: Partial<Pick<PhrasebookEntry, 'folderId' | 'notes'>>
+): Promise<PhrasebookEntry | null> {
+  return withStore(STORES.phrasebookEntries, 'readwrite', async (store) => {
+    const entry = await promisifyRequest(store.get(id)) as PhrasebookEntry | undefined;
+    if (!entry) {
+      return null;
+    }
+
+    const updated: PhrasebookEntry = { ...entry, ...changes, updatedAt: Date.now() };
+    await promisifyRequest(store.put(updated));
+    return updated;
+  });
+}
+
+/**
+ * Delete an entry
+ */
+export async function deleteEntry(id: string): Promise<void> {
+  await withStore(STORES.phrasebookEntries, 'readwrite', (store) => promisifyRequest(store.delete(id)));
+}
+
+/**
+ * Find an existing entry for the same translation, used to show the starred state
+ */
+export async function findEntry(
+  sourceText: string,
+  translatedText: string,
+  sourceLang: LanguageCode,
+  targetLang: LanguageCode
+): Promise<PhrasebookEntry | null> {
+  const entries = await listEntries();
+  return entries.find(entry =>
+    entry.sourceLang === sourceLang &&
+    entry.targetLang === targetLang &&
+    entry.sourceText === sourceText &&
+    entry.translatedText === translatedText
+  ) || null;
+}
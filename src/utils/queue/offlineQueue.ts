@@ -0,0 +1,204 @@
+/**
+ * Offline Queue
+ * Keeps translation, explanation and image OCR requests that failed while the browser was offline in
+ * IndexedDB, and runs them again once the connection is back; results are saved to the history
+ */
+
+import { STORES, withStore, promisifyRequest, iterateCursor, createId } from '../storage/db';
+import type { AISettings } from '../config/settings';
+import { NetworkError, normalizeProviderError } from '../ai/errors';
+import {
+  translateTextWithFailover,
+  THINKING_START_MARKER,
+  THINKING_END_MARKER,
+  type LanguageCode,
+} from '../translation/translation';
+import { translateTextCached } from '../translation/cache';
+import { explainWord } from '../translation/explanation';
+import { performOCR } from '../image/imageOcr';
+import { groupTextLines } from '../image/textLayout';
+import { compressBase64Image } from '../image/imageCompression';
+import { addHistoryEntry, type HistoryEntry, type NewHistoryEntry } from '../history/history';
+
+export type PendingRequestKind = 'translation' | 'explanation' | 'image-ocr';
+
+export interface PendingRequest {
+  id: string;
+  kind: PendingRequestKind;
+  sourceLang: LanguageCode;
+  targetLang: LanguageCode;
+  input: string; // Text to translate or explain, or the image as a data URL
+  attempts: number; // Failed runs after the connection came back
+  createdAt: number;
+}
+
+export type NewPendingRequest = Pick<PendingRequest, 'kind' | 'sourceLang' | 'targetLang' | 'input'>;
+
+export interface QueueRunResult {
+  completed: HistoryEntry[];
+  failed: PendingRequest[]; // Dropped after failing MAX_ATTEMPTS times
+}
+
+// Requests that keep failing once the connection is back are dropped after this many runs
+const MAX_ATTEMPTS = 3;
+
+// The queue run in progress, so overlapping triggers share it instead of running requests twice
+let runningQueue: Promise<QueueRunResult> | null = null;
+
+/**
+ * Check if a request failed because the browser is offline, so it should be queued rather than reported
+ * Network errors while online (CORS, wrong host) are reported as usual, since waiting will not fix them
+ */
+export function isOfflineError(error: unknown): boolean {
+  return !navigator.onLine && normalizeProviderError(error) instanceof NetworkError;
+}
+
+/**
+ * Queue a request to run once the browser is back online
+ * Auto-translate fires on every typing pause, so text that extends (or trims) the newest queued text of the
+ * same kind and languages replaces it instead of queueing fragments
+ * @returns The queued request, and whether it was added rather than merged into the previous one
+ */
+export async function queueRequest(request: NewPendingRequest): Promise<{ request: PendingRequest; isNew: boolean }> {
+  return withStore(STORES.pendingRequests, 'readwrite', async (store) => {
+    const cursor = await promisifyRequest(store.index('createdAt').openCursor(null, 'prev'));
+    const newest = cursor?.value as PendingRequest | undefined;
+
+    const isContinuation = !!newest &&
+      request.kind !== 'image-ocr' &&
+      newest.kind === request.kind &&
+      newest.sourceLang === request.sourceLang &&
+      newest.targetLang === request.targetLang &&
+      (request.input.startsWith(newest.input) || newest.input.startsWith(request.input));
+
+    const record: PendingRequest = isContinuation && newest
+      ? { ...newest, input: request.input }
+      : { ...request, id: createId(), attempts: 0, createdAt: Date.now() };
+
+    await promisifyRequest(store.put(record));
+    return { request: record, isNew: !isContinuation };
+  });
+}
+
+/**
+ * List queued requests, oldest first
+ */
+export async function listPendingRequests(): Promise<PendingRequest[]> {
+  const requests: PendingRequest[] = [];
+
+  await withStore(STORES.pendingRequests, 'readonly', (store) =>
+    iterateCursor(store.index('createdAt').openCursor(), (cursor) => {
+      requests.push(cursor.value as PendingRequest);
+    })
+  );
+
+  return requests;
+}
+
+/**
+ * Count queued requests
+ */
+export async function countPendingRequests(): Promise<number> {
+  return withStore(STORES.pendingRequests, 'readonly', (store) => promisifyRequest(store.count()));
+}
+
+/**
+ * Create a small thumbnail for the history entry of a queued image
+ */
+const createThumbnail = async (image: string): Promise<string | undefined> => {
+  try {
+    return await compressBase64Image(image, { maxWidth: 240, maxHeight: 240, quality: 70 });
+  } catch (error) {
+    console.error('[Queue] Failed to create thumbnail:', error);
+    return undefined;
+  }
+};
+
+/**
+ * Run a queued request and build its history entry
+ */
+const runRequest = async (request: PendingRequest, settings: AISettings): Promise<NewHistoryEntry> => {
+  const { kind, sourceLang, targetLang, input } = request;
+
+  if (kind === 'translation') {
+    const outcome = await translateTextWithFailover(input, sourceLang, targetLang, settings);
+    return { mode: 'translation', sourceLang, targetLang, sourceText: input, resultText: outcome.text };
+  }
+
+  if (kind === 'explanation') {
+    let resultText = '';
+    for await (const chunk of explainWord(input, sourceLang, targetLang, settings)) {
+      if (chunk !== THINKING_START_MARKER && chunk !== THINKING_END_MARKER) {
+        resultText += chunk;
+      }
+    }
+    return { mode: 'explanation', sourceLang, targetLang, sourceText: input, resultText };
+  }
+
+  const blocks = groupTextLines(await performOCR(input, settings), sourceLang);
+  const translations = await Promise.all(
+    blocks.map(block => translateTextCached(block.text, sourceLang, targetLang, settings))
+  );
+  return {
+    mode: 'image-ocr',
+    sourceLang,
+    targetLang,
+    sourceText: blocks.map(block => block.text).join('\n'),
+    resultText: translations.join('\n'),
+    thumbnail: await createThumbnail(input),
+  };
+};
+
+/**
+ * Run the queued requests in order, saving each result to the history
+ * Stops at the first request that fails for lack of a connection; other failures are retried on the
+ * next run, up to MAX_ATTEMPTS times
+ */
+const runQueue = async (settings: AISettings): Promise<QueueRunResult> => {
+  const result: QueueRunResult = { completed: [], failed: [] };
+
+  for (const request of await listPendingRequests()) {
+    if (!navigator.onLine) {
+      break;
+    }
+
+    try {
+      const entry = await runRequest(request, settings);
+      // An empty result for non-empty input (a stream that ended early) is a failure, not an answer; keep
+      // the request so it is tried again. Images without any text have nothing to translate
+      if (!entry.resultText.trim() && entry.sourceText.trim()) {
+        throw new Error(`The queued ${request.kind} request returned no result`);
+      }
+      result.completed.push(await addHistoryEntry(entry));
+      await withStore(STORES.pendingRequests, 'readwrite', (store) => promisifyRequest(store.delete(request.id)));
+    } catch (error) {
+      if (isOfflineError(error)) {
+        console.warn('[Queue] Connection lost again, keeping the remaining requests');
+        break;
+      }
+
+      const attempts = request.attempts + 1;
+      console.error(`[Queue] Queued ${request.kind} request failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, error);
+      if (attempts >= MAX_ATTEMPTS) {
+        await withStore(STORES.pendingRequests, 'readwrite', (store) => promisifyRequest(store.delete(request.id)));
+        result.failed.push(request);
+      } else {
+        await withStore(STORES.pendingRequests, 'readwrite', (store) => promisifyRequest(store.put({ ...request, attempts })));
+      }
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Run the queued requests, unless a run is already in progress, in which case its result is shared
+ */
+export function processPendingRequests(settings: AISettings): Promise<QueueRunResult> {
+  if (!runningQueue) {
+    runningQueue = runQueue(settings).finally(() => {
+      runningQueue = null;
+    });
+  }
+  return runningQueue;
+}
@@ -0,0 +1,185 @@
+/**
+ * IndexedDB Storage
+ * Opens the shared tabitomo database and wraps IndexedDB requests in promises
+ */
+
+const DB_NAME = 'tabitomo';
+
+/**
+ * Object store names
+ */
+export const STORES = {
+  history: 'history',
+  phrasebookFolders: 'phrasebookFolders',
+  phrasebookEntries: 'phrasebookEntries',
+  translationCache: 'translationCache',
+  glossary: 'glossary',
+  usage: 'usage',
+  pendingRequests: 'pendingRequests',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+/**
+ * Upgrade steps, indexed by the version they upgrade from
+ * Add a new step here (never edit an existing one) when adding or changing object stores
+ */
+const UPGRADES: Array<(db: IDBDatabase) => void> = [
+  // v0 → v1: translation history
+  (db) => {
+    const history = db.createObjectStore(STORES.history, { keyPath: 'id' });
+    history.createIndex('createdAt', 'createdAt');
+  },
+  // v1 → v2: phrasebook folders and entries
+  (db) => {
+    const folders = db.createObjectStore(STORES.phrasebookFolders, { keyPath: 'id' });
+    folders.createIndex('createdAt', 'createdAt');
+    const entries = db.createObjectStore(STORES.phrasebookEntries, { keyPath: 'id' });
+    entries.createIndex('folderId', 'folderId');
+    entries.createIndex('createdAt', 'createdAt');
+  },
+  // v2 → v3: translation cache
+  (db) => {
+    const cache = db.createObjectStore(STORES.translationCache, { keyPath: 'key' });
+    cache.createIndex('lastAccessed', 'lastAccessed');
+  },
+  // v3 → v4: glossary
+  (db) => {
+    const glossary = db.createObjectStore(STORES.glossary, { keyPath: 'id' });
+    glossary.createIndex('langPair', ['sourceLang', 'targetLang']);
+  },
+  // v4 → v5: usage ledger
+  (db) => {
+    const usage = db.createObjectStore(STORES.usage, { keyPath: 'id' });
+    usage.createIndex('createdAt', 'createdAt');
+  },
+  // v5 → v6: requests queued while offline
+  (db) => {
+    const pending = db.createObjectStore(STORES.pendingRequests, { keyPath: 'id' });
+    pending.createIndex('createdAt', 'createdAt');
+  },
+];
+
+/**
+ * Current database version
+ */
+const DB_VERSION = UPGRADES.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open the database, running any pending upgrades
+ * The connection is shared across the app
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not supported in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        console.log(`[Storage] Upgrading database from v${version} to v${version + 1}`);
+        UPGRADES[version](db);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading the database, release our connection
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error('Failed to open database'));
+    };
+
+    request.onblocked = () => {
+      console.warn('[Storage] Database upgrade is blocked by another open tab');
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run a callback against a single object store inside a transaction
+ * Resolves with the callback's return value once the transaction has committed
+ */
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => T | Promise<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const store = transaction.objectStore(storeName);
+
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+
+  const result = await callback(store);
+  await completed;
+  return result;
+}
+
+/**
+ * Walk a cursor, calling the visitor for each record
+ * Return false from the visitor to stop iterating
+ */
+export function iterateCursor(
+  request: IDBRequest<IDBCursorWithValue | null>,
+  visitor: (cursor: IDBCursorWithValue) => boolean | void
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      if (visitor(cursor) === false) {
+        resolve();
+        return;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Generate a unique record id
+ */
+export function createId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,80 @@
+/**
+ * Live Subtitles
+ * Subtitle lines built from voice segments, and SRT/WebVTT export
+ */
+
+export interface SubtitleLine {
+  id: string;
+  start: number; // Offset from the start of the session, in ms
+  end: number;
+  text: string; // Transcribed speech
+  translation: string;
+}
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+// What each exported cue contains
+export type SubtitleContent = 'translation' | 'original' | 'both';
+
+/**
+ * Format a time offset as HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+ */
+const formatTimestamp = (ms: number, separator: ',' | '.'): string => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+};
+
+const getCueText = (line: SubtitleLine, content: SubtitleContent): string => {
+  switch (content) {
+    case 'original':
+      return line.text;
+    case 'both':
+      return line.translation ? `${line.text}\n${line.translation}` : line.text;
+    default:
+      return line.translation || line.text;
+  }
+};
+
+/**
+ * Convert subtitle lines to an SRT or WebVTT document
+ * Lines are ordered by start time, since segments can finish transcribing out of order
+ */
+export function formatSubtitles(lines: SubtitleLine[], format: SubtitleFormat, content: SubtitleContent = 'translation'): string {
+  const separator = format === 'srt' ? ',' : '.';
+  const cues = [...lines]
+    .sort((a, b) => a.start - b.start)
+    .map((line, index) => {
+      const timing = `${formatTimestamp(line.start, separator)} --> ${formatTimestamp(line.end, separator)}`;
+      const text = getCueText(line, content);
+      return format === 'srt' ? `${index + 1}\n${timing}\n${text}` : `${timing}\n${text}`;
+    });
+
+  if (format === 'vtt') {
+    return ['WEBVTT', ...cues].join('\n\n') + '\n';
+  }
+  return cues.join('\n\n') + '\n';
+}
+
+/**
+ * Download subtitle lines as an SRT or WebVTT file
+ */
+export function downloadSubtitles(lines: SubtitleLine[], format: SubtitleFormat, content: SubtitleContent = 'translation'): void {
+  const blob = new Blob([formatSubtitles(lines, format, content)], {
+    type: format === 'srt' ? 'application/x-subrip' : 'text/vtt',
+  });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `tabitomo-subtitles-${Date.now()}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
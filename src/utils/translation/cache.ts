@@ -0,0 +1,170 @@
+/**
+ * Translation Cache
+ * Persists translations in IndexedDB so repeated inputs (re-typed phrases, re-photographed menus)
+ * are served locally across sessions, with a TTL and least-recently-used eviction
+ */
+
+import { STORES, withStore, promisifyRequest, iterateCursor } from '../storage/db';
+import { AISettings, DEFAULT_CACHE_TTL_HOURS, DEFAULT_CACHE_MAX_ENTRIES } from '../config/settings';
+import { translateTextWithFailover, getTranslationModel, type LanguageCode } from './translation';
+import { getTranslationTone } from './tone';
+import { findGlossaryMatches } from '../glossary/glossary';
+
+interface CachedTranslation {
+  key: string;
+  result: string;
+  createdAt: number;
+  lastAccessed: number;
+}
+
+/**
+ * Normalize text so trivial whitespace differences share a cache entry
+ */
+const normalizeText = (text: string): string => {
+  return text.normalize('NFC').trim().replace(/\s+/g, ' ');
+};
+
+/**
+ * Build the cache key from the normalized text, language pair, model, output mode, tone and the glossary
+ * entries the text matches, so adding or editing a term invalidates the translations it applies to
+ */
+const getCacheKey = async (text: string, from: LanguageCode, to: LanguageCode, settings: AISettings): Promise<string> => {
+  const { modelName, outputMode } = getTranslationModel(settings);
+  const tone = getTranslationTone(settings, to);
+  const glossary = (await findGlossaryMatches(text, from, to))
+    .map(entry => `${entry.sourceTerm}\u0001${entry.targetTerm}\u0001${entry.note}`)
+    .join('\u0002');
+  return [modelName, outputMode, from, to, tone, glossary, normalizeText(text)].join('\u0000');
+};
+
+const getCacheOptions = (settings: AISettings) => {
+  return {
+    enabled: settings.translation?.cacheEnabled ?? true,
+    ttl: (settings.translation?.cacheTTLHours ?? DEFAULT_CACHE_TTL_HOURS) * 60 * 60 * 1000,
+    maxEntries: settings.translation?.cacheMaxEntries ?? DEFAULT_CACHE_MAX_ENTRIES,
+  };
+};
+
+/**
+ * Look up a cached translation
+ * Expired entries are removed; hits refresh their position in the LRU order
+ * @returns The cached result, or null on a miss
+ */
+export async function getCachedTranslation(
+  text: string,
+  from: LanguageCode,
+  to: LanguageCode,
+  settings: AISettings
+): Promise<string | null> {
+  const options = getCacheOptions(settings);
+  if (!options.enabled) {
+    return null;
+  }
+
+  const key = await getCacheKey(text, from, to, settings);
+
+  try {
+    return await withStore(STORES.translationCache, 'readwrite', async (store) => {
+      const cached = await promisifyRequest(store.get(key)) as CachedTranslation | undefined;
+      if (!cached) {
+        return null;
+      }
+
+      if (Date.now() - cached.createdAt >= options.ttl) {
+        await promisifyRequest(store.delete(key));
+        return null;
+      }
+
+      await promisifyRequest(store.put({ ...cached, lastAccessed: Date.now() }));
+      return cached.result;
+    });
+  } catch (error) {
+    // The cache is an optimization, never fail a translation because of it
+    console.warn('[Cache] Failed to read translation cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Store a translation in the cache, evicting the least recently used entries beyond the size cap
+ */
+export async function cacheTranslation(
+  text: string,
+  from: LanguageCode,
+  to: LanguageCode,
+  settings: AISettings,
+  result: string
+): Promise<void> {
+  const options = getCacheOptions(settings);
+  if (!options.enabled || !result) {
+    return;
+  }
+
+  const key = await getCacheKey(text, from, to, settings);
+  const now = Date.now();
+  const record: CachedTranslation = {
+    key,
+    result,
+    createdAt: now,
+    lastAccessed: now,
+  };
+
+  try {
+    await withStore(STORES.translationCache, 'readwrite', async (store) => {
+      await promisifyRequest(store.put(record));
+
+      const count = await promisifyRequest(store.count());
+      let excess = count - options.maxEntries;
+      if (excess <= 0) {
+        return;
+      }
+
+      await iterateCursor(store.index('lastAccessed').openCursor(), (cursor) => {
+        cursor.delete();
+        excess--;
+        return excess > 0;
+      });
+    });
+  } catch (error) {
+    console.warn('[Cache] Failed to write translation cache:', error);
+  }
+}
+
+/**
+ * Translate text, serving repeated inputs from the cache
+ * Used for batches such as OCR regions, where the same lines come back on every photo
+ */
+export async function translateTextCached(
+  text: string,
+  from: LanguageCode,
+  to: LanguageCode,
+  settings: AISettings,
+  abortSignal?: AbortSignal
+): Promise<string> {
+  const cached = await getCachedTranslation(text, from, to, settings);
+  if (cached !== null) {
+    return cached;
+  }
+
+  const outcome = await translateTextWithFailover(text, from, to, settings, abortSignal);
+  // Offline model and fallback provider results are not kept, since the key names the primary model, which
+  // translates the text again once it is reachable
+  if (!outcome.isOffline && !outcome.isFallback) {
+    await cacheTranslation(text, from, to, settings, outcome.text);
+  }
+  return outcome.text;
+}
+
+/**
+ * Delete all cached translations
+ */
+export async function clearTranslationCache(): Promise<void> {
+  await withStore(STORES.translationCache, 'readwrite', (store) => promisifyRequest(store.clear()));
+}
+
+/**
+ * Count cached translations
+ */
+export async function getTranslationCacheSize(): Promise<number> {
+  return withStore(STORES.translationCache, 'readonly', (store) => promisifyRequest(store.count()));
+}
@@ -1,6 +1,9 @@
 import { streamText } from 'ai';
-import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
 import { AISettings } from '../config/settings';
+import { resolveTextFeatureProvider } from '../config/profiles';
+import { createAIClient } from '../ai/provider';
+import { normalizeProviderError } from '../ai/errors';
+import { recordUsage } from '../usage/usage';
 import { SUPPORTED_LANGUAGES, type LanguageCode } from './translation';
 
 /**
@@ -19,24 +22,20 @@ export async function* explainWord(
   console.log('[Explanation] Explanation language:', explanationLang);
   console.log('[Explanation] Thinking mode:', settings.vlm.enableThinking);
 
-  const apiKey = settings.generalAI.apiKey;
-  const endpoint = settings.generalAI.endpoint;
-  const modelName = settings.generalAI.modelName;
+  const provider = resolveTextFeatureProvider(settings, 'explanation');
 
   const explanationLanguageName = SUPPORTED_LANGUAGES[explanationLang];
 
   // Create AI SDK client
-  const client = createOpenAICompatible({
-    name: 'explanation-provider',
-    apiKey,
-    baseURL: endpoint,
-  });
+  const client = createAIClient(provider, 'explanation-provider');
 
   console.log('[Explanation] Sending request');
 
   try {
-    const result = await streamText({
-      model: client(modelName),
+    // streamText reports errors through onError instead of throwing from textStream
+    let streamError: unknown = null;
+    const result = streamText({
+      model: client(provider.modelName),
       messages: [
         {
           role: 'system',
@@ -61,6 +60,12 @@ Format your response in markdown. Provide ONLY the explanation, no meta-commenta
         },
       ],
       abortSignal,
+      onError: ({ error }) => {
+        streamError = error;
+      },
+      onFinish: ({ totalUsage }) => {
+        recordUsage('explanation', provider, totalUsage);
+      },
     });
 
     let inThinkTag = false;
@@ -144,6 +149,10 @@ Format your response in markdown. Provide ONLY the explanation, no meta-commenta
       }
     }
 
+    if (streamError) {
+      throw streamError;
+    }
+
     // Handle any remaining buffer
     if (buffer.length > 0 && (!inThinkTag || settings.vlm.enableThinking)) {
       yield buffer;
@@ -152,46 +161,7 @@ Format your response in markdown. Provide ONLY the explanation, no meta-commenta
     console.log('[Explanation] Explanation completed');
   } catch (error) {
     console.error('[Explanation] Error:', error);
-
-    // Provide user-friendly error messages
-    if (error instanceof Error) {
-      const errorMsg = error.message.toLowerCase();
-
-      // API Key errors
-      if (errorMsg.includes('api key') || errorMsg.includes('unauthorized') || errorMsg.includes('401')) {
-        throw new Error('Invalid API key. Please check your General AI settings.');
-      }
-
-      // Network errors
-      if (errorMsg.includes('network') || errorMsg.includes('fetch') || errorMsg.includes('econnrefused')) {
-        throw new Error('Network error. Please check your internet connection and API endpoint.');
-      }
-
-      // Endpoint errors
-      if (errorMsg.includes('404') || errorMsg.includes('not found')) {
-        throw new Error('Invalid API endpoint. Please check your General AI endpoint URL in Settings.');
-      }
-
-      // Rate limit errors
-      if (errorMsg.includes('rate limit') || errorMsg.includes('429') || errorMsg.includes('quota')) {
-        throw new Error('API rate limit exceeded. Please try again later.');
-      }
-
-      // Model errors
-      if (errorMsg.includes('model') || errorMsg.includes('not support')) {
-        throw new Error('Model error. Please check your General AI model name in Settings.');
-      }
-
-      // Timeout errors
-      if (errorMsg.includes('timeout') || errorMsg.includes('timed out')) {
-        throw new Error('Request timed out. Please try again.');
-      }
-
-      // Generic error with original message
-      throw new Error(`Explanation failed: ${error.message}`);
-    }
-
-    throw new Error('Explanation failed. Please try again.');
+    throw normalizeProviderError(error);
   }
 }
 
@@ -211,25 +181,21 @@ export async function* quickQA(
   console.log('[Quick Q/A] Answer language:', answerLang);
   console.log('[Quick Q/A] Thinking mode:', settings.vlm.enableThinking);
 
-  const apiKey = settings.generalAI.apiKey;
-  const endpoint = settings.generalAI.endpoint;
-  const modelName = settings.generalAI.modelName;
+  const provider = resolveTextFeatureProvider(settings, 'qa');
 
   const questionLanguageName = SUPPORTED_LANGUAGES[questionLang];
   const answerLanguageName = SUPPORTED_LANGUAGES[answerLang];
 
   // Create AI SDK client
-  const client = createOpenAICompatible({
-    name: 'qa-provider',
-    apiKey,
-    baseURL: endpoint,
-  });
+  const client = createAIClient(provider, 'qa-provider');
 
   console.log('[Quick Q/A] Sending request');
 
   try {
-    const result = await streamText({
-      model: client(modelName),
+    // streamText reports errors through onError instead of throwing from textStream
+    let streamError: unknown = null;
+    const result = streamText({
+      model: client(provider.modelName),
       messages: [
         {
           role: 'system',
@@ -252,6 +218,12 @@ Format your response in markdown. Provide ONLY the answer, no meta-commentary.`,
         },
       ],
       abortSignal,
+      onError: ({ error }) => {
+        streamError = error;
+      },
+      onFinish: ({ totalUsage }) => {
+        recordUsage('qa', provider, totalUsage);
+      },
     });
 
     let inThinkTag = false;
@@ -335,6 +307,10 @@ Format your response in markdown. Provide ONLY the answer, no meta-commentary.`,
       }
     }
 
+    if (streamError) {
+      throw streamError;
+    }
+
     // Handle any remaining buffer
     if (buffer.length > 0 && (!inThinkTag || settings.vlm.enableThinking)) {
       yield buffer;
@@ -343,45 +319,6 @@ Format your response in markdown. Provide ONLY the answer, no meta-commentary.`,
     console.log('[Quick Q/A] Q/A completed');
   } catch (error) {
     console.error('[Quick Q/A] Error:', error);
-
-    // Provide user-friendly error messages
-    if (error instanceof Error) {
-      const errorMsg = error.message.toLowerCase();
-
-      // API Key errors
-      if (errorMsg.includes('api key') || errorMsg.includes('unauthorized') || errorMsg.includes('401')) {
-        throw new Error('Invalid API key. Please check your General AI settings.');
-      }
-
-      // Network errors
-      if (errorMsg.includes('network') || errorMsg.includes('fetch') || errorMsg.includes('econnrefused')) {
-        throw new Error('Network error. Please check your internet connection and API endpoint.');
-      }
-
-      // Endpoint errors
-      if (errorMsg.includes('404') || errorMsg.includes('not found')) {
-        throw new Error('Invalid API endpoint. Please check your General AI endpoint URL in Settings.');
-      }
-
-      // Rate limit errors
-      if (errorMsg.includes('rate limit') || errorMsg.includes('429') || errorMsg.includes('quota')) {
-        throw new Error('API rate limit exceeded. Please try again later.');
-      }
-
-      // Model errors
-      if (errorMsg.includes('model') || errorMsg.includes('not support')) {
-        throw new Error('Model error. Please check your General AI model name in Settings.');
-      }
-
-      // Timeout errors
-      if (errorMsg.includes('timeout') || errorMsg.includes('timed out')) {
-        throw new Error('Request timed out. Please try again.');
-      }
-
-      // Generic error with original message
-      throw new Error(`Q/A failed: ${error.message}`);
-    }
-
-    throw new Error('Q/A failed. Please try again.');
+    throw normalizeProviderError(error);
   }
 }
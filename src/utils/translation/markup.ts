@@ -0,0 +1,120 @@
+/**
+ * Markup Masking
+ * Replaces spans that must not be translated (code, URLs, tags, emoji shortcodes, placeholders)
+ * with sentinel tokens before translation, and restores them afterwards
+ */
+
+export interface MaskedText {
+  text: string; // Text with protected spans replaced by tokens
+  spans: string[]; // Original spans, by token index
+}
+
+// Protected spans, matched left to right; earlier alternatives win when they overlap
+const PROTECTED_PATTERNS: RegExp[] = [
+  // Fenced code blocks
+  /(`{3,}|~{3,})[^\n]*\n[\s\S]*?\n[ \t]*\1[^\n]*/,
+  // Inline code spans
+  /`[^`\n]+`/,
+  // Markdown link and image targets, e.g. the "(./guide.md)" in [Guide](./guide.md)
+  /(?<=\])\([^)\s]+(?:\s+"[^"]*")?\)/,
+  // URLs, without trailing punctuation
+  /(?:https?:\/\/|www\.)[^\s<>"'`()]*[^\s<>"'`().,;:!?]/,
+  // Email addresses
+  /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/,
+  // HTML tags and comments
+  /<!--[\s\S]*?-->|<\/?[a-zA-Z][^<>]*>/,
+  // Emoji shortcodes, e.g. :tada:
+  /(?<![\w:]):[a-z0-9_+-]*[a-z_][a-z0-9_+-]+:(?![\w:])/,
+  // Template placeholders: {{name}}, ${name}, {name}, {0}
+  /\{\{[^{}\n]+\}\}|\$\{[^{}\n]+\}|\{[\w.$-]*\}/,
+  // printf-style placeholders: %s, %1$d, %(name)s, %.2f, %@
+  /%(?:\d+\$|\([\w.]+\))?[-+0#]*\d*(?:\.\d+)?[sdifuxXoeEgGc@](?![A-Za-z])/,
+];
+
+const PROTECTED_PATTERN = new RegExp(PROTECTED_PATTERNS.map(pattern => `(?:${pattern.source})`).join('|'), 'g');
+
+// Models sometimes add spaces inside the brackets; restoring tolerates that
+const TOKEN_PATTERN = /⟦\s*(\d+)\s*⟧/g;
+
+/**
+ * Get the sentinel token for a span
+ */
+const getToken = (index: number): string => `⟦${index}⟧`;
+
+/**
+ * Check if text contains a sentinel token (TOKEN_PATTERN is global, so test a fresh copy)
+ */
+const containsToken = (text: string): boolean => new RegExp(TOKEN_PATTERN.source).test(text);
+
+/**
+ * Replace protected spans with sentinel tokens
+ * Text that already contains tokens is returned unmasked, since its tokens could not be told apart
+ */
+export function maskMarkup(text: string): MaskedText {
+  if (containsToken(text)) {
+    return { text, spans: [] };
+  }
+
+  const spans: string[] = [];
+  const masked = text.replace(PROTECTED_PATTERN, (span) => {
+    spans.push(span);
+    return getToken(spans.length - 1);
+  });
+
+  return { text: masked, spans };
+}
+
+/**
+ * Check if masked text has anything left to translate once its tokens are removed
+ */
+export function hasTranslatableText(masked: MaskedText): boolean {
+  return /\p{L}/u.test(masked.text.replace(TOKEN_PATTERN, ''));
+}
+
+/**
+ * Get the indexes of the tokens that did not survive translation
+ */
+export function findLostTokens(translation: string, masked: MaskedText): number[] {
+  const found = new Set(Array.from(translation.matchAll(TOKEN_PATTERN), match => Number(match[1])));
+  return masked.spans.map((_, index) => index).filter(index => !found.has(index));
+}
+
+/**
+ * Put the original spans back in place of their tokens
+ */
+export function unmaskMarkup(translation: string, masked: MaskedText): string {
+  return translation.replace(TOKEN_PATTERN, (token, index: string) => masked.spans[Number(index)] ?? token);
+}
+
+/**
+ * Split masked text into the runs between tokens and the original spans in their place
+ * For translators that cannot be asked to keep tokens, such as the offline model
+ */
+export function splitMaskedText(masked: MaskedText): { text: string; isProtected: boolean }[] {
+  const parts: { text: string; isProtected: boolean }[] = [];
+  let lastIndex = 0;
+
+  for (const match of masked.text.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      parts.push({ text: masked.text.slice(lastIndex, index), isProtected: false });
+    }
+    parts.push({ text: masked.spans[Number(match[1])] ?? match[0], isProtected: true });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < masked.text.length) {
+    parts.push({ text: masked.text.slice(lastIndex), isProtected: false });
+  }
+
+  return parts;
+}
+
+/**
+ * Build the prompt instruction that asks the model to keep tokens in place
+ * @param text - The masked text sent to the model
+ */
+export function getMaskInstruction(text: string): string {
+  return containsToken(text)
+    ? `\n\nThe text contains placeholder tokens such as ${getToken(0)}. Copy every token unchanged into the translation, each exactly once, at the position that fits the translated sentence.`
+    : '';
+}
@@ -0,0 +1,267 @@
+/**
+ * Offline translation service using @huggingface/transformers
+ * Runs a small multilingual model (NLLB-200) in the browser, so text can still be translated without a connection
+ *
+ * Note: The model runs in a Web Worker, which loads transformers.js only when it is first used
+ */
+
+import type { LanguageCode } from './translation';
+import type { ModelDownloadCallback } from '../audio/localWhisper';
+import { AbortError } from '../ai/errors';
+import type { OfflineWorkerRequest, OfflineWorkerResponse } from './offlineTranslation.worker';
+
+export const OFFLINE_TRANSLATION_MODEL = 'Xenova/nllb-200-distilled-600M';
+
+// Files transformers.js stores in Cache Storage for the quantized model
+const MODEL_FILES = [
+  'tokenizer.json',
+  'onnx/encoder_model_quantized.onnx',
+  'onnx/decoder_model_merged_quantized.onnx',
+];
+const MODEL_CACHE_NAME = 'transformers-cache';
+
+// FLORES-200 codes used by NLLB, for each supported language
+const FLORES_CODES: Record<LanguageCode, string> = {
+  zh: 'zho_Hans',
+  en: 'eng_Latn',
+  fr: 'fra_Latn',
+  pt: 'por_Latn',
+  es: 'spa_Latn',
+  ja: 'jpn_Jpan',
+  tr: 'tur_Latn',
+  ru: 'rus_Cyrl',
+  ar: 'arb_Arab',
+  ko: 'kor_Hang',
+  th: 'tha_Thai',
+  it: 'ita_Latn',
+  de: 'deu_Latn',
+  vi: 'vie_Latn',
+  ms: 'zsm_Latn',
+  id: 'ind_Latn',
+  tl: 'tgl_Latn',
+  hi: 'hin_Deva',
+  'zh-Hant': 'zho_Hant',
+  pl: 'pol_Latn',
+  cs: 'ces_Latn',
+  nl: 'nld_Latn',
+  km: 'khm_Khmr',
+  my: 'mya_Mymr',
+  fa: 'pes_Arab',
+  gu: 'guj_Gujr',
+  ur: 'urd_Arab',
+  te: 'tel_Telu',
+  mr: 'mar_Deva',
+  he: 'heb_Hebr',
+  bn: 'ben_Beng',
+  ta: 'tam_Taml',
+  uk: 'ukr_Cyrl',
+  bo: 'bod_Tibt',
+  kk: 'kaz_Cyrl',
+  mn: 'khk_Cyrl',
+  ug: 'uig_Arab',
+  yue: 'yue_Hant',
+};
+
+class OfflineTranslationService {
+  private worker: Worker | null = null;
+  private downloaded = false;
+  private downloading = false;
+  private nextRequestId = 0;
+  private pendingRequests = new Map<number, { resolve: (texts: string[]) => void; reject: (error: Error) => void }>();
+  private loadListener: ((response: OfflineWorkerResponse) => void) | null = null;
+
+  /**
+   * Get the worker, starting it on first use
+   */
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./offlineTranslation.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<OfflineWorkerResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        console.error('[Offline Translation] Worker error:', event.message);
+        this.handleMessage({ type: 'error', message: event.message || 'The offline translation worker failed' });
+      };
+    }
+    return this.worker;
+  }
+
+  /**
+   * Route a worker message to its translation request, or to the running download
+   * An error without a request id fails everything that is waiting
+   */
+  private handleMessage(response: OfflineWorkerResponse): void {
+    if (response.type === 'result') {
+      this.pendingRequests.get(response.id)?.resolve(response.texts);
+      this.pendingRequests.delete(response.id);
+      return;
+    }
+
+    if (response.type === 'error') {
+      const failed = response.id !== undefined
+        ? [this.pendingRequests.get(response.id)]
+        : Array.from(this.pendingRequests.values());
+      failed.forEach(pending => pending?.reject(new Error(response.message)));
+      if (response.id !== undefined) {
+        this.pendingRequests.delete(response.id);
+        return;
+      }
+      this.pendingRequests.clear();
+    }
+
+    this.loadListener?.(response);
+  }
+
+  /**
+   * Download the model with progress tracking and load it into the worker
+   */
+  async downloadModel(onProgress?: ModelDownloadCallback): Promise<void> {
+    if (this.downloaded && this.worker) {
+      console.log('[Offline Translation] Model already loaded');
+      return;
+    }
+
+    if (this.downloading) {
+      throw new Error('The offline translation model is already being downloaded');
+    }
+
+    this.downloading = true;
+
+    try {
+      console.log('[Offline Translation] Loading model...');
+
+      await new Promise<void>((resolve, reject) => {
+        this.loadListener = (response) => {
+          if (response.type === 'progress') {
+            onProgress?.({
+              loaded: response.loaded,
+              total: response.total,
+              percentage: response.total > 0 ? (response.loaded / response.total) * 100 : 0,
+            });
+          } else if (response.type === 'loaded') {
+            resolve();
+          } else if (response.type === 'error') {
+            reject(new Error(response.message));
+          }
+        };
+        const request: OfflineWorkerRequest = { type: 'load', model: OFFLINE_TRANSLATION_MODEL };
+        this.getWorker().postMessage(request);
+      });
+
+      this.downloaded = true;
+      console.log('[Offline Translation] Model loaded successfully');
+    } catch (error) {
+      console.error('[Offline Translation] Failed to load model:', error);
+      throw error;
+    } finally {
+      this.loadListener = null;
+      this.downloading = false;
+    }
+  }
+
+  /**
+   * Check if the model is downloaded (checks both in-memory state and Cache Storage)
+   */
+  async isModelDownloadedAsync(): Promise<boolean> {
+    if (this.downloaded) {
+      return true;
+    }
+
+    try {
+      const cache = await caches.open(MODEL_CACHE_NAME);
+      const matches = await Promise.all(MODEL_FILES.map(file =>
+        cache.match(`https://huggingface.co/${OFFLINE_TRANSLATION_MODEL}/resolve/main/${file}`)
+      ));
+      this.downloaded = matches.every(Boolean);
+      return this.downloaded;
+    } catch (error) {
+      console.error('[Offline Translation] Failed to check cached model:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Check if the model is downloaded (synchronous version, checks only in-memory state)
+   */
+  isModelDownloaded(): boolean {
+    return this.downloaded;
+  }
+
+  /**
+   * Check if the model is currently downloading
+   */
+  isModelDownloading(): boolean {
+    return this.downloading;
+  }
+
+  /**
+   * Translate a batch of texts; the model is loaded from the browser cache on first use
+   * @returns Translations in the same order as the texts
+   */
+  async translate(
+    texts: string[],
+    sourceLang: LanguageCode,
+    targetLang: LanguageCode,
+    abortSignal?: AbortSignal
+  ): Promise<string[]> {
+    if (!(await this.isModelDownloadedAsync())) {
+      throw new Error('The offline translation model is not downloaded. Please download it in Settings first.');
+    }
+    if (texts.length === 0) {
+      return [];
+    }
+    if (abortSignal?.aborted) {
+      throw new AbortError('Translation was cancelled');
+    }
+
+    const id = this.nextRequestId++;
+    const request: OfflineWorkerRequest = {
+      type: 'translate',
+      id,
+      model: OFFLINE_TRANSLATION_MODEL,
+      texts,
+      srcLang: FLORES_CODES[sourceLang],
+      tgtLang: FLORES_CODES[targetLang],
+    };
+
+    console.log(`[Offline Translation] Translating ${texts.length} segment(s) from ${sourceLang} to ${targetLang}...`);
+
+    return new Promise<string[]>((resolve, reject) => {
+      // Generation cannot be interrupted; a cancelled request just ignores its result
+      const onAbort = () => {
+        this.pendingRequests.delete(id);
+        reject(new AbortError('Translation was cancelled'));
+      };
+      abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pendingRequests.set(id, {
+        resolve: (result) => {
+          abortSignal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: (error) => {
+          abortSignal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      });
+      this.getWorker().postMessage(request);
+    });
+  }
+
+  /**
+   * Initialize service by syncing with browser storage
+   */
+  async initialize(): Promise<void> {
+    const downloaded = await this.isModelDownloadedAsync();
+    console.log('[Offline Translation] Initialized, model downloaded:', downloaded);
+  }
+
+  /**
+   * Get model size information
+   */
+  getModelInfo(): { size: string; description: string } {
+    return { size: '~900 MB', description: 'NLLB-200, 200 languages, lower quality than online models' };
+  }
+}
+
+// Export singleton instance
+export const offlineTranslationService = new OfflineTranslationService();
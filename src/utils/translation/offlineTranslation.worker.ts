@@ -0,0 +1,92 @@
+/**
+ * Offline Translation Worker
+ * Runs the translation model with transformers.js off the main thread, so generation does not block the UI
+ */
+
+import { pipeline, type PretrainedModelOptions, type TranslationSingle } from '@huggingface/transformers';
+
+export type OfflineWorkerRequest =
+  | { type: 'load'; model: string }
+  | { type: 'translate'; id: number; model: string; texts: string[]; srcLang: string; tgtLang: string };
+
+export type OfflineWorkerResponse =
+  | { type: 'progress'; loaded: number; total: number }
+  | { type: 'loaded' }
+  | { type: 'result'; id: number; texts: string[] }
+  | { type: 'error'; id?: number; message: string };
+
+// The library's pipeline types are too complex for TypeScript and leave out the language options
+type Translator = (
+  texts: string[],
+  options: { src_lang: string; tgt_lang: string; max_new_tokens: number }
+) => Promise<TranslationSingle[]>;
+const createTranslator = pipeline as unknown as (task: 'translation', model: string, options: PretrainedModelOptions) => Promise<Translator>;
+
+// Longest translation generated for a single line
+const MAX_NEW_TOKENS = 400;
+
+let translatorPromise: Promise<Translator> | null = null;
+
+const post = (response: OfflineWorkerResponse) => {
+  self.postMessage(response);
+};
+
+/**
+ * Load the model once; files come from the browser cache after the first download
+ * Progress is reported as bytes over all model files, as each file reports its own progress
+ */
+const loadTranslator = (model: string): Promise<Translator> => {
+  if (!translatorPromise) {
+    const files = new Map<string, { loaded: number; total: number }>();
+
+    translatorPromise = createTranslator('translation', model, {
+      dtype: 'q8',
+      progress_callback: (info) => {
+        if (info.status !== 'progress') {
+          return;
+        }
+        files.set(info.file, { loaded: info.loaded, total: info.total });
+        let loaded = 0;
+        let total = 0;
+        files.forEach(file => {
+          loaded += file.loaded;
+          total += file.total;
+        });
+        post({ type: 'progress', loaded, total });
+      },
+    });
+
+    // Allow a later attempt after a failed download
+    translatorPromise.catch(() => {
+      translatorPromise = null;
+    });
+  }
+  return translatorPromise;
+};
+
+self.onmessage = async (event: MessageEvent<OfflineWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    const translator = await loadTranslator(request.model);
+
+    if (request.type === 'load') {
+      post({ type: 'loaded' });
+      return;
+    }
+
+    const output = await translator(request.texts, {
+      src_lang: request.srcLang,
+      tgt_lang: request.tgtLang,
+      max_new_tokens: MAX_NEW_TOKENS,
+    });
+    const texts = output.map(item => item.translation_text);
+    post({ type: 'result', id: request.id, texts });
+  } catch (error) {
+    post({
+      type: 'error',
+      id: request.type === 'translate' ? request.id : undefined,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,95 @@
+/**
+ * Translation Tone
+ * Register options (casual, polite, keigo, formal "you", business email) and their prompt instructions
+ */
+
+import type { AISettings, TranslationTone } from '../config/settings';
+import type { LanguageCode } from './translation';
+
+// Languages with honorific speech levels
+const HONORIFIC_LANGUAGES: readonly LanguageCode[] = ['ja', 'ko'];
+
+// Languages with a formal and an informal "you" (T-V distinction)
+const TV_LANGUAGES: readonly LanguageCode[] = ['fr', 'es', 'pt', 'it', 'de', 'nl', 'ru', 'uk', 'pl', 'cs', 'tr'];
+
+const TONE_LABELS: Record<TranslationTone, string> = {
+  auto: 'Match Original',
+  casual: 'Casual',
+  polite: 'Polite',
+  honorific: 'Honorific',
+  formal: 'Formal "you"',
+  informal: 'Informal "you"',
+  business: 'Business Email',
+};
+
+/**
+ * Get the tones that make sense for a target language, in display order
+ */
+export function getAvailableTones(targetLang: LanguageCode): TranslationTone[] {
+  if (HONORIFIC_LANGUAGES.includes(targetLang)) {
+    return ['auto', 'casual', 'polite', 'honorific', 'business'];
+  }
+  if (TV_LANGUAGES.includes(targetLang)) {
+    return ['auto', 'informal', 'formal', 'business'];
+  }
+  return ['auto', 'casual', 'polite', 'business'];
+}
+
+/**
+ * Get the display label for a tone
+ */
+export function getToneLabel(tone: TranslationTone, targetLang: LanguageCode): string {
+  if (tone === 'honorific' && targetLang === 'ja') {
+    return 'Keigo';
+  }
+  return TONE_LABELS[tone];
+}
+
+/**
+ * Get the tone remembered for a target language
+ * Falls back to 'auto' when none is set or the saved tone does not apply to the language
+ */
+export function getTranslationTone(settings: AISettings, targetLang: LanguageCode): TranslationTone {
+  const saved = settings.translation?.tones?.find(item => item.targetLang === targetLang)?.tone;
+  return saved && getAvailableTones(targetLang).includes(saved) ? saved : 'auto';
+}
+
+/**
+ * Remember the tone for a target language
+ * @returns Updated settings; 'auto' removes the saved tone
+ */
+export function setTranslationTone(settings: AISettings, targetLang: LanguageCode, tone: TranslationTone): AISettings {
+  const tones = (settings.translation.tones || []).filter(item => item.targetLang !== targetLang);
+  if (tone !== 'auto') {
+    tones.push({ targetLang, tone });
+  }
+  return { ...settings, translation: { ...settings.translation, tones } };
+}
+
+/**
+ * Build the tone instruction for translation prompts
+ */
+export function getToneInstruction(tone: TranslationTone, targetLang: LanguageCode): string {
+  switch (tone) {
+    case 'casual':
+      return 'Use a casual, friendly register, as between friends, regardless of the tone of the original text';
+    case 'polite':
+      return targetLang === 'ja'
+        ? 'Use the polite form (teineigo, です/ます), regardless of the tone of the original text'
+        : targetLang === 'ko'
+        ? 'Use the polite speech level (해요체), regardless of the tone of the original text'
+        : 'Use a polite, courteous register suitable for talking to strangers, regardless of the tone of the original text';
+    case 'honorific':
+      return targetLang === 'ja'
+        ? 'Use keigo (sonkeigo and kenjougo where appropriate), as when addressing customers or superiors, regardless of the tone of the original text'
+        : 'Use the formal honorific speech level (합쇼체) with honorific expressions, regardless of the tone of the original text';
+    case 'formal':
+      return 'Address the reader with the formal "you" (e.g. vous, Sie, usted, Вы) and keep a formal register';
+    case 'informal':
+      return 'Address the reader with the informal "you" (e.g. tu, du, tú, ты) and keep a familiar register';
+    case 'business':
+      return 'Write in the register of a professional business email: courteous, clear and formal';
+    default:
+      return 'Preserve the tone and style of the original text';
+  }
+}
@@ -1,7 +1,35 @@
-import { generateObject, generateText } from 'ai';
-import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { generateObject, generateText, streamText } from 'ai';
 import { z } from 'zod';
-import { AISettings } from '../config/settings';
+import { AISettings, DEFAULT_CANDIDATE_COUNT, type OfflineTranslationMode, type TranslationTone } from '../config/settings';
+import {
+  resolveFeatureProfile,
+  resolveGeneralAI,
+  resolveProfile,
+  getProfile,
+  getActiveProfile,
+  isProviderConfigured,
+  type ProviderConfig,
+} from '../config/profiles';
+import { createAIClient } from '../ai/provider';
+import { AbortError, NetworkError, ProviderError, RateLimitError, normalizeProviderError, isRetryableError } from '../ai/errors';
+import {
+  findGlossaryMatches,
+  findGlossaryMisses,
+  formatGlossaryForPrompt,
+  type GlossaryEntry,
+} from '../glossary/glossary';
+import { getTranslationTone, getToneInstruction } from './tone';
+import {
+  maskMarkup,
+  hasTranslatableText,
+  findLostTokens,
+  unmaskMarkup,
+  getMaskInstruction,
+  splitMaskedText,
+  type MaskedText,
+} from './markup';
+import { offlineTranslationService, OFFLINE_TRANSLATION_MODEL } from './offlineTranslation';
+import { recordUsage } from '../usage/usage';
 
 // All supported languages with their codes and English names
 export const SUPPORTED_LANGUAGES = {
@@ -54,25 +82,99 @@ const translationSchema = z.object({
   confidence: z.number().min(0).max(1).optional().describe('Translation confidence score between 0 and 1')
 });
 
-// Initialize AI client based on provider
-const getAIClient = (settings: AISettings) => {
-  // Priority: 1. Translation service settings (if fully configured), 2. General AI service
+// Alternative translations, each checked by translating it back into the source language
+const candidatesSchema = z.object({
+  candidates: z.array(translationSchema.extend({
+    backTranslation: z.string().describe('The translation translated back into the source language'),
+    note: z.string().describe('A short note on the nuance of this translation, in the source language'),
+  })).min(1).describe('Alternative translations, most recommended first'),
+});
+
+/**
+ * An alternative translation with its back-translation
+ */
+export interface TranslationCandidate {
+  text: string;
+  backTranslation: string;
+  note: string;
+}
+
+// A provider in the translation chain
+interface TranslationProvider extends ProviderConfig {
+  name: string; // Shown in the UI when this provider answers
+  useTranslationService: boolean;
+}
+
+/**
+ * Translation result along with the provider that produced it
+ */
+export interface TranslationOutcome {
+  text: string;
+  providerName: string;
+  modelName: string;
+  isFallback: boolean;
+  isOffline?: boolean; // Translated by the in-browser model; such results are not cached
+  glossaryMisses: GlossaryEntry[]; // Glossary terms whose required translation is missing from the result
+}
+
+/**
+ * Resolve the provider used for translation
+ * Priority: 1. Profile pinned to translation, 2. Translation service (if fully configured), 3. General AI service
+ */
+const resolveTranslationProvider = (settings: AISettings): TranslationProvider => {
+  const pinnedProfile = getProfile(settings, settings.featureProfiles?.translation);
+  const pinned = resolveFeatureProfile(settings, 'translation');
+  if (pinnedProfile && pinned) {
+    return { ...pinned, name: pinnedProfile.name, useTranslationService: false };
+  }
+
   // Check if Translation service is fully configured (all three fields must be present)
-  const useTranslationService = !!(settings.apiKey && settings.endpoint && settings.modelName);
+  if (settings.apiKey && settings.endpoint && settings.modelName) {
+    return {
+      name: 'Translation Service',
+      apiKey: settings.apiKey,
+      endpoint: settings.endpoint,
+      modelName: settings.modelName,
+      useTranslationService: true,
+    };
+  }
+
+  const activeProfile = getActiveProfile(settings);
+  return {
+    ...resolveGeneralAI(settings),
+    name: activeProfile ? activeProfile.name : 'General AI',
+    useTranslationService: false,
+  };
+};
+
+/**
+ * Build the ordered provider chain: the primary provider followed by the configured fallbacks
+ * Fallbacks pointing at missing or incomplete profiles, or duplicating an earlier entry, are skipped
+ */
+const getTranslationProviderChain = (settings: AISettings): TranslationProvider[] => {
+  const chain = [resolveTranslationProvider(settings)];
 
-  const apiKey = useTranslationService ? settings.apiKey : settings.generalAI.apiKey;
-  const endpoint = useTranslationService ? settings.endpoint : settings.generalAI.endpoint;
+  for (const fallback of settings.translation?.fallbacks || []) {
+    const profile = getProfile(settings, fallback.profileId);
+    if (!profile) {
+      continue;
+    }
 
-  if (!apiKey) {
-    throw new Error('API key is not configured');
+    const candidate: TranslationProvider = {
+      ...resolveProfile(profile),
+      modelName: fallback.modelName || profile.modelName,
+      name: profile.name,
+      useTranslationService: false,
+    };
+    const isDuplicate = chain.some(provider =>
+      provider.endpoint === candidate.endpoint && provider.modelName === candidate.modelName
+    );
+    if (isProviderConfigured(candidate) && !isDuplicate) {
+      chain.push(candidate);
+    }
   }
 
-  // Always use OpenAI-compatible SDK
-  return createOpenAICompatible({
-    name: 'ai-provider',
-    apiKey,
-    baseURL: endpoint,
-  });
+  return chain;
 };
 
 /**
@@ -83,6 +185,22 @@ const isHunyuanMT = (modelName: string): boolean => {
   return normalized === 'hunyuan-mt-7b' || normalized === 'tencent/hunyuan-mt-7b';
 };
 
+/**
+ * Get the model used for text translation and how its output is produced
+ * Mirrors the branch selection in translateText, so cached results are never shared across models or output modes
+ */
+export const getTranslationModel = (settings: AISettings): { modelName: string; outputMode: 'hunyuan' | 'plain' | 'structured' | 'object' } => {
+  const { modelName, useTranslationService } = resolveTranslationProvider(settings);
+
+  if (isHunyuanMT(modelName)) {
+    return { modelName, outputMode: 'hunyuan' };
+  }
+  if (useTranslationService) {
+    return { modelName, outputMode: 'object' };
+  }
+  return { modelName, outputMode: settings.translation?.outputMode || 'structured' };
+};
+
 /**
  * Check if text contains any brackets (English, Chinese, or other forms)
  */
@@ -117,243 +235,853 @@ const filterTrailingBrackets = (text: string, sourceText: string): string => {
   return text.replace(trailingBracketRegex, '').trim();
 };
 
+// Retries per provider for rate-limit, network and server errors
+const MAX_RETRIES = 2;
+// Delay before the first retry, doubled for each further attempt
+const RETRY_BASE_DELAY = 800;
+// Longest Retry-After worth waiting for; beyond it the next provider is tried
+const MAX_RETRY_DELAY = 10000;
+
+// Attempts with masked markup before falling back to translating the original text
+const MAX_MASK_ATTEMPTS = 2;
+
 /**
- * Translate text using AI with structured JSON output
- * @param text - The text to translate
- * @param sourceLang - Source language code
- * @param targetLang - Target language code
- * @param settings - AI settings containing API key, endpoint, and model
- * @param abortSignal - Optional AbortSignal to cancel the request
- * @returns Translated text
+ * Check if an error comes from a cancelled request
  */
-export async function translateText(
+const isAbortError = (error: unknown): boolean => {
+  return error instanceof Error && error.name === 'AbortError';
+};
+
+/**
+ * Decide how to handle a failed translation request
+ * - retry: transient (rate limit, network, 5xx, timeout), retry the same provider after a delay
+ * - next: the provider cannot answer for a while (quota exhausted, long Retry-After), go straight to the next one
+ * - fatal: configuration or request problem, report it
+ */
+const classifyFailure = (error: ProviderError): 'retry' | 'next' | 'fatal' => {
+  if (error instanceof RateLimitError && (error.isQuotaExceeded || (error.retryAfter ?? 0) * 1000 > MAX_RETRY_DELAY)) {
+    return 'next';
+  }
+  return isRetryableError(error) ? 'retry' : 'fatal';
+};
+
+/**
+ * Wait for the given time, rejecting early if the request is cancelled
+ */
+const sleep = (ms: number, abortSignal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      abortSignal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError('Translation was cancelled'));
+    };
+    abortSignal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * Build the Hunyuan-MT prompt
+ * Glossary entries use the model's terminology intervention template
+ */
+const getHunyuanPrompt = (
   text: string,
   sourceLang: LanguageCode,
   targetLang: LanguageCode,
+  glossary: GlossaryEntry[] = []
+): string => {
+  const targetLangName = SUPPORTED_LANGUAGES[targetLang];
+
+  // Determine if either source or target is Chinese
+  const isChineseInvolved = sourceLang === 'zh' || sourceLang === 'zh-Hant' ||
+                            targetLang === 'zh' || targetLang === 'zh-Hant';
+
+  if (isChineseInvolved) {
+    // Chinese prompt for ZH<=>XX translation
+    const terms = glossary.length > 0
+      ? `参考下面的翻译：\n${glossary.map(entry => `${entry.sourceTerm} 翻译成 ${entry.targetTerm}`).join('\n')}\n\n`
+      : '';
+    return `${terms}把下面的文本翻译成${targetLangName}，不要输出任何的额外解释。\n\n${text}`;
+  }
+  // English prompt for XX<=>XX translation
+  const terms = glossary.length > 0
+    ? `Refer to the following translations:\n${glossary.map(entry => `${entry.sourceTerm} translates to ${entry.targetTerm}`).join('\n')}\n\n`
+    : '';
+  return `${terms}Translate the following segment into ${targetLangName}, without additional explanation.\n\n${text}`;
+};
+
+/**
+ * Build the glossary section appended to the general AI prompts
+ */
+const getGlossarySection = (glossary: GlossaryEntry[]): string => {
+  return glossary.length > 0 ? `\n\n${formatGlossaryForPrompt(glossary)}` : '';
+};
+
+/**
+ * Build the prompt for plain text output mode
+ */
+const getPlainPrompt = (
+  text: string,
+  sourceLang: LanguageCode,
+  targetLang: LanguageCode,
+  tone: TranslationTone,
+  glossary: GlossaryEntry[] = []
+): string => {
+  const sourceLangName = SUPPORTED_LANGUAGES[sourceLang];
+  const targetLangName = SUPPORTED_LANGUAGES[targetLang];
+
+  return `You are a professional translator. Translate the following text from ${sourceLangName} (${sourceLang}) to ${targetLangName} (${targetLang}).
+
+Text to translate: "${text}"
+
+Instructions:
+1. Provide an accurate and natural translation
+2. ${getToneInstruction(tone, targetLang)}
+3. If the text contains idioms or cultural references, adapt them appropriately for the target language
+4. Maintain any formatting or special characters
+5. Return ONLY the translated text, without any additional explanation or formatting${getGlossarySection(glossary)}${getMaskInstruction(text)}`;
+};
+
+/**
+ * Translate text with a single provider
+ * Errors are thrown as-is so the caller can decide whether to retry or fail over
+ */
+async function translateWithProvider(
+  text: string,
+  sourceLang: LanguageCode,
+  targetLang: LanguageCode,
+  provider: TranslationProvider,
   settings: AISettings,
+  glossary: GlossaryEntry[],
   abortSignal?: AbortSignal
 ): Promise<string> {
-  // If source and target are the same, return original text
-  if (sourceLang === targetLang) {
-    return text;
-  }
+  const client = createAIClient(provider);
+  const { modelName, useTranslationService } = provider;
+  const sourceLangName = SUPPORTED_LANGUAGES[sourceLang];
+  const targetLangName = SUPPORTED_LANGUAGES[targetLang];
+  const tone = getTranslationTone(settings, targetLang);
 
-  // Validate text input
-  if (!text || text.trim().length === 0) {
-    return '';
+  // Use chat completion for Hunyuan-MT model
+  if (isHunyuanMT(modelName)) {
+    const result = await generateText({
+      model: client(modelName),
+      prompt: getHunyuanPrompt(text, sourceLang, targetLang, glossary),
+      abortSignal,
+      maxRetries: 0, // Retries are handled by the failover chain
+    });
+    recordUsage('translation', provider, result.usage);
+
+    // Filter trailing brackets from the translation result
+    const filteredText = filterTrailingBrackets(result.text, text);
+
+    return filteredText;
   }
 
-  try {
-    const client = getAIClient(settings);
-    // Priority: 1. Translation service (if fully configured), 2. General AI service
-    const useTranslationService = !!(settings.apiKey && settings.endpoint && settings.modelName);
-    const modelName = useTranslationService ? settings.modelName : settings.generalAI.modelName;
-    const sourceLangName = SUPPORTED_LANGUAGES[sourceLang];
-    const targetLangName = SUPPORTED_LANGUAGES[targetLang];
-
-    // Use chat completion for Hunyuan-MT model
-    if (isHunyuanMT(modelName)) {
-      // Determine if either source or target is Chinese
-      const isChineseInvolved = sourceLang === 'zh' || sourceLang === 'zh-Hant' ||
-                                targetLang === 'zh' || targetLang === 'zh-Hant';
-
-      let prompt: string;
-      if (isChineseInvolved) {
-        // Chinese prompt for ZH<=>XX translation
-        prompt = `把下面的文本翻译成${targetLangName}，不要输出任何的额外解释。\n\n${text}`;
-      } else {
-        // English prompt for XX<=>XX translation
-        prompt = `Translate the following segment into ${targetLangName}, without additional explanation.\n\n${text}`;
-      }
+  // For general AI models, check output mode preference
+  if (!useTranslationService) {
+    const outputMode = settings.translation?.outputMode || 'structured';
 
+    if (outputMode === 'plain') {
+      // Plain text output mode - simpler prompt, no JSON parsing
       const result = await generateText({
         model: client(modelName),
-        prompt: prompt,
+        prompt: getPlainPrompt(text, sourceLang, targetLang, tone, glossary),
         abortSignal,
+        maxRetries: 0,
       });
+      recordUsage('translation', provider, result.usage);
 
-      // Filter trailing brackets from the translation result
-      const filteredText = filterTrailingBrackets(result.text, text);
-
-      return filteredText;
+      // Strip any thinking tags that some models might add
+      let cleanText = result.text.trim();
+      cleanText = cleanText.replace(/<think>[\s\S]*?<\/think>/gi, '');
+      cleanText = cleanText.replace(/<thinking>[\s\S]*?<\/thinking>/gi, '');
+      cleanText = cleanText.replace(/<reasoning>[\s\S]*?<\/reasoning>/gi, '');
+      cleanText = cleanText.replace(/<thought>[\s\S]*?<\/thought>/gi, '');
+      return cleanText.trim();
     }
 
-    // For general AI models, check output mode preference
-    if (!useTranslationService) {
-      const outputMode = settings.translation?.outputMode || 'structured';
-
-      if (outputMode === 'plain') {
-        // Plain text output mode - simpler prompt, no JSON parsing
-        const result = await generateText({
-          model: client(modelName),
-          prompt: `You are a professional translator. Translate the following text from ${sourceLangName} (${sourceLang}) to ${targetLangName} (${targetLang}).
+    // Structured output mode - JSON response with parsing
+    const result = await generateText({
+      model: client(modelName),
+      prompt: `You are a professional translator. Translate the following text from ${sourceLangName} (${sourceLang}) to ${targetLangName} (${targetLang}).
 
 Text to translate: "${text}"
 
 Instructions:
 1. Provide an accurate and natural translation
-2. Preserve the tone and style of the original text
+2. ${getToneInstruction(tone, targetLang)}
 3. If the text contains idioms or cultural references, adapt them appropriately for the target language
 4. Maintain any formatting or special characters
-5. Return ONLY the translated text, without any additional explanation or formatting`,
-          abortSignal,
-        });
-
-        // Strip any thinking tags that some models might add
-        let cleanText = result.text.trim();
-        cleanText = cleanText.replace(/<think>[\s\S]*?<\/think>/gi, '');
-        cleanText = cleanText.replace(/<thinking>[\s\S]*?<\/thinking>/gi, '');
-        cleanText = cleanText.replace(/<reasoning>[\s\S]*?<\/reasoning>/gi, '');
-        cleanText = cleanText.replace(/<thought>[\s\S]*?<\/thought>/gi, '');
-        return cleanText.trim();
+5. Return ONLY a JSON object with the translation${getGlossarySection(glossary)}${getMaskInstruction(text)}
+
+Respond with ONLY a JSON object in this format:
+{"translation": "your translated text here"}
+
+Do not include any other text, explanation, or markdown formatting.`,
+      abortSignal,
+      maxRetries: 0,
+    });
+    recordUsage('translation', provider, result.usage);
+
+    // Try to parse JSON response, handling different structures
+    try {
+      // Remove thinking tags and other XML-like tags that some models add
+      let jsonText = result.text.trim();
+
+      // Remove thinking tags: <think>...</think>, <thinking>...</thinking>, etc.
+      jsonText = jsonText.replace(/<think>[\s\S]*?<\/think>/gi, '');
+      jsonText = jsonText.replace(/<thinking>[\s\S]*?<\/thinking>/gi, '');
+      jsonText = jsonText.replace(/<reasoning>[\s\S]*?<\/reasoning>/gi, '');
+      jsonText = jsonText.replace(/<thought>[\s\S]*?<\/thought>/gi, '');
+
+      // Remove markdown code blocks if present
+      if (jsonText.startsWith('```json')) {
+        jsonText = jsonText.replace(/```json\s*/g, '').replace(/```\s*$/g, '');
+      } else if (jsonText.startsWith('```')) {
+        jsonText = jsonText.replace(/```\s*/g, '').replace(/```\s*$/g, '');
       }
 
-      // Structured output mode - JSON response with parsing
-      const result = await generateText({
-        model: client(modelName),
-        prompt: `You are a professional translator. Translate the following text from ${sourceLangName} (${sourceLang}) to ${targetLangName} (${targetLang}).
+      // Trim again after removing tags
+      jsonText = jsonText.trim();
+
+      const parsed = JSON.parse(jsonText);
+
+      // Check for various possible field names
+      const translatedText = parsed.translation || parsed.translate || parsed.translatedText || parsed.text || '';
+
+      if (translatedText && typeof translatedText === 'string') {
+        return translatedText;
+      }
+
+      // If no recognized field found, throw error
+      throw new Error('Translation response does not contain a valid translation field');
+    } catch (parseError) {
+      console.warn('Failed to parse JSON response, using raw text:', result.text);
+      // Fallback: return the raw text if JSON parsing fails, but strip thinking tags
+      let cleanText = result.text;
+      cleanText = cleanText.replace(/<think>[\s\S]*?<\/think>/gi, '');
+      cleanText = cleanText.replace(/<thinking>[\s\S]*?<\/thinking>/gi, '');
+      cleanText = cleanText.replace(/<reasoning>[\s\S]*?<\/reasoning>/gi, '');
+      cleanText = cleanText.replace(/<thought>[\s\S]*?<\/thought>/gi, '');
+      return cleanText.trim();
+    }
+  }
+
+  // Use structured output for translation service (more strict validation)
+  const result = await generateObject({
+    model: client(modelName),
+    schema: translationSchema,
+    prompt: `You are a professional translator. Translate the following text from ${sourceLangName} (${sourceLang}) to ${targetLangName} (${targetLang}).
 
 Text to translate: "${text}"
 
 Instructions:
 1. Provide an accurate and natural translation
-2. Preserve the tone and style of the original text
+2. ${getToneInstruction(tone, targetLang)}
 3. If the text contains idioms or cultural references, adapt them appropriately for the target language
 4. Maintain any formatting or special characters
-5. Return ONLY a JSON object with the translation
+5. Return only the translation in the JSON format specified${getGlossarySection(glossary)}${getMaskInstruction(text)}
 
-Respond with ONLY a JSON object in this format:
-{"translation": "your translated text here"}
+Respond with the translation in JSON format.`,
+    abortSignal,
+    maxRetries: 0,
+  });
+  recordUsage('translation', provider, result.usage);
 
-Do not include any other text, explanation, or markdown formatting.`,
-        abortSignal,
-      });
+  return result.object.translatedText;
+}
 
-      // Try to parse JSON response, handling different structures
-      try {
-        // Remove thinking tags and other XML-like tags that some models add
-        let jsonText = result.text.trim();
-
-        // Remove thinking tags: <think>...</think>, <thinking>...</thinking>, etc.
-        jsonText = jsonText.replace(/<think>[\s\S]*?<\/think>/gi, '');
-        jsonText = jsonText.replace(/<thinking>[\s\S]*?<\/thinking>/gi, '');
-        jsonText = jsonText.replace(/<reasoning>[\s\S]*?<\/reasoning>/gi, '');
-        jsonText = jsonText.replace(/<thought>[\s\S]*?<\/thought>/gi, '');
-
-        // Remove markdown code blocks if present
-        if (jsonText.startsWith('```json')) {
-          jsonText = jsonText.replace(/```json\s*/g, '').replace(/```\s*$/g, '');
-        } else if (jsonText.startsWith('```')) {
-          jsonText = jsonText.replace(/```\s*/g, '').replace(/```\s*$/g, '');
-        }
+/**
+ * Run a request against the provider chain, retrying with exponential backoff and falling back
+ * to the next provider on rate-limit, network and server errors
+ * @returns The request's result and the provider that answered
+ */
+async function runWithFailover<T>(
+  chain: TranslationProvider[],
+  request: (provider: TranslationProvider) => Promise<T>,
+  abortSignal?: AbortSignal
+): Promise<{ result: T; provider: TranslationProvider; isFallback: boolean }> {
+  let lastError: ProviderError | null = null;
 
-        // Trim again after removing tags
-        jsonText = jsonText.trim();
+  for (let index = 0; index < chain.length; index++) {
+    const provider = chain[index];
 
-        const parsed = JSON.parse(jsonText);
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      try {
+        const result = await request(provider);
+        if (index > 0) {
+          console.log(`[Translation] Answered by fallback provider "${provider.name}" (${provider.modelName})`);
+        }
+        return { result, provider, isFallback: index > 0 };
+      } catch (rawError) {
+        if (abortSignal?.aborted || isAbortError(rawError)) {
+          throw new AbortError('Translation was cancelled', { cause: rawError });
+        }
 
-        // Check for various possible field names
-        const translatedText = parsed.translation || parsed.translate || parsed.translatedText || parsed.text || '';
+        const error = normalizeProviderError(rawError);
+        console.error('Translation error:', error);
+        lastError = error;
 
-        if (translatedText && typeof translatedText === 'string') {
-          return translatedText;
+        const failure = classifyFailure(error);
+        if (failure === 'fatal') {
+          throw error;
+        }
+        if (failure === 'next' || attempt === MAX_RETRIES) {
+          break;
         }
 
-        // If no recognized field found, throw error
-        throw new Error('Translation response does not contain a valid translation field');
-      } catch (parseError) {
-        console.warn('Failed to parse JSON response, using raw text:', result.text);
-        // Fallback: return the raw text if JSON parsing fails, but strip thinking tags
-        let cleanText = result.text;
-        cleanText = cleanText.replace(/<think>[\s\S]*?<\/think>/gi, '');
-        cleanText = cleanText.replace(/<thinking>[\s\S]*?<\/thinking>/gi, '');
-        cleanText = cleanText.replace(/<reasoning>[\s\S]*?<\/reasoning>/gi, '');
-        cleanText = cleanText.replace(/<thought>[\s\S]*?<\/thought>/gi, '');
-        return cleanText.trim();
+        // Honor the provider's Retry-After when it asks for a longer wait than the backoff
+        const retryAfter = error instanceof RateLimitError ? (error.retryAfter ?? 0) * 1000 : 0;
+        const delay = Math.max(RETRY_BASE_DELAY * 2 ** attempt, retryAfter);
+        console.warn(`[Translation] ${provider.name} failed, retrying in ${delay}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+        await sleep(delay, abortSignal);
       }
     }
 
-    // Use structured output for translation service (more strict validation)
-    const result = await generateObject({
-      model: client(modelName),
-      schema: translationSchema,
-      prompt: `You are a professional translator. Translate the following text from ${sourceLangName} (${sourceLang}) to ${targetLangName} (${targetLang}).
+    if (index < chain.length - 1) {
+      console.warn(`[Translation] ${provider.name} unavailable, falling back to ${chain[index + 1].name}`);
+    }
+  }
+
+  throw lastError || new ProviderError('Translation failed. Please try again.');
+}
+
+/**
+ * Translate text with its protected spans masked, and put them back in the result
+ * If a masked span is lost twice, the original text is translated without masking instead
+ * @param translate - Translates the given (masked) text
+ * @param getTranslations - The translated texts of a result, which must keep every token
+ * @param restore - Applies the unmasking to every text of a result
+ */
+async function translateMasked<T>(
+  text: string,
+  masked: MaskedText,
+  translate: (input: string) => Promise<T>,
+  getTranslations: (result: T) => string[],
+  restore: (result: T, unmask: (translation: string) => string) => T
+): Promise<T> {
+  for (let attempt = 1; attempt <= MAX_MASK_ATTEMPTS && masked.spans.length > 0; attempt++) {
+    const result = await translate(masked.text);
+    const lost = [...new Set(getTranslations(result).flatMap(translation => findLostTokens(translation, masked)))];
+
+    if (lost.length === 0) {
+      return restore(result, translation => unmaskMarkup(translation, masked));
+    }
+
+    console.warn(`[Translation] ${lost.length} protected span(s) lost in translation (attempt ${attempt}/${MAX_MASK_ATTEMPTS}):`, lost.map(index => masked.spans[index]));
+  }
+
+  if (masked.spans.length > 0) {
+    console.warn('[Translation] Falling back to translating the original text without masking');
+  }
+
+  return translate(text);
+}
+
+// Shown as the provider of translations from the in-browser model
+export const OFFLINE_PROVIDER_NAME = 'Offline';
+
+const getOfflineMode = (settings: AISettings): OfflineTranslationMode => {
+  return settings.translation?.offlineMode ?? 'auto';
+};
+
+/**
+ * Check if the in-browser model should translate instead of the providers
+ * In auto mode it does so only while the browser is offline and the model is downloaded
+ */
+const shouldTranslateOffline = async (settings: AISettings): Promise<boolean> => {
+  const mode = getOfflineMode(settings);
+  if (mode === 'always') {
+    return true;
+  }
+  return mode === 'auto' && !navigator.onLine && await offlineTranslationService.isModelDownloadedAsync();
+};
+
+/**
+ * Translate text with the in-browser model
+ * The model cannot be asked to keep tokens in place, so each line between protected spans is
+ * translated on its own and the spans are kept as they are
+ */
+async function translateOffline(
+  text: string,
+  sourceLang: LanguageCode,
+  targetLang: LanguageCode,
+  glossary: GlossaryEntry[],
+  isFallback: boolean,
+  abortSignal?: AbortSignal
+): Promise<TranslationOutcome> {
+  const pieces = splitMaskedText(maskMarkup(text)).flatMap(part => part.isProtected
+    ? [{ text: part.text, translate: false }]
+    : part.text.split(/(\s*\n\s*)/).map(piece => ({ text: piece, translate: /\p{L}/u.test(piece) }))
+  );
+
+  const translations = await offlineTranslationService.translate(
+    pieces.filter(piece => piece.translate).map(piece => piece.text.trim()),
+    sourceLang,
+    targetLang,
+    abortSignal
+  );
+
+  // Put the translations back in order, keeping the whitespace around each piece
+  let next = 0;
+  const result = pieces.map(piece => {
+    if (!piece.translate) {
+      return piece.text;
+    }
+    const leading = piece.text.match(/^\s*/)?.[0] ?? '';
+    const trailing = piece.text.match(/\s*$/)?.[0] ?? '';
+    return `${leading}${translations[next++]}${trailing}`;
+  }).join('');
+
+  return {
+    text: result,
+    providerName: OFFLINE_PROVIDER_NAME,
+    modelName: OFFLINE_TRANSLATION_MODEL,
+    isFallback,
+    isOffline: true,
+    glossaryMisses: findGlossaryMisses(result, glossary),
+  };
+}
+
+/**
+ * Translate text, retrying with exponential backoff and falling back to the next provider
+ * on rate-limit, network and server errors
+ * Code, URLs, tags, emoji shortcodes and placeholders are masked during translation; if a masked span
+ * is lost twice, the original text is translated without masking instead
+ * The in-browser model translates instead when the offline mode asks for it, or in auto mode while
+ * the browser is offline or no provider can be reached
+ * @param text - The text to translate
+ * @param sourceLang - Source language code
+ * @param targetLang - Target language code
+ * @param settings - AI settings containing API key, endpoint, and model
+ * @param abortSignal - Optional AbortSignal to cancel the request
+ * @returns Translated text and the provider that answered
+ */
+export async function translateTextWithFailover(
+  text: string,
+  sourceLang: LanguageCode,
+  targetLang: LanguageCode,
+  settings: AISettings,
+  abortSignal?: AbortSignal
+): Promise<TranslationOutcome> {
+  const chain = getTranslationProviderChain(settings);
+  const primary = chain[0];
+
+  // If source and target are the same, return original text
+  if (sourceLang === targetLang) {
+    return { text, providerName: primary.name, modelName: primary.modelName, isFallback: false, glossaryMisses: [] };
+  }
+
+  // Validate text input
+  if (!text || text.trim().length === 0) {
+    return { text: '', providerName: primary.name, modelName: primary.modelName, isFallback: false, glossaryMisses: [] };
+  }
+
+  const masked = maskMarkup(text);
+
+  // Nothing but code, URLs or placeholders: keep the text as-is
+  if (masked.spans.length > 0 && !hasTranslatableText(masked)) {
+    return { text, providerName: primary.name, modelName: primary.modelName, isFallback: false, glossaryMisses: [] };
+  }
+
+  const glossary = await findGlossaryMatches(text, sourceLang, targetLang);
+
+  if (await shouldTranslateOffline(settings)) {
+    return translateOffline(text, sourceLang, targetLang, glossary, getOfflineMode(settings) === 'auto', abortSignal);
+  }
+
+  const translate = (input: string) => runWithFailover(
+    chain,
+    (provider) => translateWithProvider(input, sourceLang, targetLang, provider, settings, glossary, abortSignal),
+    abortSignal
+  );
+
+  const translateOnline = async (): Promise<TranslationOutcome> => {
+    const { result, provider, isFallback } = await translateMasked(
+      text,
+      masked,
+      translate,
+      ({ result }) => [result],
+      (outcome, unmask) => ({ ...outcome, result: unmask(outcome.result) })
+    );
+
+    return {
+      text: result,
+      providerName: provider.name,
+      modelName: provider.modelName,
+      isFallback,
+      glossaryMisses: findGlossaryMisses(result, glossary),
+    };
+  };
+
+  try {
+    return await translateOnline();
+  } catch (error) {
+    // No provider could be reached, so translate on this device instead
+    if (error instanceof NetworkError && getOfflineMode(settings) === 'auto' && await offlineTranslationService.isModelDownloadedAsync()) {
+      console.warn('[Translation] No provider reachable, falling back to the offline model');
+      return translateOffline(text, sourceLang, targetLang, glossary, true, abortSignal);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Translate text using AI with structured JSON output
+ * @param text - The text to translate
+ * @param sourceLang - Source language code
+ * @param targetLang - Target language code
+ * @param settings - AI settings containing API key, endpoint, and model
+ * @param abortSignal - Optional AbortSignal to cancel the request
+ * @returns Translated text
+ */
+export async function translateText(
+  text: string,
+  sourceLang: LanguageCode,
+  targetLang: LanguageCode,
+  settings: AISettings,
+  abortSignal?: AbortSignal
+): Promise<string> {
+  const outcome = await translateTextWithFailover(text, sourceLang, targetLang, settings, abortSignal);
+  return outcome.text;
+}
+
+/**
+ * Check if alternative translations can be requested with the current settings
+ * Hunyuan-MT only produces a single plain translation
+ */
+export const canTranslateCandidates = (settings: AISettings): boolean => {
+  return getTranslationModel(settings).outputMode !== 'hunyuan';
+};
+
+/**
+ * Build the prompt asking for alternative translations with back-translations
+ */
+const getCandidatesPrompt = (
+  text: string,
+  sourceLang: LanguageCode,
+  targetLang: LanguageCode,
+  count: number,
+  tone: TranslationTone,
+  glossary: GlossaryEntry[]
+): string => {
+  const sourceLangName = SUPPORTED_LANGUAGES[sourceLang];
+  const targetLangName = SUPPORTED_LANGUAGES[targetLang];
+
+  return `You are a professional translator. Give ${count} alternative translations of the following text from ${sourceLangName} (${sourceLang}) to ${targetLangName} (${targetLang}), and translate each one back into ${sourceLangName} so the reader can check that the meaning survived.
 
 Text to translate: "${text}"
 
 Instructions:
-1. Provide an accurate and natural translation
-2. Preserve the tone and style of the original text
-3. If the text contains idioms or cultural references, adapt them appropriately for the target language
-4. Maintain any formatting or special characters
-5. Return only the translation in the JSON format specified
+1. Each alternative must be accurate and natural, and differ from the others in wording or nuance
+2. ${getToneInstruction(tone, targetLang)}
+3. For each alternative, give a literal back-translation into ${sourceLangName} that does not smooth over mistakes
+4. For each alternative, add one short note in ${sourceLangName} on its nuance (e.g. more formal, more direct, regional)
+5. Order the alternatives from most to least recommended${getGlossarySection(glossary)}${getMaskInstruction(text)}`;
+};
 
-Respond with the translation in JSON format.`,
+/**
+ * Request alternative translations from a single provider
+ * Errors are thrown as-is so the caller can decide whether to retry or fail over
+ */
+async function translateCandidatesWithProvider(
+  text: string,
+  sourceLang: LanguageCode,
+  targetLang: LanguageCode,
+  count: number,
+  provider: TranslationProvider,
+  settings: AISettings,
+  glossary: GlossaryEntry[],
+  abortSignal?: AbortSignal
+): Promise<TranslationCandidate[]> {
+  const client = createAIClient(provider);
+  const prompt = getCandidatesPrompt(text, sourceLang, targetLang, count, getTranslationTone(settings, targetLang), glossary);
+  let parsed: z.infer<typeof candidatesSchema>;
+
+  if (provider.useTranslationService) {
+    const result = await generateObject({
+      model: client(provider.modelName),
+      schema: candidatesSchema,
+      prompt,
       abortSignal,
+      maxRetries: 0,
     });
+    recordUsage('translation', provider, result.usage);
+    parsed = result.object;
+  } else {
+    const result = await generateText({
+      model: client(provider.modelName),
+      prompt: `${prompt}
 
-    return result.object.translatedText;
-  } catch (error) {
-    console.error('Translation error:', error);
+Respond with ONLY a JSON object in this format:
+{"candidates": [{"translatedText": "translation", "backTranslation": "back-translation", "note": "nuance note"}]}
+
+Do not include any other text, explanation, or markdown formatting.`,
+      abortSignal,
+      maxRetries: 0,
+    });
+    recordUsage('translation', provider, result.usage);
+
+    // Remove thinking tags and markdown code blocks around the JSON
+    let jsonText = result.text;
+    jsonText = jsonText.replace(/<think>[\s\S]*?<\/think>/gi, '');
+    jsonText = jsonText.replace(/<thinking>[\s\S]*?<\/thinking>/gi, '');
+    jsonText = jsonText.replace(/<reasoning>[\s\S]*?<\/reasoning>/gi, '');
+    jsonText = jsonText.replace(/<thought>[\s\S]*?<\/thought>/gi, '');
+    jsonText = jsonText.trim().replace(/^```(?:json)?\s*/, '').replace(/```\s*$/, '').trim();
+
+    parsed = candidatesSchema.parse(JSON.parse(jsonText));
+  }
+
+  return parsed.candidates
+    .map(candidate => ({
+      text: candidate.translatedText.trim(),
+      backTranslation: candidate.backTranslation.trim(),
+      note: candidate.note.trim(),
+    }))
+    .filter(candidate => candidate.text)
+    .slice(0, count);
+}
+
+/**
+ * Translate text into several alternative translations, each with a back-translation into the
+ * source language and a note on its nuance, for checking important sentences before showing them
+ * Protected markup is masked the same way as in translateTextWithFailover
+ * @param text - The text to translate
+ * @param sourceLang - Source language code
+ * @param targetLang - Target language code
+ * @param settings - AI settings containing API key, endpoint, and model
+ * @param count - Number of alternatives to request
+ * @param abortSignal - Optional AbortSignal to cancel the request
+ * @returns Alternatives, most recommended first
+ */
+export async function translateTextCandidates(
+  text: string,
+  sourceLang: LanguageCode,
+  targetLang: LanguageCode,
+  settings: AISettings,
+  count: number = settings.translation?.candidateCount ?? DEFAULT_CANDIDATE_COUNT,
+  abortSignal?: AbortSignal
+): Promise<TranslationCandidate[]> {
+  if (sourceLang === targetLang || !text.trim()) {
+    return [];
+  }
+
+  // Hunyuan-MT cannot follow the structured instructions, so only general models are asked
+  const chain = getTranslationProviderChain(settings).filter(provider => !isHunyuanMT(provider.modelName));
+  if (chain.length === 0) {
+    throw new Error('Alternative translations are not available with Hunyuan-MT. Please choose another model in Settings.');
+  }
+
+  // Nothing but code, URLs or placeholders: there is nothing to offer alternatives for
+  const masked = maskMarkup(text);
+  if (masked.spans.length > 0 && !hasTranslatableText(masked)) {
+    return [];
+  }
+
+  const glossary = await findGlossaryMatches(text, sourceLang, targetLang);
+  const { result } = await translateMasked(
+    text,
+    masked,
+    (input) => runWithFailover(
+      chain,
+      (provider) => translateCandidatesWithProvider(input, sourceLang, targetLang, count, provider, settings, glossary, abortSignal),
+      abortSignal
+    ),
+    ({ result }) => result.map(candidate => candidate.text),
+    (outcome, unmask) => ({
+      ...outcome,
+      result: outcome.result.map(candidate => ({
+        ...candidate,
+        text: unmask(candidate.text),
+        backTranslation: unmask(candidate.backTranslation),
+        note: unmask(candidate.note),
+      })),
+    })
+  );
+  return result;
+}
 
-    // Provide user-friendly error messages
-    if (error instanceof Error) {
-      const errorMsg = error.message.toLowerCase();
+// Markers yielded while the model is inside a thinking block, matching explainWord
+export const THINKING_START_MARKER = '___THINKING_START___';
+export const THINKING_END_MARKER = '___THINKING_END___';
 
-      // API Key errors
-      if (errorMsg.includes('api key') || errorMsg.includes('unauthorized') || errorMsg.includes('401')) {
-        throw new Error('Invalid API key. Please check your API key in Settings.');
+const THINKING_TAGS = ['think', 'thinking', 'reasoning', 'thought'];
+
+/**
+ * Check if translation can be streamed with the current settings
+ * Only plain text output (including Hunyuan-MT) can be shown while it is generated; JSON output has to be parsed first
+ */
+export const canStreamTranslation = (settings: AISettings): boolean => {
+  if (settings.translation?.streaming === false) {
+    return false;
+  }
+  const { outputMode } = getTranslationModel(settings);
+  return outputMode === 'plain' || outputMode === 'hunyuan';
+};
+
+/**
+ * Remove thinking blocks from a text stream as it arrives
+ * Yields thinking markers in their place; a tag split across chunks is held back until it is complete
+ */
+async function* stripThinkingStream(textStream: AsyncIterable<string>): AsyncGenerator<string, void, unknown> {
+  let buffer = '';
+  let closingTag: string | null = null;
+
+  for await (const chunk of textStream) {
+    buffer += chunk;
+
+    while (buffer) {
+      if (closingTag) {
+        const endIndex = buffer.toLowerCase().indexOf(closingTag);
+        if (endIndex === -1) {
+          // Skip the thinking content, keeping just enough to match a split closing tag
+          buffer = buffer.slice(-(closingTag.length - 1));
+          break;
+        }
+        buffer = buffer.slice(endIndex + closingTag.length);
+        closingTag = null;
+        yield THINKING_END_MARKER;
+        continue;
       }
 
-      // Network errors
-      if (errorMsg.includes('network') || errorMsg.includes('fetch') || errorMsg.includes('econnrefused')) {
-        throw new Error('Network error. Please check your internet connection and API endpoint.');
+      const match = /<(think|thinking|reasoning|thought)>/i.exec(buffer);
+      if (match) {
+        if (match.index > 0) {
+          yield buffer.slice(0, match.index);
+        }
+        buffer = buffer.slice(match.index + match[0].length);
+        closingTag = `</${match[1].toLowerCase()}>`;
+        yield THINKING_START_MARKER;
+        continue;
       }
 
-      // Endpoint errors
-      if (errorMsg.includes('404') || errorMsg.includes('not found')) {
-        throw new Error('Invalid API endpoint. Please check your endpoint URL in Settings.');
+      // Hold back a trailing '<' that might be the start of a thinking tag
+      const tagStart = buffer.lastIndexOf('<');
+      const tail = tagStart === -1 ? '' : buffer.slice(tagStart).toLowerCase();
+      const isPartialTag = tail !== '' && THINKING_TAGS.some(tag => `<${tag}>`.startsWith(tail));
+      const complete = isPartialTag ? buffer.slice(0, tagStart) : buffer;
+      if (complete) {
+        yield complete;
       }
+      buffer = isPartialTag ? buffer.slice(tagStart) : '';
+      break;
+    }
+  }
+
+  // Flush what is left, unless the stream ended inside a thinking block
+  if (buffer && !closingTag) {
+    yield buffer;
+  }
+}
 
-      // Rate limit errors
-      if (errorMsg.includes('rate limit') || errorMsg.includes('429') || errorMsg.includes('quota')) {
-        throw new Error('API rate limit exceeded. Please try again later.');
+/**
+ * Translate text, streaming the output as it is generated
+ * Only the plain text and Hunyuan-MT modes stream (see canStreamTranslation). If the stream fails before
+ * any text arrives, the request falls back to the provider chain in translateTextWithFailover. Text with code,
+ * URLs or placeholders is not streamed, since its masked spans can only be restored once the translation is complete.
+ * @param text - The text to translate
+ * @param sourceLang - Source language code
+ * @param targetLang - Target language code
+ * @param settings - AI settings containing API key, endpoint, and model
+ * @param abortSignal - Optional AbortSignal to cancel the request
+ * @returns Yields text chunks and thinking markers; returns the cleaned final translation
+ */
+export async function* streamTranslateText(
+  text: string,
+  sourceLang: LanguageCode,
+  targetLang: LanguageCode,
+  settings: AISettings,
+  abortSignal?: AbortSignal
+): AsyncGenerator<string, TranslationOutcome, unknown> {
+  const provider = resolveTranslationProvider(settings);
+
+  // Text with protected spans goes through translateTextWithFailover, which verifies that they survive,
+  // and so does text for the offline model, which does not stream
+  if (sourceLang !== targetLang && text.trim() && maskMarkup(text).spans.length === 0 && !(await shouldTranslateOffline(settings))) {
+    const hunyuan = isHunyuanMT(provider.modelName);
+    const glossary = await findGlossaryMatches(text, sourceLang, targetLang);
+    let streamedText = '';
+
+    try {
+      const client = createAIClient(provider);
+      // streamText reports errors through onError instead of throwing from textStream
+      let streamError: unknown = null;
+      const result = streamText({
+        model: client(provider.modelName),
+        prompt: hunyuan
+          ? getHunyuanPrompt(text, sourceLang, targetLang, glossary)
+          : getPlainPrompt(text, sourceLang, targetLang, getTranslationTone(settings, targetLang), glossary),
+        abortSignal,
+        maxRetries: 0,
+        onError: ({ error }) => {
+          streamError = error;
+        },
+        onFinish: ({ totalUsage }) => {
+          recordUsage('translation', provider, totalUsage);
+        },
+      });
+
+      for await (const chunk of stripThinkingStream(result.textStream)) {
+        if (chunk !== THINKING_START_MARKER && chunk !== THINKING_END_MARKER) {
+          streamedText += chunk;
+        }
+        yield chunk;
+      }
+
+      if (streamError) {
+        throw streamError;
       }
 
-      // Model errors
-      if (errorMsg.includes('model') || errorMsg.includes('not support')) {
-        throw new Error('Model error. Please check your model name in Settings.');
+      const finalText = hunyuan ? filterTrailingBrackets(streamedText.trim(), text) : streamedText.trim();
+      return {
+        text: finalText,
+        providerName: provider.name,
+        modelName: provider.modelName,
+        isFallback: false,
+        glossaryMisses: findGlossaryMisses(finalText, glossary),
+      };
+    } catch (rawError) {
+      if (abortSignal?.aborted || isAbortError(rawError)) {
+        throw new AbortError('Translation was cancelled', { cause: rawError });
       }
 
-      // Timeout errors
-      if (errorMsg.includes('timeout') || errorMsg.includes('timed out')) {
-        throw new Error('Request timed out. Please try again.');
+      const error = normalizeProviderError(rawError);
+      // Once text has been shown, or the error is not transient, there is nothing to fall back to
+      if (streamedText || classifyFailure(error) === 'fatal') {
+        console.error('Translation error:', error);
+        throw error;
       }
 
-      // Generic error with original message
-      throw new Error(`Translation failed: ${error.message}`);
+      console.warn('[Translation] Streaming failed, falling back to the provider chain:', error);
     }
+  }
 
-    throw new Error('Translation failed. Please try again.');
+  const outcome = await translateTextWithFailover(text, sourceLang, targetLang, settings, abortSignal);
+  if (outcome.text) {
+    yield outcome.text;
   }
+  return outcome;
 }
 
 /**
  * Detect the language of the input text
  * @param text - The text to analyze
  * @param settings - AI settings containing API key, endpoint, and model
- * @returns Detected language code
+ * @param abortSignal - Optional AbortSignal to cancel the request
+ * @returns Detected language code, or null if the language could not be determined
  */
-export async function detectLanguage(text: string, settings: AISettings): Promise<LanguageCode> {
+export async function detectLanguage(text: string, settings: AISettings, abortSignal?: AbortSignal): Promise<LanguageCode | null> {
   if (!text || text.trim().length === 0) {
-    return 'en'; // Default to English
+    return null;
   }
 
   try {
-    const client = getAIClient(settings);
-    // Priority: 1. Translation service (if fully configured), 2. General AI service
-    const useTranslationService = !!(settings.apiKey && settings.endpoint && settings.modelName);
-    const modelName = useTranslationService ? settings.modelName : settings.generalAI.modelName;
+    const provider = resolveTranslationProvider(settings);
+    const client = createAIClient(provider);
+    const { modelName } = provider;
 
     const languageDetectionSchema = z.object({
       languageCode: z.string().describe('The detected language code'),
@@ -370,7 +1098,9 @@ export async function detectLanguage(text: string, settings: AISettings): Promis
 Text: "${text}"
 
 Respond with the language code and confidence score in JSON format.`,
+      abortSignal,
     });
+    recordUsage('detection', provider, result.usage);
 
     const detectedCode = result.object.languageCode as LanguageCode;
 
@@ -379,9 +1109,14 @@ Respond with the language code and confidence score in JSON format.`,
       return detectedCode;
     }
 
-    return 'en'; // Fallback to English
+    console.warn('[Detection] Unsupported language code:', detectedCode);
+    return null;
   } catch (error) {
+    if (abortSignal?.aborted || isAbortError(error)) {
+      throw error;
+    }
+    // Let the caller keep its current source language instead of guessing
     console.error('Language detection error:', error);
-    return 'en'; // Fallback to English on error
+    return null;
   }
 }
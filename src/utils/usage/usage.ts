@@ -0,0 +1,243 @@
+/**
+ * Usage Ledger
+ * Records the tokens and audio every AI call uses in IndexedDB, and estimates their cost
+ * from user-entered model prices
+ */
+
+import { STORES, withStore, promisifyRequest, iterateCursor, createId } from '../storage/db';
+import { DEFAULT_CURRENCY, type AISettings, type ModelPrice, type ProfileFeature } from '../config/settings';
+import type { ProviderConfig } from '../config/profiles';
+
+// Language detection is not a profile feature, but it uses the translation provider's quota
+export type UsageFeature = ProfileFeature | 'detection';
+
+export interface UsageRecord {
+  id: string;
+  feature: UsageFeature;
+  model: string;
+  provider: string; // Host of the provider endpoint, e.g. "api.openai.com"
+  inputTokens: number;
+  outputTokens: number;
+  audioSeconds?: number; // Speech recognition only
+  createdAt: number;
+}
+
+// Token counts as reported by the AI SDK; providers may leave them out
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  audioSeconds: number;
+  cost: number; // Estimated from the models that have a price
+  unpricedRequests: number; // Requests whose model has no price
+}
+
+export interface BudgetWarning {
+  period: 'daily' | 'monthly';
+  spent: number;
+  budget: number;
+  currency: string;
+}
+
+// Records older than this are pruned on insert; long enough to compare a month with last year's
+const MAX_USAGE_AGE_DAYS = 400;
+
+// Budget periods already warned about in this session, so each is reported once
+const warnedPeriods = new Set<string>();
+
+/**
+ * Get the host of a provider endpoint, used to tell providers apart in the ledger
+ */
+const getProviderLabel = (endpoint: string): string => {
+  try {
+    return new URL(endpoint).host;
+  } catch {
+    return endpoint || 'unknown';
+  }
+};
+
+/**
+ * Get the start of the local day containing a timestamp
+ */
+export function getStartOfDay(now = Date.now()): number {
+  const date = new Date(now);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+/**
+ * Get the start of the local month containing a timestamp
+ */
+export function getStartOfMonth(now = Date.now()): number {
+  const date = new Date(now);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+}
+
+/**
+ * Record the usage of a finished AI call
+ * Failures are logged and swallowed, so a full or blocked database never breaks the call itself
+ */
+export async function recordUsage(
+  feature: UsageFeature,
+  provider: ProviderConfig,
+  usage?: TokenUsage,
+  audioSeconds?: number
+): Promise<void> {
+  const record: UsageRecord = {
+    id: createId(),
+    feature,
+    model: provider.modelName,
+    provider: getProviderLabel(provider.endpoint),
+    inputTokens: usage?.inputTokens ?? 0,
+    outputTokens: usage?.outputTokens ?? 0,
+    ...(audioSeconds !== undefined && { audioSeconds }),
+    createdAt: Date.now(),
+  };
+
+  try {
+    await withStore(STORES.usage, 'readwrite', async (store) => {
+      await promisifyRequest(store.put(record));
+
+      const cutoff = Date.now() - MAX_USAGE_AGE_DAYS * 24 * 60 * 60 * 1000;
+      await iterateCursor(store.index('createdAt').openCursor(IDBKeyRange.upperBound(cutoff, true)), (cursor) => {
+        cursor.delete();
+      });
+    });
+  } catch (error) {
+    console.warn('[Usage] Failed to record usage:', error);
+  }
+}
+
+/**
+ * List usage records created at or after a timestamp, oldest first
+ */
+export async function listUsage(since: number): Promise<UsageRecord[]> {
+  const records: UsageRecord[] = [];
+
+  await withStore(STORES.usage, 'readonly', (store) =>
+    iterateCursor(store.index('createdAt').openCursor(IDBKeyRange.lowerBound(since)), (cursor) => {
+      records.push(cursor.value as UsageRecord);
+    })
+  );
+
+  return records;
+}
+
+/**
+ * Delete all usage records
+ */
+export async function clearUsage(): Promise<void> {
+  await withStore(STORES.usage, 'readwrite', (store) => promisifyRequest(store.clear()));
+}
+
+/**
+ * Find the price entered for a model (names are matched case-insensitively)
+ */
+const findPrice = (model: string, prices: ModelPrice[]): ModelPrice | undefined => {
+  const needle = model.trim().toLowerCase();
+  return prices.find(price => price.model.trim().toLowerCase() === needle);
+};
+
+/**
+ * Estimate the cost of a record, or null when its model has no price
+ */
+export function estimateCost(record: UsageRecord, prices: ModelPrice[]): number | null {
+  const price = findPrice(record.model, prices);
+  if (!price) {
+    return null;
+  }
+
+  return (record.inputTokens / 1_000_000) * price.inputPrice +
+    (record.outputTokens / 1_000_000) * price.outputPrice +
+    ((record.audioSeconds ?? 0) / 60) * (price.audioPrice ?? 0);
+}
+
+/**
+ * Add up a set of usage records
+ */
+export function summarizeUsage(records: UsageRecord[], prices: ModelPrice[]): UsageTotals {
+  const totals: UsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0, audioSeconds: 0, cost: 0, unpricedRequests: 0 };
+
+  for (const record of records) {
+    totals.requests++;
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.audioSeconds += record.audioSeconds ?? 0;
+
+    const cost = estimateCost(record, prices);
+    if (cost === null) {
+      totals.unpricedRequests++;
+    } else {
+      totals.cost += cost;
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Add up usage records per model, feature or provider, largest token count first
+ */
+export function groupUsage(
+  records: UsageRecord[],
+  prices: ModelPrice[],
+  key: 'model' | 'feature' | 'provider'
+): { key: string; totals: UsageTotals }[] {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const group = groups.get(record[key]) || [];
+    group.push(record);
+    groups.set(record[key], group);
+  }
+
+  return Array.from(groups, ([groupKey, group]) => ({ key: groupKey, totals: summarizeUsage(group, prices) }))
+    .sort((a, b) => (b.totals.inputTokens + b.totals.outputTokens) - (a.totals.inputTokens + a.totals.outputTokens));
+}
+
+/**
+ * Check today's and this month's estimated cost against the budgets, before a call is made
+ * Budgets are soft limits: each exceeded period is reported once per session and the call still goes ahead
+ * @returns The exceeded budget, or null when within budget, already reported or no budget is set
+ */
+export async function checkBudget(settings: AISettings): Promise<BudgetWarning | null> {
+  const { prices = [], currency = DEFAULT_CURRENCY, dailyBudget, monthlyBudget } = settings.usage || {};
+  if (!dailyBudget && !monthlyBudget) {
+    return null;
+  }
+
+  const now = Date.now();
+  const startOfDay = getStartOfDay(now);
+  const startOfMonth = getStartOfMonth(now);
+  const records = await listUsage(startOfMonth);
+
+  const periods = [
+    { period: 'daily' as const, budget: dailyBudget, since: startOfDay },
+    { period: 'monthly' as const, budget: monthlyBudget, since: startOfMonth },
+  ];
+
+  for (const { period, budget, since } of periods) {
+    const periodKey = `${period}:${since}`;
+    if (!budget || warnedPeriods.has(periodKey)) {
+      continue;
+    }
+
+    const spent = summarizeUsage(records.filter(record => record.createdAt >= since), prices).cost;
+    if (spent >= budget) {
+      warnedPeriods.add(periodKey);
+      return { period, spent, budget, currency };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Format an estimated cost with the user's currency symbol
+ */
+export function formatCost(cost: number, currency = DEFAULT_CURRENCY): string {
+  return `${currency}${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
@@ -67,6 +67,8 @@ export default defineConfig(({ mode }) => ({
         skipWaiting: true,
         clientsClaim: true,
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff,woff2,wasm}'],
+        // transformers.js loads the ONNX runtime from its CDN (cached below), so the bundled copy is never requested
+        globIgnores: ['**/ort-wasm-*.wasm'],
         runtimeCaching: [
           {
             urlPattern: /\/kuromoji\/dict\/.*\.gz$/,
@@ -82,6 +84,21 @@ export default defineConfig(({ mode }) => ({
               }
             }
           },
+          {
+            // Cache the ONNX runtime transformers.js loads from its CDN, so offline translation works without a connection
+            urlPattern: /^https:\/\/cdn\.jsdelivr\.net\/npm\/@huggingface\/transformers@/,
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'transformers-runtime-cache',
+              expiration: {
+                maxEntries: 10,
+                maxAgeSeconds: 365 * 24 * 60 * 60 // 1 year
+              },
+              cacheableResponse: {
+                statuses: [0, 200]
+              }
+            }
+          },
           {
             // Cache WASM files (mozjpeg encoder from @jsquash/jpeg)
             urlPattern: /.*\.wasm$/,
@@ -122,6 +139,10 @@ export default defineConfig(({ mode }) => ({
   optimizeDeps: {
     include: ['kuromoji', 'kuroshiro-analyzer-kuromoji', 'react', 'react-dom'],
   },
+  worker: {
+    // Module workers, so the offline translation worker can load transformers.js in chunks
+    format: 'es',
+  },
   publicDir: 'public',
   build: {
     outDir: 'dist',